@@ -0,0 +1,36 @@
+// Writes RSS, Atom and JSON feeds of approved launches into the build output:
+// /feed.xml, /atom.xml and /feed.json site-wide, and the same three files under every
+// category page (/category/{slug}/) and maker profile (/u/{username}/).
+// Runs after `vite build`; `npm run feeds -- --out <dir>` writes elsewhere.
+import { withAppModules, getOutputDir, writeOutputFile } from './lib/app';
+
+type FeedsModule = typeof import('../src/lib/data/feeds');
+type RenderModule = typeof import('../src/lib/feeds/render');
+
+async function main() {
+  const outputDir = getOutputDir();
+
+  const written = await withAppModules(async app => {
+    const { getLaunchFeeds } = await app.load<FeedsModule>('/src/lib/data/feeds.ts');
+    const { feedFiles, renderAtom, renderJsonFeed, renderRss } = await app.load<RenderModule>('/src/lib/feeds/render.ts');
+
+    const feeds = await getLaunchFeeds();
+    for (const { path, feed } of feeds) {
+      await Promise.all([
+        writeOutputFile(outputDir, path + feedFiles.rss, renderRss(feed)),
+        writeOutputFile(outputDir, path + feedFiles.atom, renderAtom(feed)),
+        writeOutputFile(outputDir, path + feedFiles.json, renderJsonFeed(feed))
+      ]);
+    }
+    return feeds.length;
+  });
+
+  console.info(`Wrote ${written} launch feeds to ${outputDir}`);
+  // Firestore keeps its connection open, so leave explicitly
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+// Writes /sitemap.xml into the build output from the live data: static pages, launches,
+// categories and launch weeks. Past 50,000 URLs it writes a sitemap index instead,
+// pointing at /sitemap-1.xml, /sitemap-2.xml and so on.
+// Runs after `vite build`. To refresh a deployed site on a schedule, run
+// `npm run sitemap -- --out <dir>` from a cron job and upload the files it writes.
+import { withAppModules, getOutputDir, writeOutputFile } from './lib/app';
+
+type SitemapDataModule = typeof import('../src/lib/data/sitemap');
+type SitemapRenderModule = typeof import('../src/lib/sitemap/render');
+type PathsModule = typeof import('../src/lib/utils/paths');
+
+async function main() {
+  const outputDir = getOutputDir();
+
+  const summary = await withAppModules(async app => {
+    const { getSitemapUrls } = await app.load<SitemapDataModule>('/src/lib/data/sitemap.ts');
+    const { buildSitemaps } = await app.load<SitemapRenderModule>('/src/lib/sitemap/render.ts');
+    const { getAbsoluteUrl } = await app.load<PathsModule>('/src/lib/utils/paths.ts');
+
+    const urls = await getSitemapUrls();
+    const files = buildSitemaps(urls, getAbsoluteUrl);
+    for (const file of files) {
+      await writeOutputFile(outputDir, file.path, file.content);
+    }
+    return `${urls.length} URLs in ${files.length} ${files.length === 1 ? 'file' : 'files'}`;
+  });
+
+  console.info(`Wrote the sitemap to ${outputDir}: ${summary}`);
+  // Firestore keeps its connection open, so leave explicitly
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
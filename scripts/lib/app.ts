@@ -0,0 +1,33 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createServer } from 'vite';
+
+export interface AppModules {
+  load<T>(modulePath: string): Promise<T>;
+}
+
+// Runs with modules from src/ loaded through Vite, the way the app sees them: with the
+// `@` alias and the VITE_* settings from .env. Build-time generators use it to reuse the
+// app's data layer, so set VITE_DATA_SOURCE=memory to generate from the demo data; that
+// needs no VITE_FIREBASE_* settings, since Firebase only starts when Firestore is read.
+export async function withAppModules<T>(run: (app: AppModules) => Promise<T>): Promise<T> {
+  const vite = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+  try {
+    return await run({ load: modulePath => vite.ssrLoadModule(modulePath) as Promise<never> });
+  } finally {
+    await vite.close();
+  }
+}
+
+// Build output folder: `--out <dir>`, or dist/ next to the built app
+export function getOutputDir(): string {
+  const index = process.argv.indexOf('--out');
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : 'dist';
+}
+
+// Writes a file the static host serves at the given site path, e.g. '/category/ai/feed.xml'
+export async function writeOutputFile(outputDir: string, sitePath: string, content: string): Promise<void> {
+  const file = path.join(outputDir, ...sitePath.split('/').filter(Boolean));
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, content);
+}
@@ -0,0 +1,36 @@
+import { existsSync } from 'node:fs';
+import { initializeApp } from 'firebase/app';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import { Firestore, getFirestore } from 'firebase/firestore';
+
+// Scripts read the same VITE_FIREBASE_* settings as the app, from the environment or from .env
+if (existsSync('.env')) process.loadEnvFile('.env');
+
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+}
+
+export interface ScriptAccount {
+  email: string;
+  password: string;
+}
+
+// Connects to Firestore with the client SDK. Without an account the script only gets
+// what the security rules allow visitors; admin-only scripts sign in as an admin user.
+export async function connectFirestore(account?: ScriptAccount): Promise<Firestore> {
+  const app = initializeApp({
+    apiKey: requireEnv('VITE_FIREBASE_API_KEY'),
+    authDomain: requireEnv('VITE_FIREBASE_AUTH_DOMAIN'),
+    projectId: requireEnv('VITE_FIREBASE_PROJECT_ID'),
+    storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
+    messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+    appId: requireEnv('VITE_FIREBASE_APP_ID')
+  });
+
+  if (account) {
+    await signInWithEmailAndPassword(getAuth(app), account.email, account.password);
+  }
+  return getFirestore(app);
+}
@@ -0,0 +1,140 @@
+// Delivers queued `mail` documents. Run with `npm run mail:worker`, or
+// `npm run mail:worker -- --once` to deliver what is due and exit, e.g. from cron.
+//
+// Environment, besides the VITE_FIREBASE_* settings:
+//   MAIL_WORKER_EMAIL, MAIL_WORKER_PASSWORD  an admin account to read and update mail with
+//   MAIL_TRANSPORT                           `outbox` (default) or `smtp`, see ./mail/transports.ts
+//
+// Only one worker should run at a time; mail is not claimed before it is sent.
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, Timestamp, updateDoc, where, DocumentData, Firestore } from 'firebase/firestore';
+import { MailContent } from '../src/lib/email/mail';
+import { RenderedEmail } from '../src/lib/email/render';
+import { EmailRecipient } from '../src/lib/email/templates';
+import { MailTransport } from '../src/lib/email/transport';
+import { withAppModules } from './lib/app';
+import { connectFirestore, requireEnv } from './lib/firebase';
+import { createTransportFromEnv } from './mail/transports';
+
+type MailModule = typeof import('../src/lib/email/mail');
+type TemplatesModule = typeof import('../src/lib/email/templates');
+
+// The app modules mail is rendered and filtered with
+interface MailTemplates {
+  renderMail: MailModule['renderMail'];
+  isOptedOut: TemplatesModule['isOptedOut'];
+}
+
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 5;
+const POLL_INTERVAL_MS = 60 * 1000;
+// Retries back off by this much per failed attempt
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Who the mail is for, or null when it is no longer wanted: preferences may have changed
+// since the mail was queued, e.g. for launch-day mail, and newsletter subscribers may
+// have unsubscribed
+async function findRecipient(db: Firestore, templates: MailTemplates, mail: DocumentData): Promise<EmailRecipient | null> {
+  if (mail.subscriberId) {
+    const subscriberDoc = await getDoc(doc(db, 'subscribers', mail.subscriberId));
+    return subscriberDoc.exists() ? { displayName: '' } : null;
+  }
+  if (!mail.toUid) return { displayName: '' };
+
+  const user = (await getDoc(doc(db, 'users', mail.toUid))).data();
+  return templates.isOptedOut(user?.emailPreferences, mail.category) ? null : { displayName: user?.displayName || '' };
+}
+
+// Firestore hands dates back as Timestamps, templates expect Dates
+function restoreDates(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(restoreDates);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, restoreDates(field)]));
+  }
+  return value;
+}
+
+function renderMessage(templates: MailTemplates, mail: DocumentData, recipient: EmailRecipient): RenderedEmail {
+  return templates.renderMail({ template: mail.template, data: restoreDates(mail.data) } as MailContent, recipient);
+}
+
+// Sends every message that is due and returns how many were handled
+async function deliverDue(db: Firestore, transport: MailTransport, templates: MailTemplates): Promise<number> {
+  const snapshot = await getDocs(query(
+    collection(db, 'mail'),
+    where('delivery.state', '==', 'PENDING'),
+    where('sendAt', '<=', Timestamp.now()),
+    orderBy('sendAt'),
+    limit(BATCH_SIZE)
+  ));
+
+  for (const mailDoc of snapshot.docs) {
+    const mail = mailDoc.data();
+    const attempts = (mail.delivery?.attempts || 0) + 1;
+
+    const recipient = await findRecipient(db, templates, mail);
+    if (!recipient) {
+      await updateDoc(mailDoc.ref, { 'delivery.state': 'SKIPPED', 'delivery.endTime': Timestamp.now() });
+      continue;
+    }
+
+    try {
+      await transport.send({ id: mailDoc.id, to: mail.to, ...renderMessage(templates, mail, recipient) });
+      await updateDoc(mailDoc.ref, {
+        'delivery.state': 'SENT',
+        'delivery.attempts': attempts,
+        'delivery.transport': transport.name,
+        'delivery.endTime': Timestamp.now()
+      });
+    } catch (error) {
+      console.error(`Error sending mail ${mailDoc.id}:`, error);
+      const hasFailed = attempts >= MAX_ATTEMPTS;
+      await updateDoc(mailDoc.ref, {
+        'delivery.state': hasFailed ? 'ERROR' : 'PENDING',
+        'delivery.attempts': attempts,
+        'delivery.error': error instanceof Error ? error.message : String(error),
+        ...(hasFailed ? {} : { sendAt: Timestamp.fromMillis(Date.now() + RETRY_DELAY_MS * attempts) })
+      });
+    }
+  }
+
+  return snapshot.size;
+}
+
+async function main() {
+  const isOnce = process.argv.includes('--once');
+  const transport = createTransportFromEnv();
+  const db = await connectFirestore({
+    email: requireEnv('MAIL_WORKER_EMAIL'),
+    password: requireEnv('MAIL_WORKER_PASSWORD')
+  });
+
+  console.info(`Mail worker delivering with the ${transport.name} transport`);
+
+  // Templates render with the app's modules, e.g. for the launch calendar's settings
+  await withAppModules(async app => {
+    const templates: MailTemplates = {
+      renderMail: (await app.load<MailModule>('/src/lib/email/mail.ts')).renderMail,
+      isOptedOut: (await app.load<TemplatesModule>('/src/lib/email/templates.ts')).isOptedOut
+    };
+
+    for (;;) {
+      let handled: number;
+      // A full batch means more mail may be due, so keep going before waiting
+      do {
+        handled = await deliverDue(db, transport, templates);
+        if (handled) console.info(`Handled ${handled} messages`);
+      } while (handled === BATCH_SIZE);
+
+      if (isOnce) break;
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  });
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import { MailTransport } from '../../src/lib/email/transport';
+import { requireEnv } from '../lib/firebase';
+
+export function createSmtpTransport(): MailTransport {
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport(process.env.SMTP_URL || {
+    host: requireEnv('SMTP_HOST'),
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+  });
+  const from = requireEnv('MAIL_FROM');
+
+  return {
+    name: 'smtp',
+    async send(mail) {
+      await transporter.sendMail({ from, to: mail.to, subject: mail.subject, html: mail.html, text: mail.text });
+    }
+  };
+}
+
+// Writes every message to a folder instead of sending it, for local development.
+// Open the .html file in a browser to see the email as recipients would.
+export function createOutboxTransport(directory: string): MailTransport {
+  return {
+    name: 'outbox',
+    async send(mail) {
+      await mkdir(directory, { recursive: true });
+      const base = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${mail.id}`);
+      await Promise.all([
+        writeFile(`${base}.json`, JSON.stringify({ to: mail.to, subject: mail.subject }, null, 2)),
+        writeFile(`${base}.html`, mail.html),
+        writeFile(`${base}.txt`, mail.text)
+      ]);
+      console.info(`[outbox] ${mail.subject} -> ${mail.to} (${base}.html)`);
+    }
+  };
+}
+
+// MAIL_TRANSPORT picks the transport: `smtp`, or `outbox` (the default) which
+// writes to MAIL_OUTBOX_DIR, or a folder in the system temp directory
+export function createTransportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT || 'outbox') {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'outbox':
+      return createOutboxTransport(process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), 'startups-ad-outbox'));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT ${process.env.MAIL_TRANSPORT}`);
+  }
+}
@@ -0,0 +1,36 @@
+// Writes a copy of the built index.html for every public page, e.g. /launch/orbit/index.html,
+// with that page's title, description, canonical link and link preview tags in <head>.
+// Crawlers and link unfurlers don't run the app, so this is all they see; browsers start
+// the app from the copy just as they do from index.html.
+// Runs after `vite build`; `npm run prerender -- --out <dir>` prerenders another build.
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { withAppModules, getOutputDir, writeOutputFile } from './lib/app';
+
+type PrerenderDataModule = typeof import('../src/lib/data/prerender');
+type PrerenderRenderModule = typeof import('../src/lib/seo/render');
+
+async function main() {
+  const outputDir = getOutputDir();
+  const template = await readFile(path.join(outputDir, 'index.html'), 'utf8');
+
+  const written = await withAppModules(async app => {
+    const { getPrerenderedPages } = await app.load<PrerenderDataModule>('/src/lib/data/prerender.ts');
+    const { renderPageHtml } = await app.load<PrerenderRenderModule>('/src/lib/seo/render.ts');
+
+    const pages = await getPrerenderedPages();
+    for (const page of pages) {
+      await writeOutputFile(outputDir, `${page.path}/index.html`, renderPageHtml(template, page.meta));
+    }
+    return pages.length;
+  });
+
+  console.info(`Prerendered ${written} pages into ${outputDir}`);
+  // Firestore keeps its connection open, so leave explicitly
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -20,6 +20,18 @@ const ForgotPasswordPage = lazy(() => import('@/pages/ForgotPasswordPage').then(
 const ProfilePage = lazy(() => import('@/pages/ProfilePage').then(module => ({ default: module.ProfilePage })));
 const AdminDashboard = lazy(() => import('@/pages/AdminDashboard').then(module => ({ default: module.AdminDashboard })));
 const SubmitStartupPage = lazy(() => import('@/pages/SubmitStartupPage').then(module => ({ default: module.SubmitStartupPage })));
+const WeekArchivePage = lazy(() => import('@/pages/WeekArchivePage').then(module => ({ default: module.WeekArchivePage })));
+const WeeksIndexPage = lazy(() => import('@/pages/WeeksIndexPage').then(module => ({ default: module.WeeksIndexPage })));
+const StartupPage = lazy(() => import('@/pages/StartupPage').then(module => ({ default: module.StartupPage })));
+const LeaderboardPage = lazy(() => import('@/pages/LeaderboardPage').then(module => ({ default: module.LeaderboardPage })));
+const CategoryPage = lazy(() => import('@/pages/CategoryPage').then(module => ({ default: module.CategoryPage })));
+const TagPage = lazy(() => import('@/pages/TagPage').then(module => ({ default: module.TagPage })));
+const UserProfilePage = lazy(() => import('@/pages/UserProfilePage').then(module => ({ default: module.UserProfilePage })));
+const CollectionPage = lazy(() => import('@/pages/CollectionPage').then(module => ({ default: module.CollectionPage })));
+const SearchPage = lazy(() => import('@/pages/SearchPage').then(module => ({ default: module.SearchPage })));
+const DigestPage = lazy(() => import('@/pages/DigestPage').then(module => ({ default: module.DigestPage })));
+const ConfirmSubscriptionPage = lazy(() => import('@/pages/ConfirmSubscriptionPage').then(module => ({ default: module.ConfirmSubscriptionPage })));
+const UnsubscribePage = lazy(() => import('@/pages/UnsubscribePage').then(module => ({ default: module.UnsubscribePage })));
 
 // Prefetch routes
 const prefetchRoutes = () => {
@@ -32,7 +44,19 @@ const prefetchRoutes = () => {
     () => import('@/pages/ForgotPasswordPage'),
     () => import('@/pages/ProfilePage'),
     () => import('@/pages/AdminDashboard'),
-    () => import('@/pages/SubmitStartupPage')
+    () => import('@/pages/SubmitStartupPage'),
+    () => import('@/pages/WeekArchivePage'),
+    () => import('@/pages/WeeksIndexPage'),
+    () => import('@/pages/LeaderboardPage'),
+    () => import('@/pages/StartupPage'),
+    () => import('@/pages/CategoryPage'),
+    () => import('@/pages/TagPage'),
+    () => import('@/pages/UserProfilePage'),
+    () => import('@/pages/CollectionPage'),
+    () => import('@/pages/SearchPage'),
+    () => import('@/pages/DigestPage'),
+    () => import('@/pages/ConfirmSubscriptionPage'),
+    () => import('@/pages/UnsubscribePage')
   ];
 
   routes.forEach(route => {
@@ -105,6 +129,97 @@ function AppContent() {
                 </Suspense>
               </PageTransition>
             } />
+            <Route path="/startup/:slug" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <StartupPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/week/:year/:week" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <WeekArchivePage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/weeks" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <WeeksIndexPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/leaderboard" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <LeaderboardPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/category/:slug" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <CategoryPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/tag/:tag" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <TagPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/u/:username" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <UserProfilePage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/u/:username/collections/:slug" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <CollectionPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/search" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <SearchPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/digest" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <DigestPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/digest/:week" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <DigestPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/confirm-subscription/:token" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <ConfirmSubscriptionPage />
+                </Suspense>
+              </PageTransition>
+            } />
+            <Route path="/unsubscribe/:token" element={
+              <PageTransition>
+                <Suspense fallback={<LoadingFallback />}>
+                  <UnsubscribePage />
+                </Suspense>
+              </PageTransition>
+            } />
             <Route path="/login" element={
               <PageTransition>
                 <Suspense fallback={<LoadingFallback />}>
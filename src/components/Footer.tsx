@@ -1,9 +1,19 @@
-
+import { Link } from 'react-router-dom';
+import { DigestSignup } from '@/components/digest/DigestSignup';
 
 export function Footer() {
   return (
     <footer className="border-t py-6 md:py-8">
-      <div className="container flex items-center justify-center">
+      <div className="container flex flex-col items-center gap-6">
+        <div className="w-full text-center space-y-3">
+          <p className="text-sm font-medium">
+            Get the week's top launches by email.{' '}
+            <Link to="/digest" className="text-primary hover:underline">
+              Read the latest digest
+            </Link>
+          </p>
+          <DigestSignup />
+        </div>
         <p className="text-sm text-muted-foreground">
           Built with ❤️ by{' '}
           <a
@@ -18,4 +28,4 @@ export function Footer() {
       </div>
     </footer>
   );
-}
\ No newline at end of file
+}
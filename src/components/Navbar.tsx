@@ -3,12 +3,35 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ThemeToggle } from './ThemeToggle';
 import { Button } from './ui/button';
-import { UserCircle } from 'lucide-react';
+import { UserCircle, Search } from 'lucide-react';
 import { useAuthContext } from '@/providers/AuthProvider';
+import { SearchPalette } from './search/SearchPalette';
+import { NotificationBell } from './notifications/NotificationBell';
+
+const navLinks = [
+  { label: 'Leaderboard', path: '/leaderboard' },
+  { label: 'Archive', path: '/weeks' },
+  { label: 'Boost', path: '/boost' }
+];
 
 export function Navbar() {
   const [isMobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setSearchOpen] = useState(false);
   const { user, logout } = useAuthContext();
+  const shortcutLabel = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K';
+
+  // Cmd/Ctrl-K opens the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleLogout = async () => {
     try {
@@ -70,9 +93,19 @@ export function Navbar() {
               </Link>
             </motion.div>
             <div className="hidden md:flex items-center space-x-1">
-              {['Boost'].map((item, index) => (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mr-2 text-muted-foreground"
+                onClick={() => setSearchOpen(true)}
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Search
+                <kbd className="ml-3 rounded border bg-muted px-1.5 text-[10px] font-medium">{shortcutLabel}</kbd>
+              </Button>
+              {navLinks.map((item, index) => (
                 <motion.div
-                  key={item}
+                  key={item.path}
                   custom={index}
                   variants={linkVariants}
                   initial="initial"
@@ -81,10 +114,10 @@ export function Navbar() {
                   whileTap={{ scale: 0.95 }}
                 >
                   <Link 
-                    to={`/${item.toLowerCase()}`} 
+                    to={item.path} 
                     className="px-4 py-2 text-foreground rounded-lg transition-colors duration-200 hover:bg-accent/80"
                   >
-                    {item}
+                    {item.label}
                   </Link>
                 </motion.div>
               ))}
@@ -102,6 +135,7 @@ export function Navbar() {
               
               {user ? (
                 <div className="flex items-center gap-2">
+                  <NotificationBell userId={user.uid} />
                   <Button 
                     variant="ghost" 
                     size="icon"
@@ -146,17 +180,28 @@ export function Navbar() {
               <ThemeToggle />
             </div>
             <div className="md:hidden flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Search"
+                onClick={() => setSearchOpen(true)}
+              >
+                <Search className="h-5 w-5" />
+              </Button>
               {user ? (
-                <Button 
-                  variant="ghost" 
-                  size="icon"
-                  className="relative"
-                  asChild
-                >
-                  <Link to="/profile">
-                    <UserCircle className="h-5 w-5" />
-                  </Link>
-                </Button>
+                <>
+                  <NotificationBell userId={user.uid} />
+                  <Button 
+                    variant="ghost" 
+                    size="icon"
+                    className="relative"
+                    asChild
+                  >
+                    <Link to="/profile">
+                      <UserCircle className="h-5 w-5" />
+                    </Link>
+                  </Button>
+                </>
               ) : (
                 <Button 
                   variant="ghost" 
@@ -205,9 +250,9 @@ export function Navbar() {
                 variants={menuVariants}
               >
                 <div className="py-2 space-y-1">
-                  {['Boost', '+ Submit'].map((item, index) => (
+                  {[...navLinks, { label: '+ Submit', path: '/submit' }].map((item, index) => (
                     <motion.div
-                      key={item}
+                      key={item.path}
                       variants={linkVariants}
                       custom={index}
                       initial="initial"
@@ -216,13 +261,13 @@ export function Navbar() {
                       whileTap={{ scale: 0.95 }}
                     >
                       <Link 
-                        to={item === '+ Submit' ? "/submit" : `/${item.toLowerCase()}`}
+                        to={item.path}
                         className={`block px-4 py-2 text-foreground rounded-lg transition-colors duration-200 hover:bg-accent/80 ${
-                          item === '+ Submit' ? 'border border-foreground mt-2 rainbow-border-button' : ''
+                          item.path === '/submit' ? 'border border-foreground mt-2 rainbow-border-button' : ''
                         }`}
                         onClick={() => setMobileMenuOpen(false)}
                       >
-                        {item}
+                        {item.label}
                       </Link>
                     </motion.div>
                   ))}
@@ -271,6 +316,7 @@ export function Navbar() {
           </AnimatePresence>
         </div>
       </nav>
+      <SearchPalette open={isSearchOpen} onOpenChange={setSearchOpen} />
     </motion.div>
   );
 }
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
+import { launchCalendar } from '@/lib/utils/launch-calendar';
 
 interface TimeLeft {
   days: number;
@@ -19,20 +20,9 @@ export function WeeklyCountdownTimer() {
   useEffect(() => {
     const calculateTimeLeft = () => {
       const now = new Date();
-      const nextSunday = new Date(now);
+      const nextLaunch = launchCalendar.getNextLaunchDate(now);
       
-      // If it's already past Saturday 23:59:59, get next week's Sunday
-      if (now.getDay() === 6 && now.getHours() === 23 && now.getMinutes() === 59 && now.getSeconds() > 58) {
-        nextSunday.setDate(now.getDate() + 1);
-      } else {
-        // Get the most recent Sunday (or next Sunday if it's Saturday night)
-        nextSunday.setDate(now.getDate() - now.getDay() + 7);
-      }
-      
-      // Set to midnight (00:00:00)
-      nextSunday.setHours(0, 0, 0, 0);
-      
-      const difference = nextSunday.getTime() - now.getTime();
+      const difference = nextLaunch.getTime() - now.getTime();
       
       setTimeLeft({
         days: Math.floor(difference / (1000 * 60 * 60 * 24)),
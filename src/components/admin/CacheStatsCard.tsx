@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { getCacheStats } from '@/lib/data/cache';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+// Hit and miss counts of the data cache in this browser tab, since it was opened
+export function CacheStatsCard() {
+  const [stats, setStats] = useState(getCacheStats);
+
+  const rows = [
+    { label: 'Fresh hits', value: stats.hits },
+    { label: 'Stale hits', value: stats.staleHits },
+    { label: 'Misses', value: stats.misses },
+    { label: 'Revalidations', value: stats.revalidations },
+    { label: 'Errors', value: stats.errors }
+  ];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Cache</CardTitle>
+          <CardDescription>
+            {Math.round(stats.hitRate * 100)}% of reads in this tab were served from the cache
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setStats(getCacheStats())}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+        {rows.map(row => (
+          <div key={row.label}>
+            <p className="text-sm font-medium text-muted-foreground">{row.label}</p>
+            <p className="text-2xl font-bold">{row.value}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
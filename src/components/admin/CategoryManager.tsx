@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { getRepository } from '@/lib/data/repository';
+import { clearCategoriesCache } from '@/lib/data/categories';
+import { clearLaunchesCache } from '@/lib/data/launches';
+import { defaultCategories } from '@/lib/data/default-categories';
+import { CategoryIcon } from '@/components/category/CategoryIcon';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Category, CategoryInput } from '@/lib/types';
+import { categoryIconNames } from '@/lib/utils/category-icons';
+import { getCategoryPath } from '@/lib/utils/paths';
+import { Plus } from 'lucide-react';
+
+const emptyForm: CategoryInput = { name: '', description: '', icon: 'tag' };
+
+// Category CRUD for the admin dashboard. Reads go straight to the repository
+// so admins always see the stored list, not the visitors' cached copy.
+export function CategoryManager() {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // null while closed; 'new' for the create dialog, otherwise the category being edited
+  const [editTarget, setEditTarget] = useState<Category | 'new' | null>(null);
+  const [form, setForm] = useState<CategoryInput>(emptyForm);
+  const [mergeSource, setMergeSource] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      setCategories(await getRepository().categories.list());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch categories',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  // Runs a write, refreshes the list and visitors' caches, and reports the outcome
+  const save = async (write: () => Promise<string>, failure: string) => {
+    setIsSaving(true);
+    try {
+      const description = await write();
+      await Promise.all([clearCategoriesCache(), clearLaunchesCache()]);
+      await fetchCategories();
+      toast({
+        title: 'Success',
+        description,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditClick = (target: Category | 'new') => {
+    setEditTarget(target);
+    setForm(target === 'new' ? emptyForm : { name: target.name, description: target.description, icon: target.icon });
+  };
+
+  const handleEditConfirm = async () => {
+    const input = { ...form, name: form.name.trim(), description: form.description.trim() };
+    if (!editTarget || !input.name) return;
+
+    const saved = await save(async () => {
+      const { categories: repository } = getRepository();
+      if (editTarget === 'new') {
+        const created = await repository.create(input);
+        return `Created ${created.name} at ${getCategoryPath(created.slug)}`;
+      }
+      const updated = await repository.update(editTarget.id, input);
+      return `Saved ${updated.name}`;
+    }, 'Failed to save category');
+
+    if (saved) setEditTarget(null);
+  };
+
+  const handleArchive = (category: Category) => save(async () => {
+    await getRepository().categories.setArchived(category.id, !category.archived);
+    return category.archived ? `Restored ${category.name}` : `Archived ${category.name}`;
+  }, 'Failed to update category');
+
+  const handleMergeConfirm = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+    const target = categories.find(category => category.id === mergeTargetId);
+
+    const saved = await save(async () => {
+      const moved = await getRepository().categories.merge(mergeSource.id, mergeTargetId);
+      return `Moved ${moved} startups from ${mergeSource.name} to ${target?.name}`;
+    }, 'Failed to merge categories');
+
+    if (saved) setMergeSource(null);
+  };
+
+  const handleSeed = () => save(async () => {
+    const created = await getRepository().maintenance.seedCategories(defaultCategories);
+    return `Added ${created} categories`;
+  }, 'Failed to add the default categories');
+
+  const nameOf = (id: string) => categories.find(category => category.id === id)?.name ?? id;
+
+  return (
+    <>
+      <Card className="mb-8">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle>Categories</CardTitle>
+            <CardDescription>
+              Launches keep their category through renames. Archived categories are no longer offered to makers.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => handleEditClick('new')}>
+            <Plus className="h-4 w-4 mr-1" /> New
+          </Button>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {isLoading ? (
+            <div className="text-center py-4">
+              <div className="animate-pulse text-primary">Loading categories...</div>
+            </div>
+          ) : categories.length === 0 ? (
+            <div className="py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                No categories stored yet, so visitors see the built-in ones. Store them to edit them.
+              </p>
+              <Button variant="outline" onClick={handleSeed} disabled={isSaving}>
+                Add default categories
+              </Button>
+            </div>
+          ) : categories.map(category => (
+            <div
+              key={category.id}
+              className="py-4 first:pt-0 last:pb-0 flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+            >
+              <div className="flex items-start gap-3 min-w-0">
+                <div className="p-2 bg-primary/10 rounded-full flex-shrink-0">
+                  <CategoryIcon icon={category.icon} className="h-4 w-4 text-primary" />
+                </div>
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link to={getCategoryPath(category.slug)} className="font-medium hover:underline">
+                      {category.name}
+                    </Link>
+                    {category.mergedInto ? (
+                      <Badge variant="outline">Merged into {nameOf(category.mergedInto)}</Badge>
+                    ) : category.archived && (
+                      <Badge variant="outline">Archived</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{category.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    /category/{category.slug}
+                    {category.aliases.length > 0 && ` · also ${category.aliases.join(', ')}`}
+                  </p>
+                </div>
+              </div>
+              {!category.mergedInto && (
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => handleEditClick(category)} disabled={isSaving}>
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleArchive(category)} disabled={isSaving}>
+                    {category.archived ? 'Restore' : 'Archive'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setMergeSource(category);
+                      setMergeTargetId('');
+                    }}
+                    disabled={isSaving}
+                  >
+                    Merge
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editTarget !== null} onOpenChange={(open) => {
+        if (!open) setEditTarget(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editTarget === 'new' ? 'New Category' : 'Edit Category'}</DialogTitle>
+            <DialogDescription>
+              {editTarget === 'new'
+                ? 'The category gets a URL based on its name.'
+                : 'Renaming gives the category a new URL. Links using its old URL keep working.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-6 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description</Label>
+              <Textarea
+                id="category-description"
+                value={form.description}
+                onChange={(event) => setForm({ ...form, description: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <div className="flex flex-wrap gap-2">
+                {categoryIconNames.map(icon => (
+                  <Button
+                    key={icon}
+                    type="button"
+                    variant={form.icon === icon ? 'default' : 'outline'}
+                    size="icon"
+                    onClick={() => setForm({ ...form, icon })}
+                    aria-label={icon}
+                  >
+                    <CategoryIcon icon={icon} className="h-4 w-4" />
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleEditConfirm} disabled={isSaving || !form.name.trim()}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={mergeSource !== null} onOpenChange={(open) => {
+        if (!open) setMergeSource(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {mergeSource?.name}</DialogTitle>
+            <DialogDescription>
+              Every startup in {mergeSource?.name} moves to the chosen category and {mergeSource?.name} is archived.
+              Its URL will lead to the chosen category. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-6 space-y-2">
+            <Label>Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter(category => category.id !== mergeSource?.id && !category.mergedInto)
+                  .map(category => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleMergeConfirm} disabled={isSaving || !mergeTargetId}>
+              {isSaving ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { getArchiveWeeks } from '@/lib/data/launches';
+import {
+  getDigestSubscribers,
+  getSentDigest,
+  getWeeklyDigest,
+  previewDigestEmail,
+  sendDigestTest,
+  sendWeeklyDigest
+} from '@/lib/data/digest';
+import { WeeklyDigest } from '@/lib/email/digest';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { SentDigest } from '@/lib/types';
+import { formatWeekRange, LaunchWeek } from '@/lib/utils/launch-calendar';
+import { getDigestPath } from '@/lib/utils/paths';
+
+function formatSentAt(date: Date) {
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+}
+
+// Weekly digest preview and send for the admin dashboard. Defaults to the week that closed last.
+export function DigestManager() {
+  const { user } = useAuthContext();
+  const { toast } = useToast();
+  const [weeks, setWeeks] = useState<LaunchWeek[]>([]);
+  const [weekId, setWeekId] = useState('');
+  const [subscriberCount, setSubscriberCount] = useState(0);
+  const [digest, setDigest] = useState<WeeklyDigest | null>(null);
+  const [sentDigest, setSentDigest] = useState<SentDigest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getArchiveWeeks(), getDigestSubscribers()])
+      .then(([archiveWeeks, subscribers]) => {
+        setWeeks(archiveWeeks);
+        setWeekId(archiveWeeks[0]?.id ?? '');
+        setSubscriberCount(subscribers.length);
+        if (!archiveWeeks.length) setIsLoading(false);
+      })
+      .catch(error => {
+        console.error('Error fetching digest weeks:', error);
+        setIsLoading(false);
+      });
+  }, []);
+
+  const fetchDigest = useCallback(async (week: LaunchWeek) => {
+    setIsLoading(true);
+    try {
+      const [found, sent] = await Promise.all([getWeeklyDigest(week), getSentDigest(week)]);
+      setDigest(found);
+      setSentDigest(sent);
+    } catch (error) {
+      console.error('Error fetching digest:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to build the digest',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const week = weeks.find(current => current.id === weekId);
+    if (week) fetchDigest(week);
+  }, [weeks, weekId, fetchDigest]);
+
+  const handleSendTest = async () => {
+    if (!digest || !user?.email) return;
+
+    setIsSending(true);
+    try {
+      await sendDigestTest(digest, user.uid, user.email);
+      toast({
+        title: 'Success',
+        description: `Test digest queued for ${user.email}`,
+      });
+    } catch (error) {
+      console.error('Error sending test digest:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send the test digest',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSendConfirm = async () => {
+    if (!digest) return;
+
+    setIsSending(true);
+    try {
+      const queued = await sendWeeklyDigest(digest);
+      setSentDigest(await getSentDigest(digest.week));
+      setIsConfirmOpen(false);
+      toast({
+        title: 'Success',
+        description: `Digest queued for ${queued} subscribers`,
+      });
+    } catch (error) {
+      console.error('Error sending digest:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send the digest',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Weekly digest</CardTitle>
+          <CardDescription>
+            Preview a finished week's digest and email it to {subscriberCount} {subscriberCount === 1 ? 'subscriber' : 'subscribers'}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {weeks.length === 0 && !isLoading ? (
+            <p className="text-sm text-muted-foreground">No launch week has finished yet.</p>
+          ) : (
+            <>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <Select value={weekId} onValueChange={setWeekId}>
+                  <SelectTrigger className="sm:w-72">
+                    <SelectValue placeholder="Select a week" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {weeks.map(week => (
+                      <SelectItem key={week.id} value={week.id}>
+                        Week {week.week}, {week.year} · {formatWeekRange(week)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {sentDigest && (
+                  <Badge variant="secondary">
+                    Sent {formatSentAt(sentDigest.sentAt)} to {sentDigest.recipients}
+                  </Badge>
+                )}
+              </div>
+
+              {isLoading || !digest ? (
+                <div className="text-center py-4">
+                  <div className="animate-pulse text-primary">Loading digest...</div>
+                </div>
+              ) : (
+                <>
+                  <iframe
+                    title="Digest preview"
+                    srcDoc={previewDigestEmail(digest).html}
+                    sandbox=""
+                    className="w-full h-[600px] rounded-md border bg-white"
+                  />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <Link to={getDigestPath(digest.week)} className="text-sm text-primary hover:underline">
+                      Open the web version
+                    </Link>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={handleSendTest} disabled={isSending || !user?.email}>
+                        Send test to me
+                      </Button>
+                      <Button
+                        onClick={() => setIsConfirmOpen(true)}
+                        disabled={isSending || subscriberCount === 0 || digest.topLaunches.length === 0}
+                      >
+                        Send to subscribers
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send the week {digest?.week.week} digest</DialogTitle>
+            <DialogDescription>
+              {sentDigest
+                ? `This digest was already sent on ${formatSentAt(sentDigest.sentAt)}. Sending again emails all ${subscriberCount} subscribers a second time.`
+                : `This emails the digest to all ${subscriberCount} subscribers. It can't be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSendConfirm} disabled={isSending}>
+              {isSending ? 'Sending...' : 'Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
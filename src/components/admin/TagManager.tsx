@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { getRepository } from '@/lib/data/repository';
+import { clearTagsCache } from '@/lib/data/tags';
+import { clearLaunchesCache } from '@/lib/data/launches';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { TagRecord } from '@/lib/types';
+import { getTagPath } from '@/lib/utils/paths';
+import { normalizeTag } from '@/lib/utils/tags';
+import { Plus } from 'lucide-react';
+
+interface TagRow extends TagRecord {
+  count: number;
+}
+
+// Tags as admins see them: every tag in use plus every tag with a decision,
+// curated first, then by how many approved launches use them
+function toRows(records: TagRecord[], counts: Map<string, number>): TagRow[] {
+  const rows = new Map<string, TagRow>();
+  counts.forEach((count, tag) => rows.set(tag, { tag, curated: false, banned: false, count }));
+  records.forEach(record => rows.set(record.tag, { ...record, count: counts.get(record.tag) ?? 0 }));
+
+  return Array.from(rows.values()).sort((a, b) =>
+    Number(b.curated) - Number(a.curated) || b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+// Tag moderation for the admin dashboard. Like the category manager it reads
+// straight from the repository so admins see the stored state.
+export function TagManager() {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<TagRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const [mergeSource, setMergeSource] = useState<TagRow | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const repository = getRepository();
+      const [records, launches] = await Promise.all([repository.tags.list(), repository.launches.listApproved()]);
+      const counts = new Map<string, number>();
+      launches.forEach(launch => {
+        launch.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+      });
+      setRows(toRows(records, counts));
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch tags',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  // Runs a write, refreshes the list and visitors' caches, and reports the outcome
+  const save = async (write: () => Promise<string>, failure: string) => {
+    setIsSaving(true);
+    try {
+      const description = await write();
+      await Promise.all([clearTagsCache(), clearLaunchesCache()]);
+      await fetchTags();
+      toast({
+        title: 'Success',
+        description,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving tag:', error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddCurated = async () => {
+    const tag = normalizeTag(newTag);
+    if (!tag) return;
+
+    const saved = await save(async () => {
+      await getRepository().tags.setCurated(tag, true);
+      return `#${tag} is now suggested to makers`;
+    }, 'Failed to add tag');
+
+    if (saved) setNewTag('');
+  };
+
+  const handleCurate = (row: TagRow) => save(async () => {
+    await getRepository().tags.setCurated(row.tag, !row.curated);
+    return row.curated ? `#${row.tag} is no longer featured` : `#${row.tag} is now featured`;
+  }, 'Failed to update tag');
+
+  const handleBan = (row: TagRow) => save(async () => {
+    if (row.banned) {
+      await getRepository().tags.unban(row.tag);
+      return `Unbanned #${row.tag}`;
+    }
+    const changed = await getRepository().tags.ban(row.tag);
+    return `Banned #${row.tag} and removed it from ${changed} startups`;
+  }, 'Failed to update tag');
+
+  const handleMergeConfirm = async () => {
+    if (!mergeSource || !mergeTarget) return;
+
+    const saved = await save(async () => {
+      const changed = await getRepository().tags.merge(mergeSource.tag, mergeTarget);
+      return `Moved ${changed} startups from #${mergeSource.tag} to #${mergeTarget}`;
+    }, 'Failed to merge tags');
+
+    if (saved) setMergeSource(null);
+  };
+
+  return (
+    <>
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>
+            Featured tags are suggested to makers first. Banned tags are removed from every startup and can't be added again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={newTag}
+              onChange={(event) => setNewTag(event.target.value)}
+              placeholder="Add a featured tag"
+            />
+            <Button variant="outline" onClick={handleAddCurated} disabled={isSaving || !normalizeTag(newTag)}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+
+          <div className="divide-y">
+            {isLoading ? (
+              <div className="text-center py-4">
+                <div className="animate-pulse text-primary">Loading tags...</div>
+              </div>
+            ) : rows.length === 0 ? (
+              <p className="py-4 text-sm text-muted-foreground">No tags yet.</p>
+            ) : rows.map(row => (
+              <div
+                key={row.tag}
+                className="py-3 first:pt-0 last:pb-0 flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+              >
+                <div className="flex flex-wrap items-center gap-2 min-w-0">
+                  <Link to={getTagPath(row.tag)} className="font-medium hover:underline">
+                    #{row.tag}
+                  </Link>
+                  <span className="text-sm text-muted-foreground">
+                    {row.count} {row.count === 1 ? 'launch' : 'launches'}
+                  </span>
+                  {row.curated && <Badge variant="secondary">Featured</Badge>}
+                  {row.banned && <Badge variant="destructive">Banned</Badge>}
+                  {row.mergedInto && <Badge variant="outline">Merged into #{row.mergedInto}</Badge>}
+                </div>
+                {!row.mergedInto && (
+                  <div className="flex gap-2 flex-shrink-0">
+                    {!row.banned && (
+                      <Button variant="outline" size="sm" onClick={() => handleCurate(row)} disabled={isSaving}>
+                        {row.curated ? 'Unfeature' : 'Feature'}
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleBan(row)} disabled={isSaving}>
+                      {row.banned ? 'Unban' : 'Ban'}
+                    </Button>
+                    {!row.banned && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setMergeSource(row);
+                          setMergeTarget('');
+                        }}
+                        disabled={isSaving}
+                      >
+                        Merge
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={mergeSource !== null} onOpenChange={(open) => {
+        if (!open) setMergeSource(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge #{mergeSource?.tag}</DialogTitle>
+            <DialogDescription>
+              Every startup tagged #{mergeSource?.tag} gets the chosen tag instead, and makers who
+              type #{mergeSource?.tag} get the chosen tag from now on. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-6 space-y-2">
+            <Label>Merge into</Label>
+            <Select value={mergeTarget} onValueChange={setMergeTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {rows
+                  .filter(row => row.tag !== mergeSource?.tag && !row.banned && !row.mergedInto)
+                  .map(row => (
+                    <SelectItem key={row.tag} value={row.tag}>
+                      #{row.tag}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleMergeConfirm} disabled={isSaving || !mergeTarget}>
+              {isSaving ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
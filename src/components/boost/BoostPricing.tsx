@@ -11,24 +11,28 @@ import { PremiumListing } from '@/components/launch/PremiumListing';
 // Preview data for Basic and Premium boosts
 const basicPreview = {
   id: 'preview-basic',
+  slug: 'preview-basic',
   name: 'Your Startup',
   logo: '/images/eglogo.png',
   description: 'Your startup description will appear here with enhanced visibility',
   launchDate: new Date().toISOString(),
   website: 'https://example.com',
   category: 'SaaS',
+  tags: [],
   listingType: 'boosted',
   doFollowBacklink: true
 };
 
 const premiumPreview = {
   id: 'preview-premium',
+  slug: 'preview-premium',
   name: 'Your Startup',
   logo: '/images/eglogo.png',
   description: 'Your startup will be featured prominently at the top of the page',
   launchDate: new Date().toISOString(),
   website: 'https://example.com',
   category: 'Featured',
+  tags: [],
   listingType: 'premium',
   doFollowBacklink: true
 };
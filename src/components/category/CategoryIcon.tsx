@@ -0,0 +1,12 @@
+import { LucideProps, Tag } from 'lucide-react';
+import { categoryIcons, CategoryIconName } from '@/lib/utils/category-icons';
+
+interface CategoryIconProps extends LucideProps {
+  icon: string;
+}
+
+// Unknown keys fall back to a tag rather than rendering nothing
+export function CategoryIcon({ icon, ...props }: CategoryIconProps) {
+  const Icon = categoryIcons[icon as CategoryIconName] ?? Tag;
+  return <Icon {...props} />;
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { getLaunchesByIds } from '@/lib/data/launches';
+import { LaunchCollection } from '@/lib/types';
+import { Launch } from '@/lib/types/launch';
+import { getCollectionPath, getStartupPath } from '@/lib/utils/paths';
+
+interface CollectionCardProps {
+  collection: LaunchCollection;
+  username?: string;
+  isFirst: boolean;
+  isLast: boolean;
+  isSaving: boolean;
+  onMove: (offset: -1 | 1) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onSetLaunches: (launchIds: string[]) => void;
+}
+
+// Moves the item at `index` by `offset`, returning a new array
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(index + offset, 0, item);
+  return next;
+}
+
+export function CollectionCard({ collection, username, isFirst, isLast, isSaving, onMove, onEdit, onDelete, onSetLaunches }: CollectionCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const { launchIds } = collection;
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    let isCancelled = false;
+
+    getLaunchesByIds(launchIds)
+      .then(loaded => {
+        if (!isCancelled) setLaunches(loaded);
+      })
+      .catch(error => {
+        console.error('Error fetching collection launches:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isExpanded, launchIds]);
+
+  // Launches that are no longer listed stay in the collection, after the others, but can't be shown
+  const listed = launchIds.flatMap(id => launches.find(launch => launch.id === id) ?? []);
+  const unlisted = launchIds.filter(id => !listed.some(launch => launch.id === id));
+
+  const handleMove = (index: number, offset: -1 | 1) =>
+    onSetLaunches([...move(listed, index, offset).map(launch => launch.id), ...unlisted]);
+
+  return (
+    <div className="py-4 first:pt-0 last:pb-0 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <button
+          type="button"
+          className="flex items-start gap-2 text-left min-w-0"
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronDown className="h-5 w-5 mt-0.5 flex-shrink-0" /> : <ChevronRight className="h-5 w-5 mt-0.5 flex-shrink-0" />}
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{collection.name}</span>
+              <Badge variant="outline">{collection.isPublic ? 'Public' : 'Private'}</Badge>
+              <span className="text-sm text-muted-foreground">
+                {launchIds.length} {launchIds.length === 1 ? 'launch' : 'launches'}
+              </span>
+            </div>
+            {collection.description && (
+              <p className="text-sm text-muted-foreground">{collection.description}</p>
+            )}
+          </div>
+        </button>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button variant="outline" size="icon" onClick={() => onMove(-1)} disabled={isSaving || isFirst} aria-label="Move up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => onMove(1)} disabled={isSaving || isLast} aria-label="Move down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={onEdit} disabled={isSaving}>
+            Edit
+          </Button>
+          <Button variant="outline" size="sm" onClick={onDelete} disabled={isSaving}>
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {collection.isPublic && username && (
+        <Link to={getCollectionPath(username, collection.slug)} className="text-sm text-primary hover:underline">
+          {getCollectionPath(username, collection.slug)}
+        </Link>
+      )}
+
+      {isExpanded && (
+        listed.length === 0 ? (
+          <p className="text-sm text-muted-foreground pl-7">
+            No launches yet. Add saved launches from the list above.
+          </p>
+        ) : (
+          <ol className="space-y-2 pl-7">
+            {listed.map((launch, index) => (
+              <li key={launch.id} className="flex items-center gap-3">
+                <img src={launch.logo} alt={launch.name} className="w-8 h-8 rounded object-cover flex-shrink-0" width="32" height="32" />
+                <Link to={getStartupPath(launch.slug)} className="flex-1 min-w-0 truncate font-medium hover:underline">
+                  {launch.name}
+                </Link>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={isSaving || index === 0}
+                    aria-label={`Move ${launch.name} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={isSaving || index === listed.length - 1}
+                    aria-label={`Move ${launch.name} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onSetLaunches(launchIds.filter(id => id !== launch.id))}
+                    disabled={isSaving}
+                    aria-label={`Remove ${launch.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )
+      )}
+    </div>
+  );
+}
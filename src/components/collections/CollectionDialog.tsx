@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { CollectionInput, LaunchCollection } from '@/lib/types';
+
+const emptyForm: CollectionInput = { name: '', description: '', isPublic: false };
+
+interface CollectionDialogProps {
+  // 'new' for the create dialog, a collection to edit it, null while closed
+  target: LaunchCollection | 'new' | null;
+  isSaving: boolean;
+  onSave: (input: CollectionInput) => void;
+  onClose: () => void;
+}
+
+export function CollectionDialog({ target, isSaving, onSave, onClose }: CollectionDialogProps) {
+  const [form, setForm] = useState<CollectionInput>(emptyForm);
+
+  useEffect(() => {
+    if (target) {
+      setForm(target === 'new' ? emptyForm : { name: target.name, description: target.description, isPublic: target.isPublic });
+    }
+  }, [target]);
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    if (name) onSave({ ...form, name, description: form.description.trim() });
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => {
+      if (!open) onClose();
+    }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{target === 'new' ? 'New Collection' : 'Edit Collection'}</DialogTitle>
+          <DialogDescription>
+            Group launches you like. Public collections get their own page you can share.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input
+              id="collection-name"
+              value={form.name}
+              onChange={(event) => setForm({ ...form, name: event.target.value })}
+              maxLength={60}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea
+              id="collection-description"
+              value={form.description}
+              onChange={(event) => setForm({ ...form, description: event.target.value })}
+              maxLength={280}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="collection-public">Public</Label>
+            <Switch
+              id="collection-public"
+              checked={form.isPublic}
+              onCheckedChange={(isPublic) => setForm({ ...form, isPublic })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { CollectionCard } from '@/components/collections/CollectionCard';
+import { CollectionDialog } from '@/components/collections/CollectionDialog';
+import { getRepository } from '@/lib/data/repository';
+import { getLaunchesByIds } from '@/lib/data/launches';
+import { MAX_COLLECTION_LAUNCHES } from '@/lib/data/collections';
+import { useBookmarks } from '@/lib/hooks/useBookmarks';
+import { CollectionInput, LaunchCollection } from '@/lib/types';
+import { Launch } from '@/lib/types/launch';
+import { useToast } from '@/hooks/use-toast';
+
+interface SavedLaunchesProps {
+  userId: string;
+  // Needed for links to public collections
+  username?: string;
+}
+
+// The "Saved" tab of the profile page: bookmarked launches and the user's collections
+export function SavedLaunches({ userId, username }: SavedLaunchesProps) {
+  const { toast } = useToast();
+  const bookmarks = useBookmarks(userId);
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [isLoadingLaunches, setIsLoadingLaunches] = useState(true);
+  const [collections, setCollections] = useState<LaunchCollection[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editTarget, setEditTarget] = useState<LaunchCollection | 'new' | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<LaunchCollection | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    getLaunchesByIds(bookmarks)
+      .then(loaded => {
+        if (!isCancelled) setLaunches(loaded);
+      })
+      .catch(error => {
+        console.error('Error fetching saved launches:', error);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoadingLaunches(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [bookmarks]);
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      setCollections(await getRepository().collections.listByOwner(userId));
+    } catch (error) {
+      console.error('Error fetching collections:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchCollections();
+  }, [fetchCollections]);
+
+  // Runs a write, reloads the collections and reports failures
+  const save = async (write: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await write();
+      await fetchCollections();
+      return true;
+    } catch (error) {
+      console.error('Error saving collection:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message.startsWith('Collections') ? error.message : failure,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (input: CollectionInput) => {
+    if (!editTarget) return;
+    const { collections: repository } = getRepository();
+
+    const saved = await save(
+      () => editTarget === 'new' ? repository.create(userId, input) : repository.update(editTarget.id, input),
+      'Failed to save collection'
+    );
+    if (saved) setEditTarget(null);
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = collections.map(collection => collection.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    save(() => getRepository().collections.reorder(userId, ids), 'Failed to reorder collections');
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!pendingDelete) return;
+    const deleted = await save(() => getRepository().collections.remove(pendingDelete.id), 'Failed to delete collection');
+    if (deleted) setPendingDelete(null);
+  };
+
+  const setLaunchIds = (collection: LaunchCollection, launchIds: string[]) =>
+    save(() => getRepository().collections.setLaunches(collection.id, launchIds), 'Failed to update collection');
+
+  const handleAddToCollection = (collectionId: string, launchId: string) => {
+    const collection = collections.find(current => current.id === collectionId);
+    if (!collection || collection.launchIds.includes(launchId)) return;
+    setLaunchIds(collection, [...collection.launchIds, launchId]);
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Launches</CardTitle>
+          <CardDescription>Launches you bookmarked, most recent first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingLaunches ? (
+            <div className="text-center py-8">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : launches.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground mb-4">
+                You haven't saved any launches yet. Use the bookmark button on a launch to save it.
+              </p>
+              <Button asChild>
+                <Link to="/">Browse this week's launches</Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {launches.map(launch => (
+                <div key={launch.id} className="space-y-2">
+                  <LaunchListItem launch={launch} />
+                  {collections.length > 0 && (
+                    <div className="flex justify-end">
+                      <Select value="" onValueChange={(collectionId) => handleAddToCollection(collectionId, launch.id)}>
+                        <SelectTrigger className="w-full sm:w-56" disabled={isSaving}>
+                          <SelectValue placeholder="Add to collection" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {collections.map(collection => (
+                            <SelectItem
+                              key={collection.id}
+                              value={collection.id}
+                              disabled={collection.launchIds.includes(launch.id) || collection.launchIds.length >= MAX_COLLECTION_LAUNCHES}
+                            >
+                              {collection.name}
+                              {collection.launchIds.includes(launch.id) && ' ✓'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle>Collections</CardTitle>
+            <CardDescription>
+              Named lists of up to {MAX_COLLECTION_LAUNCHES} launches. Public collections can be shared.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setEditTarget('new')}>
+            <Plus className="h-4 w-4 mr-1" /> New
+          </Button>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {collections.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No collections yet.</p>
+          ) : collections.map((collection, index) => (
+            <CollectionCard
+              key={collection.id}
+              collection={collection}
+              username={username}
+              isFirst={index === 0}
+              isLast={index === collections.length - 1}
+              isSaving={isSaving}
+              onMove={(offset) => handleMove(index, offset)}
+              onEdit={() => setEditTarget(collection)}
+              onDelete={() => setPendingDelete(collection)}
+              onSetLaunches={(launchIds) => setLaunchIds(collection, launchIds)}
+            />
+          ))}
+        </CardContent>
+      </Card>
+
+      <CollectionDialog
+        target={editTarget}
+        isSaving={isSaving}
+        onSave={handleSave}
+        onClose={() => setEditTarget(null)}
+      />
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => {
+        if (!open) setPendingDelete(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {pendingDelete?.name}</DialogTitle>
+            <DialogDescription>
+              The collection and its page are removed. The launches in it stay saved.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
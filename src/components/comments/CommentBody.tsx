@@ -0,0 +1,69 @@
+import { BlockNode, InlineNode, parseMarkdownLite } from '@/lib/utils/markdown-lite';
+
+function Inline({ nodes }: { nodes: InlineNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return node.text;
+          case 'code':
+            return (
+              <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+                {node.text}
+              </code>
+            );
+          case 'strong':
+            return <strong key={index}><Inline nodes={node.children} /></strong>;
+          case 'em':
+            return <em key={index}><Inline nodes={node.children} /></em>;
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="nofollow ugc noopener noreferrer"
+                className="text-primary hover:underline break-words"
+              >
+                <Inline nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Block({ block }: { block: BlockNode }) {
+  if (block.type === 'list') {
+    return (
+      <ul className="list-disc pl-5 space-y-1">
+        {block.items.map((item, index) => (
+          <li key={index}><Inline nodes={item} /></li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <p>
+      {block.lines.map((line, index) => (
+        <span key={index}>
+          {index > 0 && <br />}
+          <Inline nodes={line} />
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function CommentBody({ source }: { source: string }) {
+  return (
+    <div className="space-y-2 text-sm break-words">
+      {parseMarkdownLite(source).map((block, index) => (
+        <Block key={index} block={block} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MAX_COMMENT_LENGTH } from '@/lib/data/comments';
+
+interface CommentFormProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  // Resolves once saved; the form clears itself on success
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+export function CommentForm({ initialValue = '', placeholder, submitLabel, onSubmit, onCancel, autoFocus }: CommentFormProps) {
+  const [body, setBody] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isTooLong = body.length > MAX_COMMENT_LENGTH;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!body.trim() || isTooLong) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch {
+      // The caller reports the failure; keep the text so nothing is lost
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) handleSubmit(event);
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={3}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className={`text-xs ${isTooLong ? 'text-destructive' : 'text-muted-foreground'}`}>
+          **bold**, *italic*, `code`, [links](https://…) and "- " lists
+          {body.length > MAX_COMMENT_LENGTH * 0.8 && ` · ${body.length}/${MAX_COMMENT_LENGTH}`}
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={isSubmitting || !body.trim() || isTooLong}>
+            {isSubmitting ? 'Saving...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronUp } from 'lucide-react';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CommentBody } from '@/components/comments/CommentBody';
+import { CommentForm } from '@/components/comments/CommentForm';
+import { CommentThread } from '@/lib/data/comments';
+import { LaunchComment } from '@/lib/types/comment';
+import { formatRelativeTime } from '@/lib/utils/relative-time';
+import { getProfilePath } from '@/lib/utils/paths';
+
+// Deeper replies stop indenting so threads stay readable on phones
+const MAX_INDENT_DEPTH = 4;
+
+export interface CommentActions {
+  userId?: string;
+  isAdmin: boolean;
+  upvotedIds: ReadonlySet<string>;
+  onReply: (parent: LaunchComment, body: string) => Promise<void>;
+  onEdit: (comment: LaunchComment, body: string) => Promise<void>;
+  onDelete: (comment: LaunchComment) => void;
+  onUpvote: (comment: LaunchComment) => void;
+}
+
+interface CommentItemProps {
+  thread: CommentThread;
+  actions: CommentActions;
+  depth?: number;
+}
+
+export function CommentItem({ thread, actions, depth = 0 }: CommentItemProps) {
+  const { comment, replies } = thread;
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+  const isAuthor = actions.userId === comment.authorId;
+  const canModerate = !comment.deleted && (isAuthor || actions.isAdmin);
+  const hasUpvoted = actions.upvotedIds.has(comment.id);
+
+  return (
+    <div className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'pl-4 sm:pl-6 border-l' : ''}>
+      <div id={`comment-${comment.id}`} className="flex gap-3 py-3">
+        <Avatar className="h-8 w-8 flex-shrink-0">
+          {comment.authorAvatarUrl && !comment.deleted && (
+            <AvatarImage src={comment.authorAvatarUrl} alt={comment.authorName} />
+          )}
+          <AvatarFallback>{comment.deleted ? '?' : comment.authorName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+            {comment.deleted ? (
+              <span className="text-muted-foreground">[deleted]</span>
+            ) : (
+              <>
+                {comment.authorUsername ? (
+                  <Link to={getProfilePath(comment.authorUsername)} className="font-medium hover:underline">
+                    {comment.authorName}
+                  </Link>
+                ) : (
+                  <span className="font-medium">{comment.authorName}</span>
+                )}
+                {comment.byMaker && <Badge variant="secondary">Maker</Badge>}
+              </>
+            )}
+            <span className="text-xs text-muted-foreground" title={comment.createdAt.toLocaleString()}>
+              {formatRelativeTime(comment.createdAt)}
+              {comment.editedAt && !comment.deleted && ' · edited'}
+            </span>
+          </div>
+
+          {mode === 'edit' ? (
+            <CommentForm
+              initialValue={comment.body}
+              submitLabel="Save"
+              onSubmit={async body => {
+                await actions.onEdit(comment, body);
+                setMode('view');
+              }}
+              onCancel={() => setMode('view')}
+              autoFocus
+            />
+          ) : comment.deleted ? (
+            <p className="text-sm text-muted-foreground italic">This comment was deleted.</p>
+          ) : (
+            <CommentBody source={comment.body} />
+          )}
+
+          {!comment.deleted && mode !== 'edit' && (
+            <div className="flex items-center gap-1 -ml-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`h-7 px-2 ${hasUpvoted ? 'text-primary' : 'text-muted-foreground'}`}
+                onClick={() => actions.onUpvote(comment)}
+                aria-pressed={hasUpvoted}
+              >
+                <ChevronUp className="h-4 w-4 mr-0.5" /> {comment.upvotes}
+              </Button>
+              {actions.userId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-muted-foreground"
+                  onClick={() => setMode(mode === 'reply' ? 'view' : 'reply')}
+                >
+                  Reply
+                </Button>
+              )}
+              {canModerate && (
+                <>
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-muted-foreground" onClick={() => setMode('edit')}>
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-muted-foreground" onClick={() => actions.onDelete(comment)}>
+                    Delete
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {mode === 'reply' && (
+            <CommentForm
+              placeholder={`Reply to ${comment.authorName}`}
+              submitLabel="Reply"
+              onSubmit={async body => {
+                await actions.onReply(comment, body);
+                setMode('view');
+              }}
+              onCancel={() => setMode('view')}
+              autoFocus
+            />
+          )}
+        </div>
+      </div>
+
+      {replies.map(reply => (
+        <CommentItem key={reply.comment.id} thread={reply} actions={actions} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
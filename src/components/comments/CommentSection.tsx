@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { CommentActions, CommentItem } from '@/components/comments/CommentItem';
+import { CommentForm } from '@/components/comments/CommentForm';
+import { deleteComment, editComment, postComment, toggleCommentUpvote } from '@/lib/data/comments';
+import { useComments } from '@/lib/hooks/useComments';
+import { LaunchComment } from '@/lib/types/comment';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+
+interface CommentSectionProps {
+  launchId: string;
+}
+
+export function CommentSection({ launchId }: CommentSectionProps) {
+  const { user } = useAuthContext();
+  const { toast } = useToast();
+  const { threads, count, upvotedIds, isAdmin, isLoading, error } = useComments(launchId, user?.uid);
+  const [pendingDelete, setPendingDelete] = useState<LaunchComment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { hash } = useLocation();
+
+  // Links from notifications point at a comment, which only exists once the comments load
+  useEffect(() => {
+    if (isLoading || !hash.startsWith('#comment-')) return;
+    document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [isLoading, hash]);
+
+  // Reports a failed write and rethrows so forms keep what was typed
+  const report = (action: string) => (error: unknown) => {
+    console.error(`Error trying to ${action}:`, error);
+    toast({
+      title: 'Error',
+      description: error instanceof Error && error.message.startsWith('Comment') ? error.message : `Failed to ${action}. Please try again.`,
+      variant: 'destructive',
+    });
+    throw error;
+  };
+
+  const post = async (parentId: string | null, body: string) => {
+    if (!user) return;
+    await postComment(launchId, parentId, body, user.uid).catch(report('post your comment'));
+  };
+
+  const actions: CommentActions = {
+    userId: user?.uid,
+    isAdmin,
+    upvotedIds,
+    onReply: (parent, body) => post(parent.id, body),
+    onEdit: (comment, body) => editComment(comment, body).catch(report('save your comment')),
+    onDelete: setPendingDelete,
+    onUpvote: (comment) => {
+      if (!user) {
+        toast({
+          title: 'Authentication required',
+          description: 'Please sign in to upvote comments',
+        });
+        return;
+      }
+      toggleCommentUpvote(comment, user.uid).catch(error => {
+        console.error('Error updating comment upvote:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to update upvote. Please try again.',
+          variant: 'destructive',
+        });
+      });
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteComment(pendingDelete);
+      setPendingDelete(null);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete comment. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Discussion{count > 0 && ` (${count})`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {user ? (
+            <CommentForm
+              placeholder="What do you think of this launch?"
+              submitLabel="Comment"
+              onSubmit={body => post(null, body)}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              <Link to="/login" className="text-primary hover:underline font-medium">Sign in</Link> to join the discussion.
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="py-6 text-center">
+              <div className="animate-pulse text-primary">Loading comments...</div>
+            </div>
+          ) : error ? (
+            <p className="py-6 text-center text-sm text-destructive">{error}</p>
+          ) : threads.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No comments yet. Start the conversation!</p>
+          ) : (
+            <div className="divide-y">
+              {threads.map(thread => (
+                <CommentItem key={thread.comment.id} thread={thread} actions={actions} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => {
+        if (!open) setPendingDelete(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete comment</DialogTitle>
+            <DialogDescription>
+              The comment will be removed. If it has replies, they stay and the comment is shown as deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={isDeleting}>
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { isValidEmail, subscribeToDigest } from '@/lib/data/digest';
+
+// Email field for subscribing to the weekly digest
+export function DigestSignup() {
+  const [email, setEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!isValidEmail(email)) {
+      setError('Enter a valid email address');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const isNew = await subscribeToDigest(email);
+      setMessage(isNew
+        ? 'Almost done: follow the link in the email we just sent to confirm your subscription.'
+        : 'This address is already subscribed. If you have not confirmed it yet, check your inbox, or subscribe again tomorrow for a new link.');
+      setEmail('');
+    } catch (err) {
+      console.error('Error subscribing to the digest:', err);
+      setError('Failed to subscribe. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (message) {
+    return (
+      <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <CheckCircle className="h-4 w-4 text-green-500" />
+        {message}
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-md mx-auto space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          placeholder="name@example.com"
+          aria-label="Email address"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Subscribing...' : 'Subscribe'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,25 @@
+import { Bookmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useBookmark } from '@/lib/hooks/useBookmark';
+
+interface BookmarkButtonProps {
+  launchId: string;
+}
+
+export function BookmarkButton({ launchId }: BookmarkButtonProps) {
+  const { isBookmarked, isSaving, handleBookmark } = useBookmark(launchId);
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className={`flex-1 sm:flex-none ${isBookmarked ? 'bg-primary/10' : ''}`}
+      onClick={handleBookmark}
+      disabled={isSaving}
+      aria-pressed={isBookmarked}
+      aria-label={isBookmarked ? 'Remove from saved' : 'Save for later'}
+    >
+      <Bookmark className={`h-4 w-4 ${isBookmarked ? 'fill-current' : ''}`} />
+    </Button>
+  );
+}
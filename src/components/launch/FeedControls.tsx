@@ -0,0 +1,75 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Category } from '@/lib/types';
+import { FeedListing, FeedSort, FeedView, defaultFeedView, feedListings, feedSorts } from '@/lib/data/feed';
+
+const ALL_CATEGORIES = 'all';
+
+interface FeedControlsProps {
+  view: FeedView;
+  categories: Category[];
+  onChange: (view: FeedView) => void;
+}
+
+export function FeedControls({ view, categories, onChange }: FeedControlsProps) {
+  const isDefault = view.sort === defaultFeedView.sort && view.listing === defaultFeedView.listing && !view.category;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 mb-8">
+      <div className="sm:w-44">
+        <Select value={view.sort} onValueChange={value => onChange({ ...view, sort: value as FeedSort })}>
+          <SelectTrigger aria-label="Sort launches">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {feedSorts.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="sm:w-44">
+        <Select
+          value={view.category || ALL_CATEGORIES}
+          onValueChange={value => onChange({ ...view, category: value === ALL_CATEGORIES ? undefined : value })}
+        >
+          <SelectTrigger aria-label="Filter by category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+            {categories.filter(category => !category.mergedInto).map(category => (
+              <SelectItem key={category.id} value={category.slug}>
+                {category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="sm:w-44">
+        <Select value={view.listing} onValueChange={value => onChange({ ...view, listing: value as FeedListing })}>
+          <SelectTrigger aria-label="Filter by listing type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {feedListings.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!isDefault && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(defaultFeedView)}>
+          Reset
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { getFollowingFeed } from '@/lib/data/follows';
+import { useFollowing } from '@/lib/hooks/useFollowing';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { Launch } from '@/lib/types/launch';
+
+// The "Following" tab of the launch page: recent launches by the makers the user follows
+export function FollowingFeed() {
+  const { user } = useAuthContext();
+  const { following, isLoading: isLoadingFollowing } = useFollowing(user?.uid);
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Keyed on the sorted ids, so only a change of makers refetches, not a new list of the same ones
+  const followeeKey = [...following].sort().join(',');
+
+  useEffect(() => {
+    if (isLoadingFollowing) return;
+    let isCancelled = false;
+
+    getFollowingFeed(followeeKey ? followeeKey.split(',') : [])
+      .then(loaded => {
+        if (!isCancelled) setLaunches(loaded);
+      })
+      .catch(error => {
+        console.error('Error fetching following feed:', error);
+        if (!isCancelled) setLaunches([]);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isLoadingFollowing, followeeKey]);
+
+  if (!user) {
+    return (
+      <p className="text-center text-muted-foreground py-16">
+        <Link to="/login" className="text-primary hover:underline font-medium">Sign in</Link> to see launches from makers you follow
+      </p>
+    );
+  }
+
+  if (isLoadingFollowing || isLoading) {
+    return (
+      <div className="py-16 text-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (following.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-16">
+        Follow makers from their profile to see their launches here
+      </p>
+    );
+  }
+
+  if (launches.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-16">
+        The makers you follow haven't launched anything yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 mb-16">
+      {launches.map(launch => (
+        <LaunchListItem key={launch.id} launch={launch} />
+      ))}
+    </div>
+  );
+}
@@ -2,26 +2,25 @@ import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { TagChips } from '@/components/tags/TagChips';
+import { BookmarkButton } from '@/components/launch/BookmarkButton';
 import { ExternalLink, Share2, ChevronUp } from 'lucide-react';
 import { Launch } from '@/lib/types/launch';
 import { shareUrl } from '@/lib/utils/share';
-import { memo, useState } from 'react';
-import { useAuthContext } from '@/providers/AuthProvider';
-import { useNavigate } from 'react-router-dom';
-import { toggleUpvote } from '@/lib/data/launches';
-import { useToast } from '@/hooks/use-toast';
+import { getLaunchPath, getStartupPath } from '@/lib/utils/paths';
+import { memo } from 'react';
+import { useUpvote } from '@/lib/hooks/useUpvote';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { findCategoryById } from '@/lib/data/categories';
 
 interface LaunchListItemProps {
   launch: Launch;
 }
 
 export const LaunchListItem = memo(function LaunchListItem({ launch }: LaunchListItemProps) {
-  const { user } = useAuthContext();
-  const navigate = useNavigate();
-  const { toast } = useToast();
-  const [isUpvoting, setIsUpvoting] = useState(false);
-  const [upvotes, setUpvotes] = useState(launch.upvotes || 0);
-  const [hasUpvoted, setHasUpvoted] = useState(launch.upvotedBy?.includes(user?.uid || '') || false);
+  const { upvotes, hasUpvoted, isUpvoting, handleUpvote } = useUpvote(launch);
+  const { categories } = useCategories();
+  const categoryName = findCategoryById(categories, launch.category)?.name || 'New Launch';
 
   const getLinkProps = () => {
     return launch.listingType === 'premium' || launch.listingType === 'boosted' || launch.doFollowBacklink 
@@ -44,47 +43,12 @@ export const LaunchListItem = memo(function LaunchListItem({ launch }: LaunchLis
     const shareData = {
       title: `Check out ${launch.name} on startups.ad`,
       text: launch.description,
-      url: `https://startups.ad/launch/${launch.id}`
+      url: `https://startups.ad${getLaunchPath(launch.slug)}`
     };
 
     await shareUrl(shareData);
   };
 
-  const handleUpvote = async () => {
-    if (!user) {
-      toast({
-        title: "Authentication required",
-        description: "Please sign in to upvote startups",
-      });
-      navigate('/login');
-      return;
-    }
-
-    if (isUpvoting) return;
-
-    try {
-      setIsUpvoting(true);
-      await toggleUpvote(launch.id, user.uid);
-      
-      if (hasUpvoted) {
-        setUpvotes(prev => prev - 1);
-        setHasUpvoted(false);
-      } else {
-        setUpvotes(prev => prev + 1);
-        setHasUpvoted(true);
-      }
-    } catch (error) {
-      console.error('Error updating upvote:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update upvote. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsUpvoting(false);
-    }
-  };
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -115,7 +79,11 @@ export const LaunchListItem = memo(function LaunchListItem({ launch }: LaunchLis
         />
         <div className="flex-1 min-w-0">
           <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-2 sm:mb-0">
-            <h3 className="font-semibold truncate">{launch.name}</h3>
+            <h3 className="font-semibold truncate">
+              <Link to={getStartupPath(launch.slug)} className="hover:underline">
+                {launch.name}
+              </Link>
+            </h3>
             <Badge 
               variant={getBadgeVariant()} 
               className={`w-fit ${
@@ -126,10 +94,11 @@ export const LaunchListItem = memo(function LaunchListItem({ launch }: LaunchLis
                     : ''
               }`}
             >
-              {launch.listingType === 'premium' ? 'Premium' : launch.listingType === 'boosted' ? 'Boosted' : launch.category}
+              {launch.listingType === 'premium' ? 'Premium' : launch.listingType === 'boosted' ? 'Boosted' : categoryName}
             </Badge>
           </div>
           <p className="text-muted-foreground text-sm line-clamp-2 sm:line-clamp-1">{launch.description}</p>
+          <TagChips tags={launch.tags} className="mt-2" />
         </div>
       </div>
       <div className="flex gap-2 w-full sm:w-auto">
@@ -151,6 +120,7 @@ export const LaunchListItem = memo(function LaunchListItem({ launch }: LaunchLis
         >
           <Share2 className="h-4 w-4" />
         </Button>
+        <BookmarkButton launchId={launch.id} />
         <Button 
           size="sm" 
           className={`flex-1 sm:flex-none ${
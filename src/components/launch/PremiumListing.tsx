@@ -1,21 +1,28 @@
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ExternalLink, Share2 } from 'lucide-react';
+import { TagChips } from '@/components/tags/TagChips';
+import { BookmarkButton } from '@/components/launch/BookmarkButton';
+import { ExternalLink, Share2, ChevronUp } from 'lucide-react';
 import { Launch } from '@/lib/types/launch';
 import { shareUrl } from '@/lib/utils/share';
+import { getLaunchPath, getStartupPath } from '@/lib/utils/paths';
+import { useUpvote } from '@/lib/hooks/useUpvote';
 
 interface PremiumListingProps {
   launch: Launch;
 }
 
 export function PremiumListing({ launch }: PremiumListingProps) {
+  const { upvotes, hasUpvoted, isUpvoting, handleUpvote } = useUpvote(launch);
+
   const handleShare = async () => {
     const shareData = {
       title: `Check out ${launch.name} on startups.ad`,
       text: launch.description,
-      url: `https://startups.ad/launch/${launch.id}`
+      url: `https://startups.ad${getLaunchPath(launch.slug)}`
     };
     await shareUrl(shareData);
   };
@@ -52,7 +59,9 @@ export function PremiumListing({ launch }: PremiumListingProps) {
                 className="text-lg sm:text-xl font-semibold"
                 whileHover={{ scale: 1.02 }}
               >
-                {launch.name}
+                <Link to={getStartupPath(launch.slug)} className="hover:underline">
+                  {launch.name}
+                </Link>
               </motion.h3>
               <motion.div
                 whileHover={{ scale: 1.05 }}
@@ -67,8 +76,19 @@ export function PremiumListing({ launch }: PremiumListingProps) {
               </motion.div>
             </div>
             <p className="text-muted-foreground text-sm sm:text-base">{launch.description}</p>
+            <TagChips tags={launch.tags} />
           </div>
           <div className="flex gap-2 w-full sm:w-auto">
+            <Button 
+              size="sm" 
+              variant="outline"
+              className={`flex-1 sm:flex-none ${hasUpvoted ? 'bg-primary/10' : ''}`}
+              onClick={handleUpvote}
+              disabled={isUpvoting}
+            >
+              <ChevronUp className="h-4 w-4 mr-1" />
+              <span>{upvotes}</span>
+            </Button>
             <Button 
               size="sm" 
               variant="outline"
@@ -77,6 +97,7 @@ export function PremiumListing({ launch }: PremiumListingProps) {
             >
               <Share2 className="h-4 w-4" />
             </Button>
+            <BookmarkButton launchId={launch.id} />
             <motion.div
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -0,0 +1,33 @@
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { Launch } from '@/lib/types/launch';
+
+interface WeeklyWinnersProps {
+  winners: Launch[];
+}
+
+export function WeeklyWinners({ winners }: WeeklyWinnersProps) {
+  return (
+    <div className="space-y-4">
+      {winners.slice(0, 3).map((launch, index) => (
+        <div key={launch.id} className="relative">
+          {index === 0 && (
+            <div className="absolute -top-4 left-4 bg-yellow-500 text-white px-3 py-1 rounded-full text-sm font-bold">
+              🥇 1st Place
+            </div>
+          )}
+          {index === 1 && (
+            <div className="absolute -top-4 left-4 bg-gray-400 text-white px-3 py-1 rounded-full text-sm font-bold">
+              🥈 2nd Place
+            </div>
+          )}
+          {index === 2 && (
+            <div className="absolute -top-4 left-4 bg-amber-700 text-white px-3 py-1 rounded-full text-sm font-bold">
+              🥉 3rd Place
+            </div>
+          )}
+          <LaunchListItem launch={launch} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { describeNotification, getNotificationLink, markNotificationsRead } from '@/lib/data/notifications';
+import { useNotifications } from '@/lib/hooks/useNotifications';
+import { AppNotification } from '@/lib/types/notification';
+import { formatRelativeTime } from '@/lib/utils/relative-time';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+// Bell menu in the navbar with the user's latest notifications
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const { notifications, unreadCount } = useNotifications(userId);
+  const [isOpen, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Clicking anywhere else or pressing Escape closes the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const markRead = (targets: AppNotification[]) => {
+    markNotificationsRead(userId, targets).catch(error => {
+      console.error('Error marking notifications as read:', error);
+    });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        aria-label={unreadCount ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        aria-expanded={isOpen}
+        onClick={() => setOpen(open => !open)}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-medium flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-lg border bg-background shadow-lg z-50"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b">
+              <span className="font-medium">Notifications</span>
+              {unreadCount > 0 && (
+                <button
+                  className="text-xs text-primary hover:underline"
+                  onClick={() => markRead(notifications)}
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+                You're all caught up
+              </p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y">
+                {notifications.map(notification => {
+                  const link = getNotificationLink(notification);
+                  const content = (
+                    <>
+                      <span
+                        className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.read ? 'bg-transparent' : 'bg-primary'}`}
+                        aria-hidden="true"
+                      />
+                      <span className="min-w-0">
+                        <span className={`block text-sm ${notification.read ? 'text-muted-foreground' : ''}`}>
+                          {describeNotification(notification)}
+                        </span>
+                        <span className="block text-xs text-muted-foreground">
+                          {formatRelativeTime(notification.createdAt)}
+                        </span>
+                      </span>
+                    </>
+                  );
+
+                  return (
+                    <li key={notification.id}>
+                      {link ? (
+                        <Link
+                          to={link}
+                          className="flex gap-3 px-4 py-3 hover:bg-accent/80 transition-colors"
+                          onClick={() => {
+                            markRead([notification]);
+                            setOpen(false);
+                          }}
+                        >
+                          {content}
+                        </Link>
+                      ) : (
+                        <div className="flex gap-3 px-4 py-3">{content}</div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
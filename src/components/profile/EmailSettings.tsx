@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { getRepository } from '@/lib/data/repository';
+import { emailCategories, isOptedOut } from '@/lib/email/templates';
+import { EmailCategory, EmailPreferences } from '@/lib/types';
+
+interface EmailSettingsProps {
+  userId: string;
+  preferences: EmailPreferences | undefined;
+}
+
+// Per-category email opt-outs, saved as soon as a switch is flipped
+export function EmailSettings({ userId, preferences: initialPreferences }: EmailSettingsProps) {
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<EmailPreferences>(initialPreferences || {});
+  const [savingCategory, setSavingCategory] = useState<EmailCategory | null>(null);
+
+  const handleChange = async (category: EmailCategory, enabled: boolean) => {
+    const previous = preferences;
+    const next = { ...preferences, [category]: enabled };
+    setPreferences(next);
+    setSavingCategory(category);
+
+    try {
+      await getRepository().users.save(userId, { emailPreferences: next, updatedAt: new Date() });
+    } catch (error) {
+      console.error('Error saving email preferences:', error);
+      setPreferences(previous);
+      toast({
+        title: 'Error',
+        description: 'Failed to save email settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingCategory(null);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Email</CardTitle>
+        <CardDescription>Choose which emails we send you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {emailCategories.map(category => (
+          <div key={category.id} className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor={`email-${category.id}`}>{category.label}</Label>
+              <p className="text-xs text-muted-foreground">
+                {category.description}
+                {!category.optional && ' (always sent)'}
+              </p>
+            </div>
+            <Switch
+              id={`email-${category.id}`}
+              checked={!isOptedOut(preferences, category.id)}
+              onCheckedChange={(enabled) => handleChange(category.id, enabled)}
+              disabled={!category.optional || savingCategory !== null}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
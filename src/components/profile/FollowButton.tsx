@@ -0,0 +1,25 @@
+import { UserCheck, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFollow } from '@/lib/hooks/useFollow';
+
+interface FollowButtonProps {
+  userId: string;
+  // Called with the new state once the follow is stored
+  onChange?: (isFollowing: boolean) => void;
+}
+
+export function FollowButton({ userId, onChange }: FollowButtonProps) {
+  const { isFollowing, isSaving, handleFollow } = useFollow(userId, onChange);
+
+  return (
+    <Button
+      variant={isFollowing ? 'outline' : 'default'}
+      onClick={handleFollow}
+      disabled={isSaving}
+      aria-pressed={isFollowing}
+    >
+      {isFollowing ? <UserCheck className="h-4 w-4 mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+      {isFollowing ? 'Following' : 'Follow'}
+    </Button>
+  );
+}
@@ -0,0 +1,22 @@
+import { splitHighlights } from '@/lib/utils/search-index';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+export function Highlight({ text, terms }: HighlightProps) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { useLaunchSearch } from '@/lib/hooks/useLaunchSearch';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { findCategoryById } from '@/lib/data/categories';
+import { getStartupPath } from '@/lib/utils/paths';
+import { SearchResult } from './SearchResult';
+
+const MAX_RESULTS = 8;
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SearchPalette({ open, onOpenChange }: SearchPaletteProps) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [hasOpened, setHasOpened] = useState(false);
+  const { categories } = useCategories();
+  // The index is loaded the first time the palette opens and kept afterwards
+  const { results, isLoading, error } = useLaunchSearch(query, { enabled: hasOpened, limit: MAX_RESULTS });
+
+  useEffect(() => {
+    if (open) {
+      setHasOpened(true);
+      setQuery('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  const showAllResults = () => go(`/search?q=${encodeURIComponent(query.trim())}`);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (results[activeIndex]) {
+          go(getStartupPath(results[activeIndex].item.slug));
+        } else if (query.trim()) {
+          showAllResults();
+        }
+        break;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="p-0 gap-0 max-w-xl overflow-hidden">
+        <DialogTitle className="sr-only">Search launches</DialogTitle>
+        <div className="flex items-center gap-2 border-b px-4">
+          <Search className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search launches..."
+            className="h-12 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            aria-label="Search launches"
+          />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto p-2" role="listbox">
+          {!query.trim() ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Search by name, description or category
+            </p>
+          ) : error ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">{error}</p>
+          ) : isLoading ? (
+            <div className="py-6 text-center">
+              <div className="animate-pulse text-primary text-sm">Loading...</div>
+            </div>
+          ) : results.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No launches match "{query.trim()}"
+            </p>
+          ) : (
+            results.map((match, index) => (
+              <button
+                key={match.item.id}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`w-full text-left rounded-md px-3 py-2 ${index === activeIndex ? 'bg-accent' : ''}`}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => go(getStartupPath(match.item.slug))}
+              >
+                <SearchResult
+                  match={match}
+                  categoryName={findCategoryById(categories, match.item.category)?.name}
+                />
+              </button>
+            ))
+          )}
+        </div>
+
+        {query.trim() && results.length > 0 && (
+          <button
+            type="button"
+            className="border-t px-4 py-3 text-left text-sm text-primary hover:bg-accent/50"
+            onClick={showAllResults}
+          >
+            See all results for "{query.trim()}"
+          </button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { ChevronUp } from 'lucide-react';
+import { Launch } from '@/lib/types/launch';
+import { SearchMatch } from '@/lib/utils/search-index';
+import { Highlight } from './Highlight';
+
+interface SearchResultProps {
+  match: SearchMatch<Launch>;
+  categoryName?: string;
+}
+
+export function SearchResult({ match, categoryName }: SearchResultProps) {
+  const { item: launch, terms } = match;
+
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      <img
+        src={launch.logo}
+        alt={launch.name}
+        className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+        loading="lazy"
+        decoding="async"
+        width="40"
+        height="40"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">
+          <Highlight text={launch.name} terms={terms} />
+          {categoryName && (
+            <span className="ml-2 text-xs text-muted-foreground">
+              <Highlight text={categoryName} terms={terms} />
+            </span>
+          )}
+        </p>
+        <p className="text-sm text-muted-foreground line-clamp-1">
+          <Highlight text={launch.description} terms={terms} />
+        </p>
+      </div>
+      <span className="flex items-center text-sm text-muted-foreground flex-shrink-0">
+        <ChevronUp className="h-4 w-4" />
+        {launch.upvotes || 0}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { getTagPath } from '@/lib/utils/paths';
+
+interface TagChipsProps {
+  tags: string[];
+  // Tags beyond the limit are summarised as "+N"
+  limit?: number;
+  className?: string;
+}
+
+export function TagChips({ tags, limit = 3, className = '' }: TagChipsProps) {
+  if (tags.length === 0) return null;
+
+  const shown = tags.slice(0, limit);
+  const hidden = tags.length - shown.length;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+      {shown.map(tag => (
+        <Link key={tag} to={getTagPath(tag)}>
+          <Badge variant="outline" className="font-normal text-muted-foreground hover:text-foreground">
+            #{tag}
+          </Badge>
+        </Link>
+      ))}
+      {hidden > 0 && <span className="text-xs text-muted-foreground">+{hidden}</span>}
+    </div>
+  );
+}
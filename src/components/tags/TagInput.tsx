@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { TagUsage } from '@/lib/data/tags';
+import { MAX_TAGS, normalizeTag } from '@/lib/utils/tags';
+
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: TagUsage[];
+}
+
+// Free-form tag entry: Enter or comma adds the typed tag, Backspace on an empty
+// field removes the last one, and known tags are offered as the maker types
+export function TagInput({ id, value, onChange, suggestions }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const isFull = value.length >= MAX_TAGS;
+
+  const matches = useMemo(() => {
+    const typed = normalizeTag(draft);
+    if (!typed) return [];
+    return suggestions
+      .filter(suggestion => suggestion.tag.includes(typed) && !value.includes(suggestion.tag))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [draft, suggestions, value]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft('');
+    setActiveIndex(0);
+    if (tag && !value.includes(tag) && !isFull) onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter(current => current !== tag));
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTag(matches[activeIndex]?.tag ?? draft);
+    } else if (event.key === 'Backspace' && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (event.key === 'ArrowDown' && matches.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % matches.length);
+    } else if (event.key === 'ArrowUp' && matches.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + matches.length) % matches.length);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-sm opacity-70 hover:opacity-100"
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id={id}
+          value={draft}
+          onChange={event => {
+            setDraft(event.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(draft)}
+          placeholder={isFull ? `Up to ${MAX_TAGS} tags` : 'e.g. ai, open-source'}
+          disabled={isFull}
+          autoComplete="off"
+        />
+
+        {matches.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md" role="listbox">
+            {matches.map((suggestion, index) => (
+              <li
+                key={suggestion.tag}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Runs before the input's blur so the suggestion, not the draft, is added
+                onMouseDown={event => {
+                  event.preventDefault();
+                  addTag(suggestion.tag);
+                }}
+                className={`flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5 text-sm ${
+                  index === activeIndex ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                <span>#{suggestion.tag}</span>
+                <span className="text-xs text-muted-foreground">{suggestion.count}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
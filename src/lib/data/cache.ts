@@ -0,0 +1,195 @@
+// Stale-while-revalidate cache shared by the data layer. Entries live in memory
+// and are mirrored to IndexedDB so they survive reloads; when IndexedDB is not
+// available (private browsing, prerendering) the cache is memory-only.
+
+const DB_NAME = 'startups-ad-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  timestamp: number;
+}
+
+export interface CacheStats {
+  hits: number; // fresh entries served
+  staleHits: number; // stale entries served while revalidating
+  misses: number; // nothing cached, caller waited for the fetch
+  revalidations: number;
+  errors: number;
+}
+
+export interface ReadOptions {
+  // How long an entry is served without revalidating, in milliseconds
+  maxAge: number;
+}
+
+type CacheListener<T> = (data: T) => void;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+const listeners = new Map<string, Set<CacheListener<unknown>>>();
+// Bumped on every invalidation so reads and fetches started before it never write stale results back
+let epoch = 0;
+
+const stats: CacheStats = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  revalidations: 0,
+  errors: 0
+};
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Persistent cache unavailable:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Persistent cache unavailable:', error);
+        resolve(null);
+      }
+    });
+  }
+  return database;
+}
+
+// Runs a single request against the entries store; failures only cost persistence
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise(resolve => {
+    try {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Persistent cache request failed:', request.error);
+        resolve(undefined);
+      };
+    } catch (error) {
+      console.warn('Persistent cache request failed:', error);
+      resolve(undefined);
+    }
+  });
+}
+
+async function loadEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  const cached = entries.get(key) as CacheEntry<T> | undefined;
+  if (cached) return cached;
+
+  const startedAt = epoch;
+  const stored = await withStore<CacheEntry<T>>('readonly', store => store.get(key));
+
+  // Ignore what was read if the cache was invalidated or the key written meanwhile
+  if (!stored || epoch !== startedAt || entries.has(key)) {
+    return entries.get(key) as CacheEntry<T> | undefined;
+  }
+
+  entries.set(key, stored);
+  return stored;
+}
+
+function fetchEntry<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const startedAt = epoch;
+  const request = fetcher()
+    .then(data => {
+      if (epoch === startedAt) {
+        const entry: CacheEntry<T> = { key, data, timestamp: Date.now() };
+        entries.set(key, entry);
+        void withStore('readwrite', store => store.put(entry));
+        listeners.get(key)?.forEach(listener => listener(data));
+      }
+      return data;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    });
+
+  inFlight.set(key, request);
+  return request;
+}
+
+// Returns cached data straight away when there is any, refetching in the
+// background once it is older than `maxAge`. Subscribers receive the fresh value.
+export async function readCache<T>(key: string, fetcher: () => Promise<T>, { maxAge }: ReadOptions): Promise<T> {
+  const entry = await loadEntry<T>(key);
+
+  if (!entry) {
+    stats.misses++;
+    return fetchEntry(key, fetcher);
+  }
+
+  if (Date.now() - entry.timestamp < maxAge) {
+    stats.hits++;
+    return entry.data;
+  }
+
+  stats.staleHits++;
+  if (!inFlight.has(key)) {
+    stats.revalidations++;
+    fetchEntry(key, fetcher).catch(error => {
+      stats.errors++;
+      console.error(`Error revalidating cache entry "${key}":`, error);
+    });
+  }
+  return entry.data;
+}
+
+// Listen for new data written under a key, e.g. after a background revalidation
+export function subscribeCache<T>(key: string, listener: CacheListener<T>): () => void {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener as CacheListener<unknown>);
+
+  return () => {
+    keyListeners.delete(listener as CacheListener<unknown>);
+    if (keyListeners.size === 0) listeners.delete(key);
+  };
+}
+
+// Drops every entry whose key starts with `prefix`, in memory and on disk
+export async function invalidateCache(prefix: string): Promise<void> {
+  epoch++;
+
+  [entries, inFlight].forEach(map => {
+    Array.from(map.keys()).forEach(key => {
+      if (key.startsWith(prefix)) map.delete(key);
+    });
+  });
+
+  await withStore('readwrite', store => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+}
+
+export function getCacheStats(): CacheStats & { hitRate: number } {
+  const reads = stats.hits + stats.staleHits + stats.misses;
+  return {
+    ...stats,
+    hitRate: reads === 0 ? 0 : (stats.hits + stats.staleHits) / reads
+  };
+}
@@ -0,0 +1,61 @@
+import { Category } from '../types';
+import { getRepository } from './repository';
+import { readCache, subscribeCache, invalidateCache } from './cache';
+import { defaultCategories } from './default-categories';
+
+// Cache configuration
+const CACHE_DURATION = 60 * 60 * 1000; // 1 hour; categories rarely change
+const CATEGORIES_CACHE_KEY = 'categories:all';
+
+// Merges are followed at most this many hops, guarding against cycles
+const MAX_MERGE_DEPTH = 10;
+
+// Function to get every category, including archived and merged ones.
+// Until an admin seeds or creates categories the defaults are used.
+export function getCategories(): Promise<Category[]> {
+  return readCache(
+    CATEGORIES_CACHE_KEY,
+    async () => {
+      const categories = await getRepository().categories.list();
+      return categories.length ? categories : defaultCategories;
+    },
+    { maxAge: CACHE_DURATION }
+  );
+}
+
+export function subscribeCategories(listener: (categories: Category[]) => void): () => void {
+  return subscribeCache(CATEGORIES_CACHE_KEY, listener);
+}
+
+export function clearCategoriesCache(): Promise<void> {
+  return invalidateCache('categories:');
+}
+
+// Categories makers can pick from
+export function getSelectableCategories(categories: Category[]): Category[] {
+  return categories.filter(category => !category.archived);
+}
+
+// Follows merges so a launch or URL always lands on a live category
+function followMerges(categories: Category[], category: Category | undefined): Category | undefined {
+  let current = category;
+  for (let depth = 0; current?.mergedInto && depth < MAX_MERGE_DEPTH; depth++) {
+    const targetId = current.mergedInto;
+    const target = categories.find(c => c.id === targetId);
+    if (!target) break;
+    current = target;
+  }
+  return current;
+}
+
+export function findCategoryById(categories: Category[], id: string | undefined): Category | undefined {
+  return id ? followMerges(categories, categories.find(category => category.id === id)) : undefined;
+}
+
+// Resolves a current slug, an old alias or the slug of a merged category
+export function findCategoryBySlug(categories: Category[], slug: string): Category | undefined {
+  const normalized = slug.toLowerCase();
+  return followMerges(categories, categories.find(category =>
+    category.slug === normalized || category.aliases.includes(normalized)
+  ));
+}
@@ -0,0 +1,34 @@
+import { Launch } from '../types/launch';
+import { LaunchCollection } from '../types';
+import { getRepository } from './repository';
+import { getLaunchesByIds } from './launches';
+
+export { MAX_COLLECTION_LAUNCHES } from './repository/collections';
+
+export interface PublicCollection {
+  collection: LaunchCollection;
+  username: string;
+  // Launches that are no longer listed are left out
+  launches: Launch[];
+}
+
+// Function to look up a public collection by its owner's username and its slug
+export async function getPublicCollection(username: string, slug: string): Promise<PublicCollection | null> {
+  const repository = getRepository();
+  const claim = await repository.usernames.get(username);
+  if (!claim?.uid) return null;
+
+  const collection = await repository.collections.getPublic(claim.uid, slug);
+  if (!collection) return null;
+
+  return {
+    collection,
+    username: claim.username ?? username.toLowerCase(),
+    launches: await getLaunchesByIds(collection.launchIds)
+  };
+}
+
+// Function to save a launch for later, or unsave it
+export function toggleBookmark(launchId: string, userId: string): Promise<boolean> {
+  return getRepository().bookmarks.toggle(userId, launchId);
+}
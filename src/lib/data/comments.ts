@@ -0,0 +1,69 @@
+import { LaunchComment } from '../types/comment';
+import { getRepository } from './repository';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export interface CommentThread {
+  comment: LaunchComment;
+  replies: CommentThread[];
+}
+
+// Function to nest comments under their parents. Top-level threads are listed most
+// upvoted first; replies stay in the order they were written, so conversations read naturally.
+// Deleted placeholders whose replies are all gone are dropped.
+export function buildCommentThreads(comments: LaunchComment[]): CommentThread[] {
+  const threads = new Map(comments.map(comment => [comment.id, { comment, replies: [] as CommentThread[] }]));
+  const roots: CommentThread[] = [];
+
+  comments.forEach(comment => {
+    const thread = threads.get(comment.id)!;
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined;
+    // Replies to a comment that no longer exists are shown at the top level
+    (parent ? parent.replies : roots).push(thread);
+  });
+
+  const prune = (list: CommentThread[]): CommentThread[] => list
+    .map(thread => ({ ...thread, replies: prune(thread.replies) }))
+    .filter(thread => !thread.comment.deleted || thread.replies.length > 0);
+
+  return prune(roots).sort((a, b) =>
+    b.comment.upvotes - a.comment.upvotes ||
+    a.comment.createdAt.getTime() - b.comment.createdAt.getTime()
+  );
+}
+
+function validateBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) throw new Error('Comment is empty');
+  if (trimmed.length > MAX_COMMENT_LENGTH) throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  return trimmed;
+}
+
+// Function to post a comment or reply, signed with the author's current public profile.
+// Security rules compare the signature with that profile, so build it the same way.
+export async function postComment(launchId: string, parentId: string | null, body: string, userId: string): Promise<string> {
+  const repository = getRepository();
+  const profile = await repository.profiles.get(userId);
+
+  return repository.comments.create({
+    launchId,
+    parentId,
+    authorId: userId,
+    authorName: profile?.displayName || profile?.username || 'Anonymous',
+    authorUsername: profile?.username || null,
+    authorAvatarUrl: profile?.avatarUrl || null,
+    body: validateBody(body)
+  });
+}
+
+export function editComment(comment: LaunchComment, body: string): Promise<void> {
+  return getRepository().comments.update(comment.launchId, comment.id, validateBody(body));
+}
+
+export function deleteComment(comment: LaunchComment): Promise<void> {
+  return getRepository().comments.remove(comment.launchId, comment.id);
+}
+
+export function toggleCommentUpvote(comment: LaunchComment, userId: string): Promise<boolean> {
+  return getRepository().comments.toggleUpvote(comment.launchId, comment.id, userId);
+}
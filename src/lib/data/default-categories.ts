@@ -0,0 +1,60 @@
+import { Category } from '@/lib/types';
+
+// Categories offered before they became editable. Their ids are the values
+// older launches store, so seeding them keeps those launches categorised.
+export const defaultCategories: Category[] = [
+  {
+    id: 'business',
+    slug: 'business',
+    name: 'Business',
+    description: 'Tools for running and growing a company',
+    icon: 'briefcase',
+    archived: false,
+    aliases: []
+  },
+  {
+    id: 'marketing',
+    slug: 'marketing',
+    name: 'Marketing',
+    description: 'Reach new customers and grow your audience',
+    icon: 'megaphone',
+    archived: false,
+    aliases: []
+  },
+  {
+    id: 'design',
+    slug: 'design',
+    name: 'Design',
+    description: 'Design tools, assets and inspiration',
+    icon: 'palette',
+    archived: false,
+    aliases: []
+  },
+  {
+    id: 'lifestyle',
+    slug: 'lifestyle',
+    name: 'Lifestyle',
+    description: 'Health, hobbies and everyday life',
+    icon: 'heart',
+    archived: false,
+    aliases: []
+  },
+  {
+    id: 'productivity',
+    slug: 'productivity',
+    name: 'Productivity',
+    description: 'Work faster and stay organised',
+    icon: 'zap',
+    archived: false,
+    aliases: []
+  },
+  {
+    id: 'for-sale',
+    slug: 'for-sale',
+    name: 'For Sale',
+    description: 'Startups looking for a new owner',
+    icon: 'tag',
+    archived: false,
+    aliases: []
+  }
+];
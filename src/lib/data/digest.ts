@@ -0,0 +1,113 @@
+import { renderDigestEmail, toDigestEmailData, WeeklyDigest } from '../email/digest';
+import { RenderedEmail } from '../email/render';
+import { NewsletterSubscriber, SentDigest } from '../types';
+import { launchCalendar, LaunchWeek } from '../utils/launch-calendar';
+import { getRepository, NewMail } from './repository';
+import { getLeaderboard } from './launches';
+
+const DIGEST_TOP_LAUNCHES = 10;
+const DIGEST_FEATURED = 3;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Function to find the launch week a digest covers; only finished weeks have one
+export function getDigestWeek(weekId: string): LaunchWeek | null {
+  const week = launchCalendar.getWeekById(weekId);
+  return week && week.end <= new Date() ? week : null;
+}
+
+// Function to get the most recent week with a digest, i.e. the week that closed last
+export function getLatestDigestWeek(): LaunchWeek {
+  return launchCalendar.getPreviousWeek(launchCalendar.getWeek());
+}
+
+// Function to assemble a finished week's top launches and the premium listings that launched with them
+export async function getWeeklyDigest(week: LaunchWeek): Promise<WeeklyDigest> {
+  const repository = getRepository();
+  const [topLaunches, launchCount, featured] = await Promise.all([
+    getLeaderboard('weekly', { date: week.start, limit: DIGEST_TOP_LAUNCHES }),
+    repository.launches.count({ week: week.id }),
+    repository.launches.listPage({ week: week.id, listingType: 'premium', order: 'upvotes', limit: DIGEST_FEATURED })
+  ]);
+
+  return { week, topLaunches, featured: featured.launches, launchCount };
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+// Function to subscribe an address to the weekly digest and email it a confirmation link.
+// Returns false when it already is subscribed.
+export function subscribeToDigest(email: string): Promise<boolean> {
+  if (!isValidEmail(email)) {
+    return Promise.reject(new Error('Invalid email address'));
+  }
+  const address = email.trim().toLowerCase();
+  return getRepository().newsletter.subscribe(address, subscriberId => ({
+    toUid: null,
+    subscriberId,
+    to: address,
+    template: 'confirm-subscription',
+    category: 'newsletter',
+    data: { subscriberId },
+    sendAt: new Date()
+  }));
+}
+
+// Function to confirm a subscription from its confirmation link. Returns false for unknown links.
+export function confirmDigestSubscription(subscriberId: string): Promise<boolean> {
+  return getRepository().newsletter.confirm(subscriberId);
+}
+
+// Function to end a subscription from its unsubscribe link. Returns false for unknown links.
+export function unsubscribeFromDigest(subscriberId: string): Promise<boolean> {
+  return getRepository().newsletter.unsubscribe(subscriberId);
+}
+
+// Function to render the digest as it would reach a subscriber, for previews
+export function previewDigestEmail(digest: WeeklyDigest): RenderedEmail {
+  return renderDigestEmail(toDigestEmailData(digest, null));
+}
+
+// Function to list the subscribers that get the digest, i.e. the confirmed ones
+export async function getDigestSubscribers(): Promise<NewsletterSubscriber[]> {
+  const subscribers = await getRepository().newsletter.listSubscribers();
+  return subscribers.filter(subscriber => subscriber.confirmedAt);
+}
+
+export function getSentDigest(week: LaunchWeek): Promise<SentDigest | null> {
+  return getRepository().newsletter.getSentDigest(week.id);
+}
+
+// Function to queue the digest for every confirmed subscriber and record that the week
+// was sent. Returns how many emails were queued.
+export async function sendWeeklyDigest(digest: WeeklyDigest): Promise<number> {
+  const repository = getRepository();
+  const subscribers = await getDigestSubscribers();
+
+  const mails: NewMail[] = subscribers.map(subscriber => ({
+    toUid: null,
+    subscriberId: subscriber.id,
+    to: subscriber.email,
+    template: 'weekly-digest',
+    category: 'newsletter',
+    data: toDigestEmailData(digest, subscriber.id),
+    sendAt: new Date()
+  }));
+
+  const queued = await repository.mail.enqueueAll(mails);
+  await repository.newsletter.recordDigestSent(digest.week.id, queued);
+  return queued;
+}
+
+// Function to send a single copy to an admin before the real send
+export async function sendDigestTest(digest: WeeklyDigest, uid: string, email: string): Promise<void> {
+  await getRepository().mail.enqueue({
+    toUid: uid,
+    to: email,
+    template: 'weekly-digest',
+    category: 'newsletter',
+    data: toDigestEmailData(digest, null),
+    sendAt: new Date()
+  });
+}
@@ -0,0 +1,106 @@
+import { Launch } from '../types/launch';
+import { LaunchPageQuery, ListingType } from './repository';
+import { getRotationPivot } from './launches';
+
+// How the homepage feed is sorted and filtered. It lives in the URL, so filtered views can be shared.
+export type FeedSort = 'rotation' | 'top' | 'newest';
+export type FeedListing = 'all' | ListingType;
+
+export interface FeedView {
+  sort: FeedSort;
+  listing: FeedListing;
+  // Category slug, as in the URL
+  category?: string;
+}
+
+export const feedSorts: { value: FeedSort; label: string }[] = [
+  { value: 'rotation', label: 'Rotating' },
+  { value: 'top', label: 'Most upvoted' },
+  { value: 'newest', label: 'Newest' }
+];
+
+export const feedListings: { value: FeedListing; label: string }[] = [
+  { value: 'all', label: 'All listings' },
+  { value: 'premium', label: 'Premium' },
+  { value: 'boosted', label: 'Boosted' },
+  { value: 'regular', label: 'Regular' }
+];
+
+export const defaultFeedView: FeedView = { sort: 'rotation', listing: 'all' };
+
+export function parseFeedView(params: URLSearchParams): FeedView {
+  const sort = params.get('sort');
+  const listing = params.get('listing');
+  return {
+    sort: feedSorts.some(option => option.value === sort) ? sort as FeedSort : defaultFeedView.sort,
+    listing: feedListings.some(option => option.value === listing) ? listing as FeedListing : defaultFeedView.listing,
+    category: params.get('category') || undefined
+  };
+}
+
+// Writes the view into the given params, leaving defaults out so the plain homepage URL stays clean
+export function toFeedParams(view: FeedView, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | undefined, fallback?: string) => {
+    if (value && value !== fallback) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  };
+
+  set('sort', view.sort, defaultFeedView.sort);
+  set('listing', view.listing, defaultFeedView.listing);
+  set('category', view.category);
+  return next;
+}
+
+// The paged part of the feed: this week's regular listings, or nothing when the
+// view only shows premium or boosted listings, which are always loaded in full
+export function getFeedPageQuery(
+  view: FeedView,
+  { week, slot, category }: { week: string; slot: number; category?: string }
+): Omit<LaunchPageQuery, 'cursor' | 'limit'> | null {
+  if (view.listing === 'premium' || view.listing === 'boosted') {
+    return null;
+  }
+
+  const base = { week, listingType: 'regular' as const, category };
+  switch (view.sort) {
+    case 'top':
+      return { ...base, order: 'upvotes' };
+    case 'newest':
+      return { ...base, order: 'newest' };
+    default:
+      return { ...base, order: 'id', wrapFrom: getRotationPivot(slot) };
+  }
+}
+
+const byUpvotes = (a: Launch, b: Launch) => (b.upvotes || 0) - (a.upvotes || 0);
+const byNewest = (a: Launch, b: Launch) => new Date(b.launchDate).getTime() - new Date(a.launchDate).getTime();
+
+// Premium listings pinned above the feed and boosted listings inserted into it,
+// filtered and ordered for the view. In rotation, boosted listings take turns at the first slot.
+export function arrangeFeatured(
+  featured: Launch[],
+  view: FeedView,
+  { slot, category }: { slot: number; category?: string }
+): { premium: Launch[]; boosted: Launch[] } {
+  const inView = (listingType: ListingType) => featured.filter(launch =>
+    launch.listingType === listingType && (!category || launch.category === category)
+  );
+
+  const premium = view.listing === 'all' || view.listing === 'premium' ? inView('premium') : [];
+  const boosted = view.listing === 'all' || view.listing === 'boosted' ? inView('boosted') : [];
+
+  if (view.sort === 'top') {
+    return { premium: premium.sort(byUpvotes), boosted: boosted.sort(byUpvotes) };
+  }
+  if (view.sort === 'newest') {
+    return { premium: premium.sort(byNewest), boosted: boosted.sort(byNewest) };
+  }
+
+  boosted.sort((a, b) => a.id.localeCompare(b.id));
+  const offset = boosted.length ? slot % boosted.length : 0;
+  return { premium, boosted: [...boosted.slice(offset), ...boosted.slice(0, offset)] };
+}
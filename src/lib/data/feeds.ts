@@ -0,0 +1,93 @@
+import { Launch } from '../types/launch';
+import { Category } from '../types';
+import { Feed, FeedItem } from '../feeds/render';
+import { hasLaunched } from '../utils/launch-calendar';
+import { getAbsoluteUrl, getCategoryPath, getLaunchPath, getProfilePath } from '../utils/paths';
+import { getRepository } from './repository';
+import { getAllApprovedLaunches } from './launches';
+import { findCategoryById, getCategories, getSelectableCategories } from './categories';
+
+// Newest launches per feed
+const FEED_LIMIT = 50;
+
+export interface PublishedFeed {
+  // Site path the feed files are published under, e.g. '/category/ai/'
+  path: string;
+  feed: Feed;
+}
+
+function toAbsolute(url: string): string {
+  return url.startsWith('/') ? getAbsoluteUrl(url) : url;
+}
+
+function toFeedItem(launch: Launch, categories: Category[], authorName?: string): FeedItem {
+  const url = getAbsoluteUrl(getLaunchPath(launch.slug));
+  const category = findCategoryById(categories, launch.category);
+
+  return {
+    id: url,
+    title: launch.name,
+    url,
+    summary: launch.description,
+    date: new Date(launch.launchDate),
+    externalUrl: launch.website,
+    imageUrl: launch.logo ? toAbsolute(launch.logo) : undefined,
+    authorName,
+    categories: [...(category ? [category.name] : []), ...launch.tags]
+  };
+}
+
+function toFeed(pagePath: string, title: string, description: string, items: FeedItem[]): PublishedFeed {
+  const path = pagePath.endsWith('/') ? pagePath : `${pagePath}/`;
+  return {
+    path,
+    feed: {
+      title,
+      description,
+      homeUrl: getAbsoluteUrl(pagePath),
+      baseUrl: getAbsoluteUrl(path),
+      items: items.slice(0, FEED_LIMIT)
+    }
+  };
+}
+
+// Function to build every launch feed: the site-wide one, one per active category and
+// one per maker with a public profile. Only launches that have gone live are included.
+export async function getLaunchFeeds(): Promise<PublishedFeed[]> {
+  const now = new Date();
+  const [allLaunches, categories] = await Promise.all([getAllApprovedLaunches(), getCategories()]);
+  const launches = allLaunches
+    .filter(launch => hasLaunched(launch.launchDate, now))
+    .sort((a, b) => new Date(b.launchDate).getTime() - new Date(a.launchDate).getTime());
+
+  const makerIds = Array.from(new Set(launches.flatMap(launch => (launch.userId ? [launch.userId] : []))));
+  const profiles = await Promise.all(makerIds.map(uid => getRepository().profiles.get(uid)));
+  const makerNames = new Map(profiles.flatMap(profile => (profile ? [[profile.uid, profile.displayName || `@${profile.username}`]] : [])));
+  const toItem = (launch: Launch) => toFeedItem(launch, categories, launch.userId ? makerNames.get(launch.userId) : undefined);
+
+  const feeds = [
+    toFeed('/', 'Startups.ad', 'The latest startup launches on Startups.ad', launches.map(toItem))
+  ];
+
+  getSelectableCategories(categories).forEach(category => {
+    feeds.push(toFeed(
+      getCategoryPath(category.slug),
+      `${category.name} launches on Startups.ad`,
+      `The latest ${category.name} launches on Startups.ad`,
+      launches.filter(launch => findCategoryById(categories, launch.category)?.id === category.id).map(toItem)
+    ));
+  });
+
+  profiles.forEach(profile => {
+    if (!profile?.username) return;
+    const name = profile.displayName || `@${profile.username}`;
+    feeds.push(toFeed(
+      getProfilePath(profile.username),
+      `Launches by ${name} on Startups.ad`,
+      `Every launch by ${name} on Startups.ad`,
+      launches.filter(launch => launch.userId === profile.uid).map(toItem)
+    ));
+  });
+
+  return feeds;
+}
@@ -0,0 +1,21 @@
+import { Launch } from '../types/launch';
+import { FollowCounts, getRepository } from './repository';
+
+const FOLLOWING_FEED_LIMIT = 50;
+
+// Function to follow a maker, or unfollow them
+export function toggleFollow(followeeId: string, userId: string): Promise<boolean> {
+  return getRepository().follows.toggle(userId, followeeId);
+}
+
+// Function to count a user's followers and the users they follow
+export function getFollowCounts(uid: string): Promise<FollowCounts> {
+  return getRepository().follows.count(uid);
+}
+
+// Function to get the latest launches by the makers a user follows
+export function getFollowingFeed(followedIds: string[]): Promise<Launch[]> {
+  return followedIds.length
+    ? getRepository().launches.listRecentByMakers(followedIds, FOLLOWING_FEED_LIMIT)
+    : Promise.resolve([]);
+}
@@ -0,0 +1,136 @@
+import { Launch, LaunchLookup } from '../types/launch';
+import { LaunchComment } from '../types/comment';
+import { AppNotification } from '../types/notification';
+import { getRepository, Unsubscribe } from './repository';
+
+// The inbox only ever holds the latest notifications
+const NOTIFICATIONS_LIMIT = 30;
+
+interface FeedListener<T> {
+  next: (value: T) => void;
+  error?: (error: Error) => void;
+}
+
+interface Channel<T> {
+  listeners: Set<FeedListener<T>>;
+  latest?: T;
+  unsubscribe?: Unsubscribe;
+}
+
+// One snapshot listener per channel, shared by every component that subscribes to it
+const channels = new Map<string, Channel<unknown>>();
+
+function openChannel<T>(
+  key: string,
+  open: (next: (value: T) => void, error: (error: Error) => void) => Unsubscribe
+): Channel<T> {
+  const channel: Channel<T> = { listeners: new Set() };
+  channels.set(key, channel as Channel<unknown>);
+  channel.unsubscribe = open(
+    value => {
+      channel.latest = value;
+      channel.listeners.forEach(l => l.next(value));
+    },
+    error => {
+      console.error(`Error in launch feed "${key}":`, error);
+      // A failed listener never fires again, so the next subscriber opens a fresh one
+      if (channels.get(key) === channel) channels.delete(key);
+      channel.listeners.forEach(l => l.error?.(error));
+    }
+  );
+  return channel;
+}
+
+function subscribeChannel<T>(
+  key: string,
+  open: (next: (value: T) => void, error: (error: Error) => void) => Unsubscribe,
+  listener: FeedListener<T>
+): Unsubscribe {
+  const channel = (channels.get(key) as Channel<T> | undefined) ?? openChannel(key, open);
+
+  channel.listeners.add(listener);
+  // Late subscribers get the last snapshot straight away
+  if (channel.latest !== undefined) {
+    listener.next(channel.latest);
+  }
+
+  return () => {
+    channel.listeners.delete(listener);
+    if (channel.listeners.size === 0) {
+      channel.unsubscribe?.();
+      if (channels.get(key) === channel) channels.delete(key);
+    }
+  };
+}
+
+// Subscribe to premium and boosted launches; updates stream in as votes and approvals change
+export function subscribeToFeaturedLaunches(listener: FeedListener<Launch[]>): Unsubscribe {
+  return subscribeChannel<Launch[]>(
+    'featured',
+    (next, error) => getRepository().launches.subscribeFeatured(next, error),
+    listener
+  );
+}
+
+// Subscribe to a single launch, whatever its week or status
+export function subscribeToLaunch(id: string, listener: FeedListener<LaunchLookup>): Unsubscribe {
+  return subscribeChannel<LaunchLookup>(
+    `launch:${id}`,
+    (next, error) => getRepository().launches.subscribeById(id, next, error),
+    listener
+  );
+}
+
+// Subscribe to the ids of launches a user has upvoted
+export function subscribeToUserVotes(userId: string, listener: FeedListener<string[]>): Unsubscribe {
+  return subscribeChannel<string[]>(
+    `votes:${userId}`,
+    (next, error) => getRepository().launches.subscribeUserVotes(userId, next, error),
+    listener
+  );
+}
+
+// Subscribe to every comment on a launch
+export function subscribeToComments(launchId: string, listener: FeedListener<LaunchComment[]>): Unsubscribe {
+  return subscribeChannel<LaunchComment[]>(
+    `comments:${launchId}`,
+    (next, error) => getRepository().comments.subscribe(launchId, next, error),
+    listener
+  );
+}
+
+// Subscribe to the ids of comments on a launch that a user has upvoted
+export function subscribeToCommentUpvotes(launchId: string, userId: string, listener: FeedListener<string[]>): Unsubscribe {
+  return subscribeChannel<string[]>(
+    `comment-upvotes:${launchId}:${userId}`,
+    (next, error) => getRepository().comments.subscribeUserUpvotes(launchId, userId, next, error),
+    listener
+  );
+}
+
+// Subscribe to the ids of launches a user has saved, most recently saved first
+export function subscribeToBookmarks(userId: string, listener: FeedListener<string[]>): Unsubscribe {
+  return subscribeChannel<string[]>(
+    `bookmarks:${userId}`,
+    (next, error) => getRepository().bookmarks.subscribe(userId, next, error),
+    listener
+  );
+}
+
+// Subscribe to the ids of users a user follows, most recently followed first
+export function subscribeToFollowing(userId: string, listener: FeedListener<string[]>): Unsubscribe {
+  return subscribeChannel<string[]>(
+    `following:${userId}`,
+    (next, error) => getRepository().follows.subscribeFollowing(userId, next, error),
+    listener
+  );
+}
+
+// Subscribe to a user's latest notifications, newest first
+export function subscribeToNotifications(userId: string, listener: FeedListener<AppNotification[]>): Unsubscribe {
+  return subscribeChannel<AppNotification[]>(
+    `notifications:${userId}`,
+    (next, error) => getRepository().notifications.subscribe(userId, NOTIFICATIONS_LIMIT, next, error),
+    listener
+  );
+}
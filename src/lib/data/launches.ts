@@ -1,146 +1,117 @@
-import { collection, query, where, getDocs, doc, getDoc, Timestamp, updateDoc, arrayUnion, arrayRemove } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
 import { Launch } from '../types/launch';
+import { getRepository, LaunchFilter, RankingPeriod } from './repository';
+import { launchCalendar, LaunchWeek } from '../utils/launch-calendar';
+import { readCache, invalidateCache } from './cache';
 
 // Cache configuration
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+const LAUNCHES_CACHE_KEY = 'launches:';
+const ALL_LAUNCHES_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
 
-// Single cache object to store both launches and upvotes
-const cache = {
-  launches: null as { data: Launch[]; timestamp: number } | null,
-  upvotes: {} as {
-    [key: string]: {
-      upvotes: number;
-      upvotedBy: string[];
-      timestamp: number;
-    };
-  }
-};
+// Homepage rotation: every interval the regular listings start from a new
+// point in id order, sweeping the whole id space once per cycle
+export const ROTATION_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
+const ROTATION_CYCLE = 24 * 60 * 60 * 1000; // 1 day
+// Document ids compare byte-wise, so these characters are listed in that order
+const ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
 
-// Function to get all launches with caching
-export async function getLaunches(): Promise<Launch[]> {
-  const now = Date.now();
+// Function to get the rotation slot a point in time falls in
+export function getRotationSlot(now = Date.now()): number {
+  return Math.floor(now / ROTATION_INTERVAL);
+}
 
-  // Return cached data if it's still valid
-  if (cache.launches && (now - cache.launches.timestamp) < CACHE_DURATION) {
-    return cache.launches.data;
-  }
+// Function to get the id the regular listings start from during a rotation slot
+export function getRotationPivot(slot: number): string {
+  const slotsPerCycle = ROTATION_CYCLE / ROTATION_INTERVAL;
+  const base = ID_ALPHABET.length;
+  const position = Math.floor(((slot % slotsPerCycle) / slotsPerCycle) * base * base);
+  return ID_ALPHABET[Math.floor(position / base)] + ID_ALPHABET[position % base];
+}
 
-  try {
-    // Get approved startups from Firestore in a single query
-    const startupsRef = collection(db, 'startups');
-    const q = query(startupsRef, where('status', '==', 'approved'));
-    const querySnapshot = await getDocs(q);
-    
-    const approvedLaunches: Launch[] = [];
-    
-    // Get current week's start and end dates
-    const currentDate = new Date();
-    const startOfWeek = new Date(currentDate);
-    startOfWeek.setDate(currentDate.getDate() - currentDate.getDay());
-    startOfWeek.setHours(0, 0, 0, 0);
-    
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(startOfWeek.getDate() + 6);
-    endOfWeek.setHours(23, 59, 59, 999);
-
-    querySnapshot.docs.forEach(docSnapshot => {
-      const data = docSnapshot.data();
-      const launchDate = data.scheduledLaunchDate.toDate();
-      
-      // Only include launches that are:
-      // 1. Premium or Boosted listings (always show these)
-      // 2. Regular listings from the current week
-      if (data.listingType === 'premium' || 
-          data.listingType === 'boosted' ||
-          (launchDate >= startOfWeek && launchDate <= endOfWeek)) {
-        approvedLaunches.push({
-          id: docSnapshot.id,
-          name: data.name,
-          logo: data.logoUrl,
-          description: data.description,
-          launchDate: data.scheduledLaunchDate.toDate().toISOString(),
-          website: data.url,
-          category: data.category || 'New Launch',
-          listingType: data.listingType || 'regular',
-          doFollowBacklink: data.doFollowBacklink || false,
-          upvotes: data.upvotes || 0,
-          upvotedBy: data.upvotedBy || []
-        });
-      }
-    });
-
-    // Cache the results
-    cache.launches = {
-      data: approvedLaunches,
-      timestamp: now
-    };
-
-    return approvedLaunches;
-  } catch (error) {
-    console.error('Error fetching launches:', error);
-    // Return cached data if available, otherwise return empty array
-    return cache.launches?.data || [];
+// Function to get every approved launch regardless of launch week, e.g. for search and tag counts.
+// Cached under the launches prefix so clearLaunchesCache refreshes it too.
+export function getAllApprovedLaunches(): Promise<Launch[]> {
+  return readCache(
+    `${LAUNCHES_CACHE_KEY}all`,
+    () => getRepository().launches.listApproved(),
+    { maxAge: ALL_LAUNCHES_CACHE_DURATION }
+  );
+}
+
+// Function to get approved launches by id, e.g. a user's saved launches, in the order given
+export function getLaunchesByIds(ids: string[]): Promise<Launch[]> {
+  return ids.length ? getRepository().launches.listByIds(ids) : Promise.resolve([]);
+}
+
+const periodKeys = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+} as const;
+
+// Function to get the most upvoted launches of the period containing `date`
+export async function getLeaderboard(
+  period: RankingPeriod,
+  { category, date = new Date(), limit = 50 }: { category?: string; date?: Date; limit?: number } = {}
+): Promise<Launch[]> {
+  const periodKey = period === 'all-time'
+    ? undefined
+    : launchCalendar.getPeriods(date)[periodKeys[period]];
+
+  // Already ranked by the repository, with ties in the same order as paginated lists
+  return readCache(
+    `${LAUNCHES_CACHE_KEY}top:${period}:${periodKey ?? ''}:${category ?? ''}:${limit}`,
+    () => getRepository().launches.listTop({ period, periodKey, category, limit }),
+    { maxAge: CACHE_DURATION }
+  );
+}
+
+// Function to count the approved launches matching a filter, e.g. for list headers
+export function countLaunches({ week, listingType, category, tag }: LaunchFilter): Promise<number> {
+  return readCache(
+    `${LAUNCHES_CACHE_KEY}count:${week ?? ''}:${listingType ?? ''}:${category ?? ''}:${tag ?? ''}`,
+    () => getRepository().launches.count({ week, listingType, category, tag }),
+    { maxAge: CACHE_DURATION }
+  );
+}
+
+// Function to list finished launch weeks, newest first
+export async function getArchiveWeeks(): Promise<LaunchWeek[]> {
+  const firstLaunchDate = await readCache(
+    `${LAUNCHES_CACHE_KEY}first-date`,
+    () => getRepository().launches.getFirstLaunchDate(),
+    { maxAge: ALL_LAUNCHES_CACHE_DURATION }
+  );
+  if (!firstLaunchDate) return [];
+
+  const firstWeek = launchCalendar.getWeek(firstLaunchDate);
+  const weeks: LaunchWeek[] = [];
+  let week = launchCalendar.getPreviousWeek(launchCalendar.getWeek());
+
+  while (week.start >= firstWeek.start) {
+    weeks.push(week);
+    week = launchCalendar.getPreviousWeek(week);
   }
+
+  return weeks;
 }
 
 // Function to handle upvoting
-export async function toggleUpvote(launchId: string, userId: string): Promise<void> {
+export async function toggleUpvote(launchId: string, userId: string): Promise<boolean> {
   try {
-    const startupRef = doc(db, 'startups', launchId);
-    const startupDoc = await getDoc(startupRef);
-
-    if (!startupDoc.exists()) {
-      throw new Error('Launch not found');
-    }
-
-    const data = startupDoc.data();
-    const upvotedBy = data.upvotedBy || [];
-    const currentUpvotes = data.upvotes || 0;
-
-    if (upvotedBy.includes(userId)) {
-      // Remove upvote
-      await updateDoc(startupRef, {
-        upvotes: currentUpvotes - 1,
-        upvotedBy: arrayRemove(userId)
-      });
-    } else {
-      // Add upvote
-      await updateDoc(startupRef, {
-        upvotes: currentUpvotes + 1,
-        upvotedBy: arrayUnion(userId)
-      });
-    }
+    const hasUpvoted = await getRepository().launches.toggleUpvote(launchId, userId);
 
     // Clear cache to ensure fresh data on next fetch
-    clearLaunchesCache();
+    await clearLaunchesCache();
+    return hasUpvoted;
   } catch (error) {
     console.error('Error toggling upvote:', error);
     throw error;
   }
 }
 
-// Function to get weekly launches (uses cached data)
-export async function getWeeklyLaunches(): Promise<Launch[]> {
-  const launches = await getLaunches();
-  
-  const now = new Date();
-  const startOfWeek = new Date(now);
-  startOfWeek.setDate(now.getDate() - now.getDay());
-  startOfWeek.setHours(0, 0, 0, 0);
-  
-  const endOfWeek = new Date(startOfWeek);
-  endOfWeek.setDate(startOfWeek.getDate() + 6);
-  endOfWeek.setHours(23, 59, 59, 999);
-  
-  return launches.filter(launch => {
-    const launchDate = new Date(launch.launchDate);
-    return launchDate >= startOfWeek && launchDate <= endOfWeek;
-  });
-}
-
-// Function to clear cache (useful for testing or forced updates)
-export function clearLaunchesCache() {
-  cache.launches = null;
-  cache.upvotes = {};
+// Function to clear cache after writes that change the listed launches
+export function clearLaunchesCache(): Promise<void> {
+  return invalidateCache(LAUNCHES_CACHE_KEY);
 }
@@ -0,0 +1,70 @@
+import { MailContent } from '../email/mail';
+import { EmailTemplateData, EmailTemplateName, getTemplateCategory, isOptedOut } from '../email/templates';
+import { SubmittedStartup } from '../types';
+import { getLaunchPath } from '../utils/paths';
+import { getRepository } from './repository';
+
+interface SendEmailOptions {
+  // Defaults to now; later dates wait in the queue
+  sendAt?: Date;
+  // Queues the email at most once per id, for emails about something that happens once
+  id?: string;
+}
+
+// Function to queue a templated email to a user. Returns false when the user has
+// no email address or has opted out of the template's category.
+export async function sendEmail<K extends EmailTemplateName>(
+  uid: string,
+  template: K,
+  data: EmailTemplateData[K],
+  { sendAt = new Date(), id }: SendEmailOptions = {}
+): Promise<boolean> {
+  const repository = getRepository();
+  const profile = await repository.users.get(uid);
+  const category = getTemplateCategory(template);
+
+  if (!profile?.email || isOptedOut(profile.emailPreferences, category)) return false;
+
+  await repository.mail.enqueue({
+    toUid: uid,
+    to: profile.email,
+    // TypeScript can't tie `data` to `template` through the generic
+    ...{ template, data } as MailContent,
+    category,
+    sendAt
+  }, id);
+  return true;
+}
+
+// Function to email the maker about an approval, plus a launch-day email when the launch is still ahead.
+// Approving a launch again, e.g. after it was rejected, doesn't queue a second launch-day email.
+export async function emailSubmissionApproved(submission: SubmittedStartup, launchDate: Date): Promise<void> {
+  const launchPath = getLaunchPath(submission.slug || submission.id);
+  const launchesNow = launchDate <= new Date();
+
+  await sendEmail(submission.userId, 'submission-approved', {
+    launchName: submission.name,
+    launchPath,
+    launchDate,
+    launchesNow
+  });
+
+  if (!launchesNow) {
+    await sendEmail(submission.userId, 'launch-day', { launchName: submission.name, launchPath }, { sendAt: launchDate, id: `launch-day_${submission.id}` });
+  }
+}
+
+// Function to email the maker about a rejection
+export async function emailSubmissionRejected(submission: SubmittedStartup): Promise<void> {
+  await sendEmail(submission.userId, 'submission-rejected', { launchName: submission.name });
+}
+
+// Function to queue the welcome email after signup; failures are logged, never shown.
+// Users may only queue mail to an address Firebase has verified, e.g. after Google sign-in,
+// so password signups go without.
+export function sendWelcomeEmail(uid: string, isEmailVerified: boolean): void {
+  if (!isEmailVerified) return;
+  sendEmail(uid, 'welcome', {}, { id: `welcome_${uid}` }).catch(error => {
+    console.error('Error queueing welcome email:', error);
+  });
+}
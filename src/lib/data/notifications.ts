@@ -0,0 +1,49 @@
+import { AppNotification } from '../types/notification';
+import { getRepository } from './repository';
+import { getLaunchPath, getProfilePath } from '../utils/paths';
+
+// Function to mark notifications as read; already read ones are skipped
+export async function markNotificationsRead(uid: string, notifications: AppNotification[]): Promise<void> {
+  const unread = notifications.filter(notification => !notification.read).map(notification => notification.id);
+  if (unread.length) {
+    await getRepository().notifications.markRead(uid, unread);
+  }
+}
+
+// Function to describe a notification in one line
+export function describeNotification(notification: AppNotification): string {
+  const actor = notification.actorName || 'Someone';
+  const launch = notification.launchName || 'your launch';
+
+  switch (notification.type) {
+    case 'approved':
+      return `${launch} was approved`;
+    case 'rejected':
+      return `${launch} was not approved`;
+    case 'upvote':
+      return `${actor} upvoted ${launch}`;
+    case 'comment':
+      return `${actor} commented on ${launch}`;
+    case 'reply':
+      return `${actor} replied to your comment on ${launch}`;
+    case 'follow':
+      return `${actor} started following you`;
+  }
+}
+
+// Function to get the page a notification is about; null when there is nothing to link to
+export function getNotificationLink(notification: AppNotification): string | null {
+  const launchId = notification.launchSlug || notification.launchId;
+
+  switch (notification.type) {
+    case 'rejected':
+      return '/profile';
+    case 'follow':
+      return notification.actorUsername ? getProfilePath(notification.actorUsername) : null;
+    case 'comment':
+    case 'reply':
+      return launchId ? `${getLaunchPath(launchId)}#comment-${notification.commentId}` : null;
+    default:
+      return launchId ? getLaunchPath(launchId) : null;
+  }
+}
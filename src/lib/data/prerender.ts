@@ -0,0 +1,46 @@
+import { getCategoryMeta, getLaunchMeta, getProfileMeta, getStartupMeta, getWeekMeta, getWeeksIndexMeta, PageMeta } from '../seo/meta';
+import { getCategoryPath, getLaunchPath, getProfilePath, getStartupPath, getWeekPath } from '../utils/paths';
+import { getRepository } from './repository';
+import { getSelectableCategories } from './categories';
+import { getPublicPageData } from './public-pages';
+
+export interface PrerenderedPage {
+  // Site path the page is published under, e.g. '/launch/orbit'
+  path: string;
+  meta: PageMeta;
+}
+
+// Function to list the public pages worth prerendering, each with the tags it shows once
+// loaded: every live launch's share and profile pages, active categories, finished launch
+// weeks and the profiles of their makers. The home page is left out: index.html already
+// describes it, and it doubles as the fallback for every other route.
+export async function getPrerenderedPages(): Promise<PrerenderedPage[]> {
+  const { launches, categories, weeks } = await getPublicPageData();
+
+  const pages: PrerenderedPage[] = [{ path: '/weeks', meta: getWeeksIndexMeta() }];
+
+  launches.forEach(launch => {
+    pages.push(
+      { path: getLaunchPath(launch.slug), meta: getLaunchMeta(launch) },
+      { path: getStartupPath(launch.slug), meta: getStartupMeta(launch) }
+    );
+  });
+
+  getSelectableCategories(categories).forEach(category => {
+    pages.push({ path: getCategoryPath(category.slug), meta: getCategoryMeta(category) });
+  });
+
+  weeks.forEach(week => {
+    pages.push({ path: getWeekPath(week), meta: getWeekMeta(week) });
+  });
+
+  const makerIds = Array.from(new Set(launches.flatMap(launch => (launch.userId ? [launch.userId] : []))));
+  const profiles = await Promise.all(makerIds.map(uid => getRepository().profiles.get(uid)));
+  profiles.forEach(profile => {
+    if (profile?.username) {
+      pages.push({ path: getProfilePath(profile.username), meta: getProfileMeta(profile) });
+    }
+  });
+
+  return pages;
+}
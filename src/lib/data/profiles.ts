@@ -0,0 +1,72 @@
+import { Launch } from '../types/launch';
+import { LaunchCollection, PublicProfile } from '../types';
+import { getRepository } from './repository';
+import { getLaunchesByIds, getLeaderboard } from './launches';
+import { launchCalendar, LaunchWeek } from '../utils/launch-calendar';
+
+const MAX_UPVOTED_LAUNCHES = 30;
+// Podium places that earn an award
+const AWARD_PLACES = 3;
+
+export interface LaunchAward {
+  launch: Launch;
+  // 1 for the week's top launch
+  place: number;
+  week: LaunchWeek;
+}
+
+export interface PublicProfilePage {
+  profile: PublicProfile;
+  launches: Launch[];
+  // Empty unless the user chose to show their upvotes
+  upvoted: Launch[];
+  collections: LaunchCollection[];
+  awards: LaunchAward[];
+}
+
+// Function to find the podium places the launches took in their finished launch weeks
+async function getAwards(launches: Launch[]): Promise<LaunchAward[]> {
+  const currentWeek = launchCalendar.getWeek();
+  const weeks = new Map<string, LaunchWeek>();
+  launches.forEach(launch => {
+    const week = launchCalendar.getWeek(new Date(launch.launchDate));
+    if (week.start < currentWeek.start) weeks.set(week.id, week);
+  });
+
+  // One leaderboard read per week, however many launches the maker had in it
+  const podiums = await Promise.all(Array.from(weeks.values()).map(async week => ({
+    week,
+    topLaunches: await getLeaderboard('weekly', { date: week.start, limit: AWARD_PLACES })
+  })));
+
+  return podiums.flatMap(({ week, topLaunches }) => topLaunches.flatMap((topLaunch, index) => {
+    const launch = launches.find(current => current.id === topLaunch.id);
+    return launch ? [{ launch, place: index + 1, week }] : [];
+  }));
+}
+
+// Function to look up everything shown on a user's public profile by their username
+export async function getPublicProfile(username: string): Promise<PublicProfilePage | null> {
+  const repository = getRepository();
+  const claim = await repository.usernames.get(username);
+  if (!claim?.uid) return null;
+
+  const profile = await repository.profiles.get(claim.uid);
+  if (!profile) return null;
+
+  const [launches, upvoted, collections] = await Promise.all([
+    repository.launches.listByMaker(claim.uid),
+    profile.showUpvotes
+      ? repository.profiles.listUpvotedLaunchIds(claim.uid, MAX_UPVOTED_LAUNCHES).then(getLaunchesByIds)
+      : Promise.resolve([]),
+    repository.collections.listPublic(claim.uid)
+  ]);
+
+  return {
+    profile,
+    launches,
+    upvoted,
+    collections,
+    awards: await getAwards(launches)
+  };
+}
@@ -0,0 +1,24 @@
+import { Category } from '../types';
+import { Launch } from '../types/launch';
+import { hasLaunched, LaunchWeek } from '../utils/launch-calendar';
+import { getAllApprovedLaunches, getArchiveWeeks } from './launches';
+import { getCategories } from './categories';
+
+export interface PublicPageData {
+  // Approved launches past their launch date
+  launches: Launch[];
+  categories: Category[];
+  // Finished launch weeks, newest first; the week in progress isn't archived yet
+  weeks: LaunchWeek[];
+}
+
+// Function to load what the sitemap and prerendered pages are built from, so both list
+// the same launches and weeks
+export async function getPublicPageData(): Promise<PublicPageData> {
+  const [launches, categories, weeks] = await Promise.all([
+    getAllApprovedLaunches(),
+    getCategories(),
+    getArchiveWeeks()
+  ]);
+  return { launches: launches.filter(launch => hasLaunched(launch.launchDate)), categories, weeks };
+}
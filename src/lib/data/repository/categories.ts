@@ -0,0 +1,38 @@
+// Category naming rules shared by the repository adapters. The category list is
+// small, so slugs are checked against the whole list rather than claimed.
+import { Category } from '@/lib/types';
+import { slugCandidates } from '@/lib/utils/slugs';
+
+// Current slugs and aliases of every other category
+function takenSlugs(categories: Category[], ownId?: string): Set<string> {
+  return new Set(categories
+    .filter(category => category.id !== ownId)
+    .flatMap(category => [category.slug, ...category.aliases]));
+}
+
+export function chooseCategorySlug(name: string, categories: Category[], ownId?: string): string {
+  const taken = takenSlugs(categories, ownId);
+  for (const candidate of slugCandidates(name)) {
+    if (!taken.has(candidate)) return candidate;
+  }
+
+  throw new Error(`No free slug for "${name}"`);
+}
+
+// Name, slug and aliases after a rename; the previous slug becomes an alias
+export function renameCategory(category: Category, name: string, categories: Category[]): Pick<Category, 'name' | 'slug' | 'aliases'> {
+  const slug = chooseCategorySlug(name, categories, category.id);
+  if (slug === category.slug) {
+    return { name, slug, aliases: category.aliases };
+  }
+
+  return {
+    name,
+    slug,
+    aliases: [...category.aliases.filter(alias => alias !== slug), category.slug]
+  };
+}
+
+export function byCategoryName(a: Category, b: Category): number {
+  return a.name.localeCompare(b.name);
+}
@@ -0,0 +1,26 @@
+// Collection rules shared by the repository adapters. A user has few collections,
+// so slugs are checked against the owner's whole list rather than claimed.
+import { LaunchCollection } from '@/lib/types';
+import { slugCandidates } from '@/lib/utils/slugs';
+
+// Keeps collection documents small and every collection readable in one batch
+export const MAX_COLLECTION_LAUNCHES = 100;
+
+export function chooseCollectionSlug(name: string, collections: LaunchCollection[], ownId?: string): string {
+  const taken = new Set(collections.filter(collection => collection.id !== ownId).map(collection => collection.slug));
+  for (const candidate of slugCandidates(name)) {
+    if (!taken.has(candidate)) return candidate;
+  }
+
+  throw new Error(`No free slug for "${name}"`);
+}
+
+export function checkCollectionSize(launchIds: string[]) {
+  if (launchIds.length > MAX_COLLECTION_LAUNCHES) {
+    throw new Error(`Collections hold at most ${MAX_COLLECTION_LAUNCHES} launches`);
+  }
+}
+
+export function byPosition(a: LaunchCollection, b: LaunchCollection): number {
+  return a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime();
+}
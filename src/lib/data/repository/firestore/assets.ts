@@ -0,0 +1,13 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { getFirebaseStorage } from '@/lib/firebase';
+import { AssetsRepository } from '../types';
+
+export function createFirebaseAssets(): AssetsRepository {
+  return {
+    async upload(path, file) {
+      const fileRef = ref(getFirebaseStorage(), path);
+      await uploadBytes(fileRef, file);
+      return getDownloadURL(fileRef);
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import {
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signOut,
+  sendPasswordResetEmail,
+  onAuthStateChanged,
+  signInWithPopup,
+  signInWithRedirect,
+  getRedirectResult,
+  browserPopupRedirectResolver,
+  browserLocalPersistence,
+  setPersistence
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { getFirebaseAuth, googleProvider } from '@/lib/firebase';
+import { AuthRepository } from '../types';
+
+export function createFirebaseAuth(): AuthRepository {
+  return {
+    subscribe(onChange) {
+      const auth = getFirebaseAuth();
+
+      // Set persistence to LOCAL
+      setPersistence(auth, browserLocalPersistence);
+
+      const unsubscribe = onAuthStateChanged(auth, onChange);
+
+      // Check for redirect result on mount
+      getRedirectResult(auth, browserPopupRedirectResolver).then((result) => {
+        if (result?.user) {
+          onChange(result.user);
+        }
+      }).catch((error) => {
+        console.error('Redirect sign-in error:', error);
+      });
+
+      return unsubscribe;
+    },
+
+    async signup(email, password) {
+      const userCredential = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
+      return userCredential.user;
+    },
+
+    async login(email, password) {
+      const userCredential = await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+      return userCredential.user;
+    },
+
+    async loginWithGoogle() {
+      try {
+        // Try popup first with explicit resolver
+        const result = await signInWithPopup(getFirebaseAuth(), googleProvider, browserPopupRedirectResolver);
+        return result.user;
+      } catch (error) {
+        // If popup is blocked or fails, fall back to redirect
+        if (error instanceof FirebaseError && (error.code === 'auth/popup-blocked' || error.code === 'auth/popup-closed-by-user')) {
+          await signInWithRedirect(getFirebaseAuth(), googleProvider);
+          return null; // User will be redirected
+        }
+        throw error;
+      }
+    },
+
+    async logout() {
+      await signOut(getFirebaseAuth());
+    },
+
+    async resetPassword(email) {
+      await sendPasswordResetEmail(getFirebaseAuth(), email);
+    }
+  };
+}
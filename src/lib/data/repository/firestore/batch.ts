@@ -0,0 +1,33 @@
+import { writeBatch, WriteBatch } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
+
+// Collects writes into as many batches as needed and commits them in order
+export function createBatchQueue() {
+  const batches: WriteBatch[] = [];
+  let batch = writeBatch(getDb());
+  let writes = 0;
+
+  return {
+    queue(write: (current: WriteBatch) => void) {
+      if (writes === BATCH_LIMIT) {
+        batches.push(batch);
+        batch = writeBatch(getDb());
+        writes = 0;
+      }
+      write(batch);
+      writes++;
+    },
+
+    async commit() {
+      if (writes > 0) {
+        batches.push(batch);
+      }
+      for (const pending of batches) {
+        await pending.commit();
+      }
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { collection, query, orderBy, doc, onSnapshot, runTransaction, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { BookmarksRepository } from '../types';
+
+// One document per saved launch under the user, keyed by the launch id
+export function createFirestoreBookmarks(): BookmarksRepository {
+  return {
+    async toggle(userId, launchId) {
+      const bookmarkRef = doc(getDb(), 'users', userId, 'bookmarks', launchId);
+
+      return runTransaction(getDb(), async (transaction) => {
+        const bookmarkDoc = await transaction.get(bookmarkRef);
+
+        if (bookmarkDoc.exists()) {
+          transaction.delete(bookmarkRef);
+          return false;
+        }
+
+        transaction.set(bookmarkRef, { launchId, createdAt: Timestamp.now() });
+        return true;
+      });
+    },
+
+    subscribe(userId, onChange, onError) {
+      const bookmarksQuery = query(collection(getDb(), 'users', userId, 'bookmarks'), orderBy('createdAt', 'desc'));
+      return onSnapshot(bookmarksQuery, querySnapshot => {
+        onChange(querySnapshot.docs.map(bookmarkDoc => bookmarkDoc.id));
+      }, onError);
+    }
+  };
+}
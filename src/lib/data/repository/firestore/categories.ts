@@ -0,0 +1,88 @@
+import { collection, query, where, getDocs, doc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { Category } from '@/lib/types';
+import { CategoriesRepository } from '../types';
+import { byCategoryName, chooseCategorySlug, renameCategory } from '../categories';
+import { toCategory, toCategoryFields } from './mappers';
+import { createBatchQueue } from './batch';
+
+export function createFirestoreCategories(): CategoriesRepository {
+  const categoriesRef = collection(getDb(), 'categories');
+
+  const list = async () => {
+    const querySnapshot = await getDocs(categoriesRef);
+    return querySnapshot.docs
+      .map(categoryDoc => toCategory(categoryDoc.id, categoryDoc.data()))
+      .sort(byCategoryName);
+  };
+
+  const find = (categories: Category[], id: string) => {
+    const category = categories.find(c => c.id === id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    return category;
+  };
+
+  return {
+    list,
+
+    // The first slug doubles as the permanent document id
+    async create({ name, description, icon }) {
+      const slug = chooseCategorySlug(name, await list());
+      const category: Category = { id: slug, slug, name, description, icon, archived: false, aliases: [] };
+
+      await setDoc(doc(categoriesRef, category.id), {
+        ...toCategoryFields(category),
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      });
+      return category;
+    },
+
+    async update(id, changes) {
+      const categories = await list();
+      const current = find(categories, id);
+      const updated: Category = {
+        ...current,
+        ...changes,
+        ...(changes.name && changes.name !== current.name ? renameCategory(current, changes.name, categories) : {})
+      };
+
+      await updateDoc(doc(categoriesRef, id), { ...toCategoryFields(updated), updatedAt: Timestamp.now() });
+      return updated;
+    },
+
+    async setArchived(id, archived) {
+      await updateDoc(doc(categoriesRef, id), { archived, updatedAt: Timestamp.now() });
+    },
+
+    async merge(sourceId, targetId) {
+      if (sourceId === targetId) {
+        throw new Error('Cannot merge a category into itself');
+      }
+
+      const categories = await list();
+      find(categories, sourceId);
+      if (find(categories, targetId).mergedInto) {
+        throw new Error('Cannot merge into a merged category');
+      }
+
+      const startups = await getDocs(query(collection(getDb(), 'startups'), where('category', '==', sourceId)));
+      const { queue, commit } = createBatchQueue();
+
+      startups.docs.forEach(startupDoc => {
+        queue(current => current.update(startupDoc.ref, { category: targetId, updatedAt: Timestamp.now() }));
+      });
+
+      queue(current => current.update(doc(categoriesRef, sourceId), {
+        archived: true,
+        mergedInto: targetId,
+        updatedAt: Timestamp.now()
+      }));
+
+      await commit();
+      return startups.size;
+    }
+  };
+}
@@ -0,0 +1,96 @@
+import { collection, query, where, limit, getDocs, doc, getDoc, addDoc, updateDoc, deleteDoc, writeBatch, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { LaunchCollection } from '@/lib/types';
+import { CollectionsRepository } from '../types';
+import { byPosition, checkCollectionSize, chooseCollectionSlug } from '../collections';
+import { toCollection } from './mappers';
+
+export function createFirestoreCollections(): CollectionsRepository {
+  const collectionsRef = collection(getDb(), 'collections');
+
+  const listByOwner = async (ownerId: string): Promise<LaunchCollection[]> => {
+    const querySnapshot = await getDocs(query(collectionsRef, where('ownerId', '==', ownerId)));
+    return querySnapshot.docs
+      .map(collectionDoc => toCollection(collectionDoc.id, collectionDoc.data()))
+      .sort(byPosition);
+  };
+
+  const get = async (id: string): Promise<LaunchCollection> => {
+    const collectionDoc = await getDoc(doc(collectionsRef, id));
+    if (!collectionDoc.exists()) {
+      throw new Error('Collection not found');
+    }
+    return toCollection(collectionDoc.id, collectionDoc.data());
+  };
+
+  return {
+    listByOwner,
+
+    async listPublic(ownerId) {
+      const querySnapshot = await getDocs(query(collectionsRef, where('ownerId', '==', ownerId), where('isPublic', '==', true)));
+      return querySnapshot.docs
+        .map(collectionDoc => toCollection(collectionDoc.id, collectionDoc.data()))
+        .sort(byPosition);
+    },
+
+    async getPublic(ownerId, slug) {
+      const querySnapshot = await getDocs(query(
+        collectionsRef,
+        where('ownerId', '==', ownerId),
+        where('slug', '==', slug),
+        where('isPublic', '==', true),
+        limit(1)
+      ));
+      const [collectionDoc] = querySnapshot.docs;
+      return collectionDoc ? toCollection(collectionDoc.id, collectionDoc.data()) : null;
+    },
+
+    async create(ownerId, input) {
+      const existing = await listByOwner(ownerId);
+      const now = Timestamp.now();
+      const fields = {
+        ...input,
+        ownerId,
+        slug: chooseCollectionSlug(input.name, existing),
+        launchIds: [],
+        // New collections go last
+        position: existing.reduce((max, current) => Math.max(max, current.position + 1), 0),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const collectionRef = await addDoc(collectionsRef, fields);
+      return toCollection(collectionRef.id, fields);
+    },
+
+    async update(id, changes) {
+      const current = await get(id);
+      const slug = changes.name !== undefined && changes.name !== current.name
+        ? chooseCollectionSlug(changes.name, await listByOwner(current.ownerId), id)
+        : current.slug;
+
+      await updateDoc(doc(collectionsRef, id), { ...changes, slug, updatedAt: Timestamp.now() });
+      return get(id);
+    },
+
+    async remove(id) {
+      await deleteDoc(doc(collectionsRef, id));
+    },
+
+    async setLaunches(id, launchIds) {
+      checkCollectionSize(launchIds);
+      await updateDoc(doc(collectionsRef, id), {
+        launchIds,
+        updatedAt: Timestamp.now()
+      });
+    },
+
+    async reorder(ownerId, collectionIds) {
+      const batch = writeBatch(getDb());
+      collectionIds.forEach((id, position) => {
+        batch.update(doc(collectionsRef, id), { position });
+      });
+      await batch.commit();
+    }
+  };
+}
@@ -0,0 +1,148 @@
+import { collection, query, where, orderBy, limit, getDocs, doc, getDoc, updateDoc, onSnapshot, runTransaction, increment, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { CommentsRepository } from '../types';
+import { getCommentRecipients } from '../notifications';
+import { toComment } from './mappers';
+import { queueNotification, readActor } from './notifications';
+
+// Comment upvotes live next to the comments, one document per comment and user. They are not
+// called `votes` so the collection-group query for launch votes never picks them up.
+function commentUpvoteId(commentId: string, userId: string) {
+  return `${commentId}_${userId}`;
+}
+
+export function createFirestoreComments(): CommentsRepository {
+  const commentsRef = (launchId: string) => collection(getDb(), 'startups', launchId, 'comments');
+
+  return {
+    subscribe(launchId, onChange, onError) {
+      return onSnapshot(query(commentsRef(launchId), orderBy('createdAt', 'asc')), querySnapshot => {
+        onChange(querySnapshot.docs.map(commentDoc => toComment(commentDoc.id, commentDoc.data())));
+      }, onError);
+    },
+
+    // A reply bumps its parent's reply count in the same transaction, so a parent being
+    // deleted meanwhile either sees the reply or makes this transaction fail. The parent
+    // records the reply's id so the rules can check the count moves with a new reply.
+    async create({ launchId, parentId, ...author }) {
+      const startupDoc = await getDoc(doc(getDb(), 'startups', launchId));
+      if (!startupDoc.exists() || startupDoc.data().status !== 'approved') {
+        throw new Error('Launch not found');
+      }
+
+      const startup = startupDoc.data();
+      const commentRef = doc(commentsRef(launchId));
+
+      await runTransaction(getDb(), async (transaction) => {
+        const parentRef = parentId ? doc(commentsRef(launchId), parentId) : null;
+        const parentDoc = parentRef ? await transaction.get(parentRef) : null;
+        if (parentDoc && (!parentDoc.exists() || parentDoc.data().deleted)) {
+          throw new Error('Comment not found');
+        }
+        const parentAuthorId: string | null = parentDoc?.data()?.authorId ?? null;
+        const actor = await readActor(author.authorId, transaction);
+
+        if (parentRef) {
+          transaction.update(parentRef, { replyCount: increment(1), lastReplyId: commentRef.id });
+        }
+
+        transaction.set(commentRef, {
+          ...author,
+          launchId,
+          parentId,
+          byMaker: startup.userId === author.authorId,
+          upvotes: 0,
+          replyCount: 0,
+          deleted: false,
+          createdAt: Timestamp.now(),
+          editedAt: null
+        });
+        getCommentRecipients(startup.userId, parentAuthorId).forEach(({ recipientId, type }) => {
+          queueNotification(transaction, recipientId, {
+            ...actor,
+            type,
+            launchId,
+            launchName: startup.name,
+            launchSlug: startup.slug || null,
+            commentId: commentRef.id
+          });
+        });
+      });
+
+      return commentRef.id;
+    },
+
+    async update(launchId, commentId, body) {
+      await updateDoc(doc(commentsRef(launchId), commentId), {
+        body,
+        editedAt: Timestamp.now()
+      });
+    },
+
+    // Replies bump the parent's reply count, which this transaction reads, so a reply
+    // arriving meanwhile makes it run again and keep the comment as a placeholder
+    async remove(launchId, commentId) {
+      const commentRef = doc(commentsRef(launchId), commentId);
+
+      await runTransaction(getDb(), async (transaction) => {
+        const commentDoc = await transaction.get(commentRef);
+        if (!commentDoc.exists()) return;
+
+        // Comments from before the reply count are checked for replies directly
+        let hasReplies = (commentDoc.data().replyCount ?? 0) > 0;
+        if (!hasReplies && commentDoc.data().replyCount === undefined) {
+          const replies = await getDocs(query(commentsRef(launchId), where('parentId', '==', commentId), limit(1)));
+          hasReplies = !replies.empty;
+        }
+
+        if (!hasReplies) {
+          transaction.delete(commentRef);
+          return;
+        }
+
+        transaction.update(commentRef, {
+          body: '',
+          deleted: true,
+          editedAt: Timestamp.now()
+        });
+      });
+    },
+
+    async toggleUpvote(launchId, commentId, userId) {
+      const commentRef = doc(commentsRef(launchId), commentId);
+      const upvoteRef = doc(getDb(), 'startups', launchId, 'commentUpvotes', commentUpvoteId(commentId, userId));
+
+      return runTransaction(getDb(), async (transaction) => {
+        const commentDoc = await transaction.get(commentRef);
+
+        if (!commentDoc.exists() || commentDoc.data().deleted) {
+          throw new Error('Comment not found');
+        }
+
+        const upvoteDoc = await transaction.get(upvoteRef);
+
+        if (upvoteDoc.exists()) {
+          transaction.delete(upvoteRef);
+          transaction.update(commentRef, { upvotes: increment(-1) });
+          return false;
+        }
+
+        transaction.set(upvoteRef, {
+          userId,
+          commentId,
+          launchId,
+          createdAt: Timestamp.now()
+        });
+        transaction.update(commentRef, { upvotes: increment(1) });
+        return true;
+      });
+    },
+
+    subscribeUserUpvotes(launchId, userId, onChange, onError) {
+      const upvotesQuery = query(collection(getDb(), 'startups', launchId, 'commentUpvotes'), where('userId', '==', userId));
+      return onSnapshot(upvotesQuery, querySnapshot => {
+        onChange(querySnapshot.docs.map(upvoteDoc => upvoteDoc.data().commentId));
+      }, onError);
+    }
+  };
+}
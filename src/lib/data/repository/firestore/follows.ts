@@ -0,0 +1,64 @@
+import { collection, query, where, orderBy, doc, onSnapshot, runTransaction, getCountFromServer, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { FollowsRepository } from '../types';
+import { getFollowNotificationId } from '../notifications';
+import { queueNotification, readActor } from './notifications';
+
+// One top-level document per follow, keyed `{followerId}_{followeeId}`, so
+// neither user's document grows with the number of people they follow
+export function createFirestoreFollows(): FollowsRepository {
+  const followsRef = collection(getDb(), 'follows');
+
+  return {
+    async toggle(followerId, followeeId) {
+      if (followerId === followeeId) {
+        throw new Error('Users cannot follow themselves');
+      }
+
+      const followRef = doc(followsRef, `${followerId}_${followeeId}`);
+      const notificationId = getFollowNotificationId(followerId);
+      const notificationRef = doc(getDb(), 'users', followeeId, 'notifications', notificationId);
+
+      return runTransaction(getDb(), async (transaction) => {
+        const followDoc = await transaction.get(followRef);
+
+        if (followDoc.exists()) {
+          transaction.delete(followRef);
+          return false;
+        }
+
+        const actor = await readActor(followerId, transaction);
+        // Following again while the first notification is still around doesn't add another
+        const isNotified = (await transaction.get(notificationRef)).exists();
+
+        transaction.set(followRef, { followerId, followeeId, createdAt: Timestamp.now() });
+        if (!isNotified) {
+          queueNotification(transaction, followeeId, {
+            ...actor,
+            type: 'follow',
+            launchId: null,
+            launchName: null,
+            launchSlug: null,
+            commentId: null
+          }, notificationId);
+        }
+        return true;
+      });
+    },
+
+    subscribeFollowing(followerId, onChange, onError) {
+      const followingQuery = query(followsRef, where('followerId', '==', followerId), orderBy('createdAt', 'desc'));
+      return onSnapshot(followingQuery, querySnapshot => {
+        onChange(querySnapshot.docs.map(followDoc => followDoc.data().followeeId));
+      }, onError);
+    },
+
+    async count(uid) {
+      const [followers, following] = await Promise.all([
+        getCountFromServer(query(followsRef, where('followeeId', '==', uid))),
+        getCountFromServer(query(followsRef, where('followerId', '==', uid)))
+      ]);
+      return { followers: followers.data().count, following: following.data().count };
+    }
+  };
+}
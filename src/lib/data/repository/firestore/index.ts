@@ -0,0 +1,44 @@
+import { LaunchRepository } from '../types';
+import { createFirestoreLaunches } from './launches';
+import { createFirestoreStartups } from './startups';
+import { createFirestoreSlugs } from './slugs';
+import { createFirestoreCategories } from './categories';
+import { createFirestoreTags } from './tags';
+import { createFirestoreComments } from './comments';
+import { createFirestoreBookmarks } from './bookmarks';
+import { createFirestoreFollows } from './follows';
+import { createFirestoreNotifications } from './notifications';
+import { createFirestoreMail } from './mail';
+import { createFirestoreNewsletter } from './newsletter';
+import { createFirestoreCollections } from './collections';
+import { createFirestoreSubmissions } from './submissions';
+import { createFirestoreUsers } from './users';
+import { createFirestoreProfiles } from './profiles';
+import { createFirestoreUsernames } from './usernames';
+import { createFirebaseAuth } from './auth';
+import { createFirebaseAssets } from './assets';
+import { createFirestoreMaintenance } from './maintenance';
+
+export function createFirestoreRepository(): LaunchRepository {
+  return {
+    launches: createFirestoreLaunches(),
+    startups: createFirestoreStartups(),
+    slugs: createFirestoreSlugs(),
+    categories: createFirestoreCategories(),
+    tags: createFirestoreTags(),
+    comments: createFirestoreComments(),
+    bookmarks: createFirestoreBookmarks(),
+    follows: createFirestoreFollows(),
+    notifications: createFirestoreNotifications(),
+    mail: createFirestoreMail(),
+    newsletter: createFirestoreNewsletter(),
+    collections: createFirestoreCollections(),
+    submissions: createFirestoreSubmissions(),
+    users: createFirestoreUsers(),
+    profiles: createFirestoreProfiles(),
+    usernames: createFirestoreUsernames(),
+    auth: createFirebaseAuth(),
+    assets: createFirebaseAssets(),
+    maintenance: createFirestoreMaintenance()
+  };
+}
@@ -0,0 +1,262 @@
+import { collection, collectionGroup, query, where, orderBy, limit, startAfter, getDocs, getCountFromServer, doc, getDoc, documentId, onSnapshot, runTransaction, increment, Timestamp, Query, QuerySnapshot } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { Launch } from '@/lib/types/launch';
+import { hasLaunched } from '@/lib/utils/launch-calendar';
+import { LaunchesRepository, LaunchFilter, RankingPeriod } from '../types';
+import { decodeCursor, encodeCursor } from '../pagination';
+import { toLaunch, toLaunchLookup } from './mappers';
+import { queueNotification, readActor } from './notifications';
+
+const periodFields: Record<Exclude<RankingPeriod, 'all-time'>, string> = {
+  daily: 'launchDay',
+  weekly: 'launchWeek',
+  monthly: 'launchMonth',
+  yearly: 'launchYear'
+};
+
+// Firestore accepts at most this many values in an 'in' filter
+const MAX_IN_VALUES = 30;
+
+function toInChunks(values: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < values.length; i += MAX_IN_VALUES) {
+    chunks.push(values.slice(i, i + MAX_IN_VALUES));
+  }
+  return chunks;
+}
+
+export function createFirestoreLaunches(): LaunchesRepository {
+  const startupsRef = collection(getDb(), 'startups');
+
+  const approvedQuery = query(startupsRef, where('status', '==', 'approved'));
+
+  const featuredQuery = query(approvedQuery, where('listingType', 'in', ['premium', 'boosted']));
+
+  const toLaunches = (querySnapshot: QuerySnapshot) =>
+    querySnapshot.docs.map(docSnapshot => toLaunch(docSnapshot.id, docSnapshot.data()));
+
+  const listApproved = async () => toLaunches(await getDocs(approvedQuery));
+
+  // Relies on the period fields written at approval; see maintenance.backfillLaunchPeriods
+  const filterQuery = ({ week, listingType, category, tag }: LaunchFilter) => {
+    let q = approvedQuery;
+    if (week) {
+      q = query(q, where('launchWeek', '==', week));
+    }
+    if (listingType) {
+      q = query(q, where('listingType', '==', listingType));
+    }
+    if (category) {
+      q = query(q, where('category', '==', category));
+    }
+    if (tag) {
+      q = query(q, where('tags', 'array-contains', tag));
+    }
+    return q;
+  };
+
+  // Reads one more document than requested to learn whether another page exists
+  // Pages skip launches whose launch date is still ahead; cursors still move past them, so a
+  // page can come back short. Sorting by anything but the launch date rules out a query filter.
+  const live = (launches: Launch[]) => launches.filter(launch => hasLaunched(launch.launchDate));
+
+  const readPage = async (q: Query, pageSize: number) => {
+    const querySnapshot = await getDocs(query(q, limit(pageSize + 1)));
+    const launches = toLaunches(querySnapshot).slice(0, pageSize);
+    return { launches, hasMore: querySnapshot.size > pageSize };
+  };
+
+  return {
+    listApproved,
+
+    async listByIds(ids) {
+      const snapshots = await Promise.all(toInChunks(ids).map(chunk =>
+        getDocs(query(approvedQuery, where(documentId(), 'in', chunk)))
+      ));
+      const launches = new Map(snapshots.flatMap(toLaunches).map(launch => [launch.id, launch]));
+      return ids.flatMap(id => launches.get(id) ?? []);
+    },
+
+    // Sorted here rather than in the query so it needs no extra index
+    async listByMaker(userId) {
+      const launches = toLaunches(await getDocs(query(approvedQuery, where('userId', '==', userId))));
+      return launches.sort((a, b) => new Date(b.launchDate).getTime() - new Date(a.launchDate).getTime());
+    },
+
+    // One query per chunk of makers, each already limited, then merged
+    async listRecentByMakers(userIds, count) {
+      const snapshots = await Promise.all(toInChunks(userIds).map(chunk => getDocs(query(
+        approvedQuery,
+        where('userId', 'in', chunk),
+        where('scheduledLaunchDate', '<=', Timestamp.now()),
+        orderBy('scheduledLaunchDate', 'desc'),
+        limit(count)
+      ))));
+      return snapshots.flatMap(toLaunches)
+        .sort((a, b) => new Date(b.launchDate).getTime() - new Date(a.launchDate).getTime())
+        .slice(0, count);
+    },
+
+    async getById(id) {
+      return toLaunchLookup(await getDoc(doc(getDb(), 'startups', id)));
+    },
+
+    async getFirstLaunchDate() {
+      const querySnapshot = await getDocs(query(approvedQuery, orderBy('scheduledLaunchDate', 'asc'), limit(1)));
+      const first = querySnapshot.docs[0];
+      return first ? first.data().scheduledLaunchDate.toDate() : null;
+    },
+
+    async listTop({ period, periodKey, category, limit: count }) {
+      let q = approvedQuery;
+
+      if (period !== 'all-time' && periodKey) {
+        q = query(q, where(periodFields[period], '==', periodKey));
+      }
+
+      if (category) {
+        q = query(q, where('category', '==', category));
+      }
+
+      return live(toLaunches(await getDocs(query(q, orderBy('upvotes', 'desc'), limit(count)))));
+    },
+
+    async listPage({ order, wrapFrom = '', cursor, limit: pageSize, ...filter }) {
+      const base = filterQuery(filter);
+
+      if (order === 'upvotes') {
+        const after = decodeCursor(cursor, 'upvotes');
+        const ranked = query(base, orderBy('upvotes', 'desc'), orderBy(documentId(), 'desc'));
+        const { launches, hasMore } = await readPage(
+          after ? query(ranked, startAfter(after.upvotes, after.id)) : ranked,
+          pageSize
+        );
+        const last = launches[launches.length - 1];
+        return {
+          launches: live(launches),
+          nextCursor: hasMore ? encodeCursor({ order: 'upvotes', upvotes: last.upvotes || 0, id: last.id }) : null
+        };
+      }
+
+      if (order === 'newest') {
+        const after = decodeCursor(cursor, 'newest');
+        const latest = query(base, orderBy('scheduledLaunchDate', 'desc'), orderBy(documentId(), 'desc'));
+        const { launches, hasMore } = await readPage(
+          after ? query(latest, startAfter(Timestamp.fromMillis(after.launchDate), after.id)) : latest,
+          pageSize
+        );
+        const last = launches[launches.length - 1];
+        return {
+          launches: live(launches),
+          nextCursor: hasMore
+            ? encodeCursor({ order: 'newest', launchDate: new Date(last.launchDate).getTime(), id: last.id })
+            : null
+        };
+      }
+
+      // First walk ids from `wrapFrom` to the end, then wrap around to the ids before it
+      const after = decodeCursor(cursor, 'id');
+      const launches: Launch[] = [];
+      let wrapped = after?.wrapped ?? false;
+      let lastId = after?.id ?? '';
+      let hasMore = false;
+
+      const readIds = async (range: Query) => {
+        const ordered = query(range, orderBy(documentId()));
+        const page = await readPage(lastId ? query(ordered, startAfter(lastId)) : ordered, pageSize - launches.length);
+        launches.push(...page.launches);
+        lastId = page.launches.length ? page.launches[page.launches.length - 1].id : lastId;
+        hasMore = page.hasMore;
+      };
+
+      if (!wrapped) {
+        await readIds(wrapFrom ? query(base, where(documentId(), '>=', wrapFrom)) : base);
+        if (!hasMore) {
+          wrapped = true;
+          lastId = '';
+        }
+      }
+
+      // Also probes for a next page when the head filled this one exactly
+      if (wrapped && wrapFrom) {
+        await readIds(query(base, where(documentId(), '<', wrapFrom)));
+      }
+
+      return {
+        launches: live(launches),
+        nextCursor: hasMore ? encodeCursor({ order: 'id', wrapped, id: lastId }) : null
+      };
+    },
+
+    async count(filter) {
+      const snapshot = await getCountFromServer(query(filterQuery(filter), where('scheduledLaunchDate', '<=', Timestamp.now())));
+      return snapshot.data().count;
+    },
+
+    subscribeFeatured(onChange, onError) {
+      return onSnapshot(featuredQuery, querySnapshot => onChange(toLaunches(querySnapshot)), onError);
+    },
+
+    subscribeById(id, onChange, onError) {
+      return onSnapshot(doc(getDb(), 'startups', id), snapshot => {
+        onChange(toLaunchLookup(snapshot));
+      }, onError);
+    },
+
+    // The vote document and the counter change in one transaction, so concurrent
+    // votes cannot drift. A single counter field comfortably handles our vote rate;
+    // switch to sharded counters if a launch ever needs more than ~1 write/second.
+    async toggleUpvote(launchId, userId) {
+      const startupRef = doc(getDb(), 'startups', launchId);
+      const voteRef = doc(getDb(), 'startups', launchId, 'votes', userId);
+
+      return runTransaction(getDb(), async (transaction) => {
+        const startupDoc = await transaction.get(startupRef);
+
+        if (!startupDoc.exists()) {
+          throw new Error('Launch not found');
+        }
+
+        const voteDoc = await transaction.get(voteRef);
+
+        if (voteDoc.exists()) {
+          // Remove upvote
+          transaction.delete(voteRef);
+          transaction.update(startupRef, { upvotes: increment(-1) });
+          return false;
+        }
+
+        // Add upvote
+        const startup = startupDoc.data();
+        const actor = await readActor(userId, transaction);
+        transaction.set(voteRef, {
+          userId,
+          launchId,
+          createdAt: Timestamp.now()
+        });
+        transaction.update(startupRef, { upvotes: increment(1) });
+        queueNotification(transaction, startup.userId, {
+          ...actor,
+          type: 'upvote',
+          launchId,
+          launchName: startup.name,
+          launchSlug: startup.slug || null,
+          commentId: null
+        });
+        return true;
+      });
+    },
+
+    subscribeUserVotes(userId, onChange, onError) {
+      const votesQuery = query(collectionGroup(getDb(), 'votes'), where('userId', '==', userId));
+      return onSnapshot(votesQuery, querySnapshot => {
+        onChange(querySnapshot.docs.map(voteDoc => voteDoc.data().launchId));
+      }, onError);
+    },
+
+    async countUpvotes() {
+      const launches = await listApproved();
+      return launches.reduce((sum, launch) => sum + (launch.upvotes || 0), 0);
+    }
+  };
+}
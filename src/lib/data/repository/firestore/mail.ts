@@ -0,0 +1,42 @@
+import { collection, addDoc, doc, runTransaction, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { MailRepository, NewMail } from '../types';
+import { createBatchQueue } from './batch';
+
+export function toMailFields({ sendAt, ...mail }: NewMail) {
+  return {
+    ...mail,
+    sendAt: Timestamp.fromDate(sendAt),
+    delivery: { state: 'PENDING', attempts: 0 },
+    createdAt: Timestamp.now()
+  };
+}
+
+// `mail` documents are delivered by the mail worker (scripts/mail-worker.ts), which
+// moves `delivery.state` from PENDING to SENT, SKIPPED or ERROR
+export function createFirestoreMail(): MailRepository {
+  const mailRef = collection(getDb(), 'mail');
+
+  return {
+    async enqueue(mail, id) {
+      if (!id) {
+        const mailDoc = await addDoc(mailRef, toMailFields(mail));
+        return mailDoc.id;
+      }
+
+      const mailDoc = doc(mailRef, id);
+      await runTransaction(getDb(), async (transaction) => {
+        if ((await transaction.get(mailDoc)).exists()) return;
+        transaction.set(mailDoc, toMailFields(mail));
+      });
+      return id;
+    },
+
+    async enqueueAll(mails) {
+      const batches = createBatchQueue();
+      mails.forEach(mail => batches.queue(batch => batch.set(doc(mailRef), toMailFields(mail))));
+      await batches.commit();
+      return mails.length;
+    }
+  };
+}
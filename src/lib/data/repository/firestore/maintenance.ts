@@ -0,0 +1,125 @@
+import { collection, query, where, getDocs, getDoc, doc, setDoc, runTransaction, deleteField, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { MaintenanceRepository } from '../types';
+import { toCategoryFields, toLaunchPeriodFields, toPublicProfileFields } from './mappers';
+import { claimSlug } from './slugs';
+import { createBatchQueue } from './batch';
+
+export function createFirestoreMaintenance(): MaintenanceRepository {
+  return {
+    // One transaction per startup, so votes cast meanwhile are counted rather than overwritten
+    async migrateLegacyUpvotes() {
+      const querySnapshot = await getDocs(collection(getDb(), 'startups'));
+      let launches = 0;
+      let votes = 0;
+
+      for (const startupDoc of querySnapshot.docs) {
+        if (!Array.isArray(startupDoc.data().upvotedBy)) continue;
+
+        const migrated = await runTransaction(getDb(), async (transaction) => {
+          const current = await transaction.get(startupDoc.ref);
+          const upvotedBy: unknown = current.data()?.upvotedBy;
+          if (!Array.isArray(upvotedBy)) return null;
+
+          // Votes cast since the deploy only exist as documents. A vote landing after this
+          // read also updates the startup, which makes the transaction run again.
+          const voteDocs = await getDocs(collection(startupDoc.ref, 'votes'));
+          const voters = new Set(voteDocs.docs.map(voteDoc => voteDoc.id));
+          const legacyVoters = Array.from(new Set(upvotedBy.filter((uid): uid is string => typeof uid === 'string')))
+            .filter(userId => !voters.has(userId));
+
+          legacyVoters.forEach(userId => {
+            transaction.set(doc(startupDoc.ref, 'votes', userId), {
+              userId,
+              launchId: startupDoc.id,
+              createdAt: Timestamp.now()
+            });
+          });
+
+          // Both kinds of vote together are the source of truth, so the counter is rebuilt from them
+          transaction.update(startupDoc.ref, {
+            upvotes: voters.size + legacyVoters.length,
+            upvotedBy: deleteField()
+          });
+          return legacyVoters.length;
+        });
+
+        if (migrated === null) continue;
+        launches++;
+        votes += migrated;
+      }
+
+      return { launches, votes };
+    },
+
+    async backfillLaunchPeriods() {
+      const querySnapshot = await getDocs(query(collection(getDb(), 'startups'), where('status', '==', 'approved')));
+      const { queue, commit } = createBatchQueue();
+      let updated = 0;
+
+      querySnapshot.docs.forEach(startupDoc => {
+        const data = startupDoc.data();
+        if (!data.scheduledLaunchDate) return;
+
+        const fields = toLaunchPeriodFields(data.scheduledLaunchDate.toDate());
+        const isCurrent = Object.entries(fields).every(([key, value]) => data[key] === value);
+        if (isCurrent) return;
+
+        queue(current => current.update(startupDoc.ref, fields));
+        updated++;
+      });
+
+      await commit();
+      return updated;
+    },
+
+    // One transaction per startup, since each slug has to be claimed atomically
+    async backfillSlugs() {
+      const querySnapshot = await getDocs(collection(getDb(), 'startups'));
+      let updated = 0;
+
+      for (const startupDoc of querySnapshot.docs) {
+        if (startupDoc.data().slug) continue;
+
+        const claimed = await runTransaction(getDb(), async (transaction) => {
+          const current = await transaction.get(startupDoc.ref);
+          if (!current.exists() || current.data().slug) return false;
+
+          const slug = await claimSlug(transaction, startupDoc.id, current.data().name);
+          transaction.update(startupDoc.ref, { slug });
+          return true;
+        });
+
+        if (claimed) updated++;
+      }
+
+      return updated;
+    },
+
+    async seedCategories(categories) {
+      let created = 0;
+
+      for (const category of categories) {
+        const categoryRef = doc(getDb(), 'categories', category.id);
+        if ((await getDoc(categoryRef)).exists()) continue;
+
+        await setDoc(categoryRef, { ...toCategoryFields(category), createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+        created++;
+      }
+
+      return created;
+    },
+
+    async backfillProfiles() {
+      const querySnapshot = await getDocs(collection(getDb(), 'users'));
+      const { queue, commit } = createBatchQueue();
+
+      querySnapshot.docs.forEach(userDoc => {
+        queue(current => current.set(doc(getDb(), 'profiles', userDoc.id), toPublicProfileFields(userDoc.data()), { merge: true }));
+      });
+
+      await commit();
+      return querySnapshot.size;
+    }
+  };
+}
@@ -0,0 +1,246 @@
+import { DocumentData, DocumentSnapshot } from 'firebase/firestore';
+import { launchCalendar, formatLaunchMonth, hasLaunched } from '@/lib/utils/launch-calendar';
+import { Launch, LaunchLookup } from '@/lib/types/launch';
+import { LaunchComment } from '@/lib/types/comment';
+import { AppNotification } from '@/lib/types/notification';
+import { Category, LaunchCollection, NewsletterSubscriber, PublicProfile, SentDigest, Startup, SubmittedStartup, TagRecord, UserProfile } from '@/lib/types';
+
+// Convert a `startups` document into the shape used by the launch list
+export function toLaunch(id: string, data: DocumentData): Launch {
+  return {
+    id,
+    slug: data.slug || id,
+    name: data.name,
+    logo: data.logoUrl,
+    description: data.description,
+    launchDate: data.scheduledLaunchDate.toDate().toISOString(),
+    website: data.url,
+    userId: data.userId,
+    category: data.category || '',
+    tags: data.tags || [],
+    listingType: data.listingType || 'regular',
+    doFollowBacklink: data.doFollowBacklink || false,
+    upvotes: data.upvotes || 0,
+    updatedAt: data.updatedAt?.toDate().toISOString()
+  };
+}
+
+export function toLaunchLookup(snapshot: DocumentSnapshot): LaunchLookup {
+  if (!snapshot.exists()) {
+    return { status: 'not-found' };
+  }
+
+  const data = snapshot.data();
+  switch (data.status) {
+    case 'approved':
+      return hasLaunched(data.scheduledLaunchDate.toDate())
+        ? { status: 'approved', launch: toLaunch(snapshot.id, data) }
+        : { status: 'scheduled' };
+    case 'rejected':
+      return { status: 'rejected' };
+    default:
+      return { status: 'pending' };
+  }
+}
+
+// Convert an approved `startups` document into the full startup profile
+export function toStartup(id: string, data: DocumentData): Startup {
+  const launchDate: Date = data.scheduledLaunchDate.toDate();
+  const metrics = data.metrics || {};
+  const mrr = metrics.mrr || 0;
+
+  return {
+    id,
+    slug: data.slug || id,
+    name: data.name,
+    logo: data.logoUrl,
+    cardImage: data.logoUrl,
+    shortDescription: data.description,
+    mrr,
+    category: data.category || '',
+    tags: data.tags || [],
+    foundedDate: data.foundedDate || '',
+    location: data.location || '',
+    website: data.url,
+    longDescription: data.longDescription || data.description,
+    isVerified: data.isVerified || false,
+    metrics: {
+      mrr,
+      launchedIn: formatLaunchMonth(launchDate),
+      founders: metrics.founders || '',
+      funding: metrics.funding || '',
+      monetisation: metrics.monetisation || '',
+      commitment: metrics.commitment || ''
+    },
+    // Older submissions only have the single social handle field
+    socialLinks: data.socialLinks || { twitter: data.socialHandle },
+    submissionDetails: {
+      submittedAt: data.createdAt.toDate(),
+      scheduledLaunchDate: launchDate,
+      status: launchDate <= new Date() ? 'launched' : 'approved'
+    }
+  };
+}
+
+// Period keys stored on approved startups so leaderboards can filter by equality
+// and order by upvotes in a single indexed query
+export function toLaunchPeriodFields(launchDate: Date) {
+  const periods = launchCalendar.getPeriods(launchDate);
+  return {
+    launchDay: periods.day,
+    launchWeek: periods.week,
+    launchMonth: periods.month,
+    launchYear: periods.year
+  };
+}
+
+// Convert a `startups` document into the shape used by profile and admin screens
+export function toSubmission(id: string, data: DocumentData): SubmittedStartup {
+  return {
+    id,
+    slug: data.slug,
+    name: data.name,
+    url: data.url,
+    socialHandle: data.socialHandle,
+    description: data.description,
+    logoUrl: data.logoUrl,
+    userId: data.userId,
+    submittedAt: data.createdAt.toDate(),
+    scheduledLaunchDate: data.scheduledLaunchDate?.toDate(),
+    status: data.status,
+    category: data.category,
+    tags: data.tags || [],
+    listingType: data.listingType,
+    doFollowBacklink: data.doFollowBacklink
+  };
+}
+
+export function toUserProfile(data: DocumentData): UserProfile {
+  return {
+    displayName: data.displayName || '',
+    username: data.username || '',
+    email: data.email || '',
+    bio: data.bio,
+    avatarUrl: data.avatarUrl,
+    showUpvotes: data.showUpvotes || false,
+    emailPreferences: data.emailPreferences || {},
+    createdAt: data.createdAt?.toDate(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+}
+
+// Fields mirrored to the world-readable `profiles` document; anything else stays private
+const publicProfileKeys = ['displayName', 'username', 'bio', 'avatarUrl', 'showUpvotes', 'createdAt', 'updatedAt'] as const;
+
+export function toPublicProfileFields(profile: Partial<UserProfile>): DocumentData {
+  return Object.fromEntries(publicProfileKeys
+    .filter(key => profile[key] !== undefined)
+    .map(key => [key, profile[key]]));
+}
+
+export function toPublicProfile(uid: string, data: DocumentData): PublicProfile {
+  return {
+    uid,
+    displayName: data.displayName || '',
+    username: data.username || '',
+    bio: data.bio,
+    avatarUrl: data.avatarUrl,
+    showUpvotes: data.showUpvotes || false,
+    createdAt: data.createdAt?.toDate()
+  };
+}
+
+export function toCategory(id: string, data: DocumentData): Category {
+  return {
+    id,
+    slug: data.slug || id,
+    name: data.name,
+    description: data.description || '',
+    icon: data.icon || 'tag',
+    archived: data.archived || false,
+    mergedInto: data.mergedInto || undefined,
+    aliases: data.aliases || [],
+    updatedAt: data.updatedAt?.toDate()
+  };
+}
+
+// Fields of a `categories` document; the id is the document id
+export function toCategoryFields({ slug, name, description, icon, archived, mergedInto, aliases }: Category) {
+  return { slug, name, description, icon, archived, mergedInto: mergedInto || null, aliases };
+}
+
+export function toTagRecord(tag: string, data: DocumentData): TagRecord {
+  return {
+    tag,
+    curated: data.curated || false,
+    banned: data.banned || false,
+    mergedInto: data.mergedInto || undefined
+  };
+}
+
+// Convert a `startups/{launchId}/comments` document
+export function toComment(id: string, data: DocumentData): LaunchComment {
+  return {
+    id,
+    launchId: data.launchId,
+    parentId: data.parentId || null,
+    authorId: data.authorId,
+    authorName: data.authorName || '',
+    authorUsername: data.authorUsername || null,
+    authorAvatarUrl: data.authorAvatarUrl || null,
+    byMaker: data.byMaker || false,
+    body: data.body || '',
+    upvotes: data.upvotes || 0,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    editedAt: data.editedAt?.toDate() || null,
+    deleted: data.deleted || false
+  };
+}
+
+export function toNotification(id: string, data: DocumentData): AppNotification {
+  return {
+    id,
+    type: data.type,
+    actorId: data.actorId || null,
+    actorName: data.actorName || null,
+    actorUsername: data.actorUsername || null,
+    launchId: data.launchId || null,
+    launchName: data.launchName || null,
+    launchSlug: data.launchSlug || null,
+    commentId: data.commentId || null,
+    read: data.read || false,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+}
+
+export function toCollection(id: string, data: DocumentData): LaunchCollection {
+  return {
+    id,
+    ownerId: data.ownerId,
+    name: data.name,
+    slug: data.slug,
+    description: data.description || '',
+    isPublic: data.isPublic || false,
+    launchIds: data.launchIds || [],
+    position: data.position || 0,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+}
+
+export function toSubscriber(id: string, data: DocumentData): NewsletterSubscriber {
+  return {
+    id,
+    email: data.email,
+    confirmedAt: data.confirmedAt?.toDate() || null,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+}
+
+export function toSentDigest(weekId: string, data: DocumentData): SentDigest {
+  return {
+    weekId,
+    sentAt: data.sentAt?.toDate() || new Date(),
+    recipients: data.recipients || 0
+  };
+}
@@ -0,0 +1,81 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, serverTimestamp, setDoc, updateDoc, writeBatch, Timestamp } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { getDb } from '@/lib/firebase';
+import { NewsletterRepository } from '../types';
+import { isConfirmationExpired } from '../newsletter';
+import { toMailFields } from './mail';
+import { toSentDigest, toSubscriber } from './mappers';
+
+// Each subscription is a `subscribers/{id}` document with a random id that only the
+// subscriber learns, through the unsubscribe link. A `newsletterEmails/{email}` document
+// points at it, so an address can only be subscribed once; the rules only allow the two
+// to be created and deleted together, and the confirmation email only in the same write.
+// The registry can't be read while its subscription is live, which keeps the id secret
+// and tells a subscribed address apart from other failures.
+export function createFirestoreNewsletter(): NewsletterRepository {
+  const subscribersRef = collection(getDb(), 'subscribers');
+
+  return {
+    async subscribe(email, confirmation) {
+      const emailRef = doc(getDb(), 'newsletterEmails', email);
+      let expiredId: string | null = null;
+      try {
+        const emailDoc = await getDoc(emailRef);
+        expiredId = emailDoc.exists() ? emailDoc.data().subscriberId : null;
+      } catch (error) {
+        if (error instanceof FirebaseError && error.code === 'permission-denied') return false;
+        throw error;
+      }
+
+      const subscriberRef = doc(subscribersRef);
+      const batch = writeBatch(getDb());
+      // The rules time confirmation links from the server's clock
+      batch.set(subscriberRef, { email, confirmedAt: null, createdAt: serverTimestamp() });
+      batch.set(emailRef, { subscriberId: subscriberRef.id });
+      batch.set(doc(collection(getDb(), 'mail')), toMailFields(confirmation(subscriberRef.id)));
+      if (expiredId) batch.delete(doc(subscribersRef, expiredId));
+      await batch.commit();
+      return true;
+    },
+
+    async confirm(subscriberId) {
+      const subscriberRef = doc(subscribersRef, subscriberId);
+      const subscriberDoc = await getDoc(subscriberRef);
+      if (!subscriberDoc.exists()) return false;
+
+      // Subscriptions from before confirmation existed have no `confirmedAt` and count as confirmed
+      const subscriber = subscriberDoc.data();
+      if (subscriber.confirmedAt !== null) return true;
+      if (isConfirmationExpired(toSubscriber(subscriberDoc.id, subscriber))) return false;
+
+      await updateDoc(subscriberRef, { confirmedAt: Timestamp.now() });
+      return true;
+    },
+
+    async unsubscribe(subscriberId) {
+      const subscriberRef = doc(subscribersRef, subscriberId);
+      const subscriberDoc = await getDoc(subscriberRef);
+      if (!subscriberDoc.exists()) return false;
+
+      const batch = writeBatch(getDb());
+      batch.delete(subscriberRef);
+      batch.delete(doc(getDb(), 'newsletterEmails', subscriberDoc.data().email));
+      await batch.commit();
+      return true;
+    },
+
+    async listSubscribers() {
+      const snapshot = await getDocs(query(subscribersRef, orderBy('createdAt')));
+      return snapshot.docs.map(subscriberDoc => toSubscriber(subscriberDoc.id, subscriberDoc.data()));
+    },
+
+    async getSentDigest(weekId) {
+      const digestDoc = await getDoc(doc(getDb(), 'digests', weekId));
+      return digestDoc.exists() ? toSentDigest(weekId, digestDoc.data()) : null;
+    },
+
+    async recordDigestSent(weekId, recipients) {
+      await setDoc(doc(getDb(), 'digests', weekId), { sentAt: Timestamp.now(), recipients });
+    }
+  };
+}
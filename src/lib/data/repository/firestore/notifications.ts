@@ -0,0 +1,59 @@
+import { collection, query, orderBy, limit as limitTo, doc, getDoc, onSnapshot, Timestamp, DocumentData, DocumentReference, Transaction } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { NewNotification, NotificationsRepository } from '../types';
+import { createBatchQueue } from './batch';
+import { toNotification } from './mappers';
+
+// Anything notifications can be written with: a transaction or a write batch
+interface NotificationWriter {
+  set(documentRef: DocumentReference, data: DocumentData): unknown;
+}
+
+type Actor = Pick<NewNotification, 'actorId' | 'actorName' | 'actorUsername'>;
+
+const notificationsRef = (uid: string) => collection(getDb(), 'users', uid, 'notifications');
+
+// Reads the actor's name from their public profile; inside a transaction this has
+// to happen before any of its writes
+export async function readActor(uid: string, transaction?: Transaction): Promise<Actor> {
+  const profileRef = doc(getDb(), 'profiles', uid);
+  const profileDoc = transaction ? await transaction.get(profileRef) : await getDoc(profileRef);
+  const profile = profileDoc.data();
+  return {
+    actorId: uid,
+    actorName: profile?.displayName || profile?.username || null,
+    actorUsername: profile?.username || null
+  };
+}
+
+// Adds the notification to a pending write, so it is stored together with what it announces.
+// Without an id it gets a random one.
+export function queueNotification(writer: NotificationWriter, recipientId: string, notification: NewNotification, id?: string) {
+  if (notification.actorId === recipientId) return;
+
+  const notificationRef = id ? doc(notificationsRef(recipientId), id) : doc(notificationsRef(recipientId));
+  writer.set(notificationRef, {
+    ...notification,
+    read: false,
+    createdAt: Timestamp.now()
+  });
+}
+
+export function createFirestoreNotifications(): NotificationsRepository {
+  return {
+    subscribe(uid, limit, onChange, onError) {
+      const latestQuery = query(notificationsRef(uid), orderBy('createdAt', 'desc'), limitTo(limit));
+      return onSnapshot(latestQuery, querySnapshot => {
+        onChange(querySnapshot.docs.map(notificationDoc => toNotification(notificationDoc.id, notificationDoc.data())));
+      }, onError);
+    },
+
+    async markRead(uid, notificationIds) {
+      const { queue, commit } = createBatchQueue();
+      notificationIds.forEach(id => {
+        queue(batch => batch.update(doc(notificationsRef(uid), id), { read: true }));
+      });
+      await commit();
+    }
+  };
+}
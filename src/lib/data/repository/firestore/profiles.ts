@@ -0,0 +1,25 @@
+import { collectionGroup, query, where, orderBy, limit, getDocs, doc, getDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { ProfilesRepository } from '../types';
+import { toPublicProfile } from './mappers';
+
+export function createFirestoreProfiles(): ProfilesRepository {
+  return {
+    async get(uid) {
+      const profileDoc = await getDoc(doc(getDb(), 'profiles', uid));
+      return profileDoc.exists() ? toPublicProfile(uid, profileDoc.data()) : null;
+    },
+
+    // The rules only let others read the votes of users who opted in
+    async listUpvotedLaunchIds(uid, count) {
+      const votesQuery = query(
+        collectionGroup(getDb(), 'votes'),
+        where('userId', '==', uid),
+        orderBy('createdAt', 'desc'),
+        limit(count)
+      );
+      const querySnapshot = await getDocs(votesQuery);
+      return querySnapshot.docs.map(voteDoc => voteDoc.data().launchId);
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { doc, getDoc, Timestamp, Transaction } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { slugCandidates } from '@/lib/utils/slugs';
+import { SlugsRepository } from '../types';
+
+// Reserves the first free slug for `name` in `slugs/{slug}`. Only reads until it
+// writes, so callers must do their own reads first. Slug documents are never
+// deleted, which is what keeps old slugs working as aliases after a rename.
+export async function claimSlug(transaction: Transaction, launchId: string, name: string): Promise<string> {
+  for (const candidate of slugCandidates(name)) {
+    const slugRef = doc(getDb(), 'slugs', candidate);
+    const slugDoc = await transaction.get(slugRef);
+
+    if (!slugDoc.exists()) {
+      transaction.set(slugRef, { launchId, createdAt: Timestamp.now() });
+      return candidate;
+    }
+
+    // Renaming back to an earlier name reuses that alias
+    if (slugDoc.data().launchId === launchId) {
+      return candidate;
+    }
+  }
+
+  throw new Error(`No free slug for "${name}"`);
+}
+
+export function createFirestoreSlugs(): SlugsRepository {
+  return {
+    async resolve(slugOrId) {
+      const slugDoc = await getDoc(doc(getDb(), 'slugs', slugOrId.toLowerCase()));
+      const launchId: string = slugDoc.exists() ? slugDoc.data().launchId : slugOrId;
+
+      const startupDoc = await getDoc(doc(getDb(), 'startups', launchId));
+      if (!startupDoc.exists()) return null;
+
+      return { launchId, slug: startupDoc.data().slug || launchId };
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { doc, getDoc, runTransaction, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { StartupsRepository } from '../types';
+import { toStartup } from './mappers';
+import { claimSlug } from './slugs';
+
+export function createFirestoreStartups(): StartupsRepository {
+  return {
+    async get(id) {
+      const startupDoc = await getDoc(doc(getDb(), 'startups', id));
+      const data = startupDoc.data();
+      return data?.status === 'approved' ? toStartup(startupDoc.id, data) : null;
+    },
+
+    async rename(id, name) {
+      const startupRef = doc(getDb(), 'startups', id);
+
+      return runTransaction(getDb(), async (transaction) => {
+        const startupDoc = await transaction.get(startupRef);
+        if (!startupDoc.exists()) {
+          throw new Error('Startup not found');
+        }
+
+        const slug = await claimSlug(transaction, id, name);
+        transaction.update(startupRef, { name, slug, updatedAt: Timestamp.now() });
+        return slug;
+      });
+    }
+  };
+}
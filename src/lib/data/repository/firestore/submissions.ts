@@ -0,0 +1,92 @@
+import { collection, query, where, getDocs, doc, runTransaction, Timestamp, getCountFromServer } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { resolveTags } from '@/lib/utils/tags';
+import { SubmissionsRepository, SubmissionStatus } from '../types';
+import { toSubmission, toLaunchPeriodFields } from './mappers';
+import { claimSlug } from './slugs';
+import { listTagRecords } from './tags';
+import { queueNotification } from './notifications';
+
+export function createFirestoreSubmissions(): SubmissionsRepository {
+  const startupsRef = collection(getDb(), 'startups');
+
+  // Stores the review and lets the maker know about it in the same transaction
+  const review = (id: string, status: Exclude<SubmissionStatus, 'pending'>, fields: Record<string, unknown>) =>
+    runTransaction(getDb(), async (transaction) => {
+      const startupRef = doc(startupsRef, id);
+      const startupDoc = await transaction.get(startupRef);
+      if (!startupDoc.exists()) {
+        throw new Error('Submission not found');
+      }
+
+      const startup = startupDoc.data();
+      transaction.update(startupRef, { ...fields, status, updatedAt: Timestamp.now() });
+      queueNotification(transaction, startup.userId, {
+        type: status,
+        actorId: null,
+        actorName: null,
+        actorUsername: null,
+        launchId: id,
+        launchName: startup.name,
+        launchSlug: startup.slug || null,
+        commentId: null
+      });
+    });
+
+  return {
+    async list({ userId, status }) {
+      let q = query(startupsRef);
+
+      if (userId) {
+        q = query(q, where('userId', '==', userId));
+      }
+
+      if (status) {
+        q = query(q, where('status', '==', status));
+      }
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnapshot => toSubmission(docSnapshot.id, docSnapshot.data()));
+    },
+
+    async create({ details, tags, ...submission }) {
+      const startupRef = doc(startupsRef);
+      const resolvedTags = resolveTags(tags, await listTagRecords());
+
+      await runTransaction(getDb(), async (transaction) => {
+        const slug = await claimSlug(transaction, startupRef.id, submission.name);
+
+        // Details are stored as top-level fields, matching the Startup model
+        transaction.set(startupRef, {
+          ...submission,
+          ...details,
+          tags: resolvedTags,
+          slug,
+          status: 'pending', // Always set initial status as pending
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now()
+        });
+      });
+
+      return startupRef.id;
+    },
+
+    async approve(id, { listingType, doFollowBacklink, scheduledLaunchDate }) {
+      await review(id, 'approved', {
+        listingType,
+        doFollowBacklink,
+        scheduledLaunchDate: Timestamp.fromDate(scheduledLaunchDate),
+        ...toLaunchPeriodFields(scheduledLaunchDate)
+      });
+    },
+
+    async reject(id) {
+      await review(id, 'rejected', {});
+    },
+
+    async count() {
+      const snapshot = await getCountFromServer(startupsRef);
+      return snapshot.data().count;
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import { collection, query, where, getDocs, doc, setDoc, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { TagRecord } from '@/lib/types';
+import { TagsRepository } from '../types';
+import { toTagRecord } from './mappers';
+import { createBatchQueue } from './batch';
+
+// The registry only holds tags an admin acted on, so it is read in full
+export async function listTagRecords(): Promise<TagRecord[]> {
+  const querySnapshot = await getDocs(collection(getDb(), 'tags'));
+  return querySnapshot.docs.map(tagDoc => toTagRecord(tagDoc.id, tagDoc.data()));
+}
+
+export function createFirestoreTags(): TagsRepository {
+  const saveRecord = (tag: string, fields: Partial<Omit<TagRecord, 'tag'>>) =>
+    setDoc(doc(getDb(), 'tags', tag), { ...fields, updatedAt: Timestamp.now() }, { merge: true });
+
+  // Rewrites the tags of every startup carrying `tag`; returns how many changed
+  const rewriteStartups = async (tag: string, rewrite: (tags: string[]) => string[]) => {
+    const startups = await getDocs(query(collection(getDb(), 'startups'), where('tags', 'array-contains', tag)));
+    const { queue, commit } = createBatchQueue();
+
+    startups.docs.forEach(startupDoc => {
+      const tags = rewrite(startupDoc.data().tags);
+      queue(current => current.update(startupDoc.ref, { tags, updatedAt: Timestamp.now() }));
+    });
+
+    await commit();
+    return startups.size;
+  };
+
+  return {
+    list: listTagRecords,
+
+    async setCurated(tag, curated) {
+      await saveRecord(tag, { curated });
+    },
+
+    async ban(tag) {
+      await saveRecord(tag, { banned: true, curated: false });
+      return rewriteStartups(tag, tags => tags.filter(current => current !== tag));
+    },
+
+    async unban(tag) {
+      await saveRecord(tag, { banned: false });
+    },
+
+    async merge(sourceTag, targetTag) {
+      if (sourceTag === targetTag) {
+        throw new Error('Cannot merge a tag into itself');
+      }
+
+      const target = (await listTagRecords()).find(record => record.tag === targetTag);
+      if (target?.banned || target?.mergedInto) {
+        throw new Error('Cannot merge into a banned or merged tag');
+      }
+
+      await saveRecord(sourceTag, { mergedInto: targetTag, curated: false });
+      return rewriteStartups(sourceTag, tags =>
+        Array.from(new Set(tags.map(current => current === sourceTag ? targetTag : current)))
+      );
+    }
+  };
+}
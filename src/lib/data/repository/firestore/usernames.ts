@@ -0,0 +1,18 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { UsernamesRepository } from '../types';
+
+export function createFirestoreUsernames(): UsernamesRepository {
+  return {
+    async get(username) {
+      const usernameDoc = await getDoc(doc(getDb(), 'usernames', username.toLowerCase()));
+      if (!usernameDoc.exists()) return null;
+
+      const data = usernameDoc.data();
+      return {
+        uid: data.uid ?? null,
+        username: data.username ?? null
+      };
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { collection, query, where, getDocs, doc, getDoc, runTransaction, getCountFromServer } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { UsersRepository } from '../types';
+import { toPublicProfileFields, toUserProfile } from './mappers';
+
+export function createFirestoreUsers(): UsersRepository {
+  return {
+    async get(uid) {
+      const userDoc = await getDoc(doc(getDb(), 'users', uid));
+      return userDoc.exists() ? toUserProfile(userDoc.data()) : null;
+    },
+
+    async save(uid, profile) {
+      await runTransaction(getDb(), async (transaction) => {
+        const userRef = doc(getDb(), 'users', uid);
+
+        if (profile.username) {
+          const username = profile.username.toLowerCase();
+          const claimRef = doc(getDb(), 'usernames', username);
+          const [userDoc, claimDoc] = await Promise.all([transaction.get(userRef), transaction.get(claimRef)]);
+          const owner = claimDoc.data()?.uid;
+          if (owner && owner !== uid) {
+            throw new Error('Username is already taken');
+          }
+
+          // Released usernames keep their document with a null owner
+          const previous: string = userDoc.data()?.username?.toLowerCase() || '';
+          if (previous && previous !== username) {
+            transaction.set(doc(getDb(), 'usernames', previous), { uid: null, username: null });
+          }
+          if (owner !== uid) {
+            transaction.set(claimRef, { uid, username });
+          }
+        }
+
+        transaction.set(userRef, profile, { merge: true });
+        transaction.set(doc(getDb(), 'profiles', uid), toPublicProfileFields(profile), { merge: true });
+      });
+    },
+
+    async isAdmin(uid) {
+      const adminDocs = await getDocs(query(
+        collection(getDb(), 'admins'),
+        where('userId', '==', uid)
+      ));
+      return !adminDocs.empty;
+    },
+
+    async count() {
+      const snapshot = await getCountFromServer(collection(getDb(), 'users'));
+      return snapshot.data().count;
+    }
+  };
+}
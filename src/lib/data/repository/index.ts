@@ -0,0 +1,23 @@
+import { LaunchRepository } from './types';
+import { createFirestoreRepository } from './firestore';
+import { createMemoryRepository } from './memory';
+import { demoSeed } from './memory/seed';
+
+export * from './types';
+export { createFirestoreRepository } from './firestore';
+export { createMemoryRepository } from './memory';
+export type { MemorySeed, StartupRecord } from './memory';
+
+// Set VITE_DATA_SOURCE=memory to run against seeded in-memory data instead of Firestore
+let repository: LaunchRepository = import.meta.env.VITE_DATA_SOURCE === 'memory'
+  ? createMemoryRepository(demoSeed)
+  : createFirestoreRepository();
+
+export function getRepository(): LaunchRepository {
+  return repository;
+}
+
+// Swap the active adapter, e.g. for tests or local tooling
+export function setRepository(next: LaunchRepository) {
+  repository = next;
+}
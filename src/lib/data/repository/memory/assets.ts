@@ -0,0 +1,10 @@
+import { AssetsRepository } from '../types';
+
+// Uploaded files only live for the current page session
+export function createMemoryAssets(): AssetsRepository {
+  return {
+    async upload(_path, file) {
+      return URL.createObjectURL(file);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { FirebaseError } from 'firebase/app';
+import { AuthRepository, AuthUser } from '../types';
+import { AccountRecord, MemoryStore, createId } from './store';
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+// The account Google sign-in stands in with, created on first use
+const GOOGLE_ACCOUNT_EMAIL = 'google.user@example.com';
+
+function toAuthUser({ uid, email, displayName, emailVerified }: AccountRecord): AuthUser {
+  return { uid, email, displayName, emailVerified };
+}
+
+function authError(code: string): FirebaseError {
+  return new FirebaseError(code, `Firebase: Error (${code}).`);
+}
+
+// Sign-in against the store's accounts, failing with the codes Firebase Auth uses. The
+// session lasts as long as the page, like the rest of the in-memory data.
+export function createMemoryAuth(store: MemoryStore): AuthRepository {
+  let current: AuthUser | null = null;
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const setCurrent = (account: AccountRecord | null) => {
+    current = account && toAuthUser(account);
+    listeners.forEach(listener => listener(current));
+    return current;
+  };
+
+  const findAccount = (email: string) => {
+    if (!EMAIL_PATTERN.test(email)) throw authError('auth/invalid-email');
+    return store.accounts.get(email.toLowerCase());
+  };
+
+  return {
+    subscribe(onChange) {
+      listeners.add(onChange);
+      queueMicrotask(() => {
+        if (listeners.has(onChange)) onChange(current);
+      });
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+
+    async signup(email, password) {
+      if (findAccount(email)) throw authError('auth/email-already-in-use');
+      if (password.length < 6) throw authError('auth/weak-password');
+
+      const account: AccountRecord = { uid: createId(), email: email.toLowerCase(), password, displayName: null, emailVerified: false };
+      store.accounts.set(account.email, account);
+      return setCurrent(account)!;
+    },
+
+    async login(email, password) {
+      const account = findAccount(email);
+      if (!account) throw authError('auth/user-not-found');
+      if (account.password !== password) throw authError('auth/wrong-password');
+      return setCurrent(account)!;
+    },
+
+    async loginWithGoogle() {
+      let account = store.accounts.get(GOOGLE_ACCOUNT_EMAIL);
+      if (!account) {
+        account = { uid: createId(), email: GOOGLE_ACCOUNT_EMAIL, password: '', displayName: 'Google User', emailVerified: true };
+        store.accounts.set(account.email, account);
+      }
+      return setCurrent(account);
+    },
+
+    async logout() {
+      setCurrent(null);
+    },
+
+    async resetPassword(email) {
+      if (!findAccount(email)) throw authError('auth/user-not-found');
+      console.info(`[auth] Password reset requested for ${email}; there is no email offline`);
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { BookmarksRepository } from '../types';
+import { MemoryStore, notifyStore, voteKey, watchStore } from './store';
+
+export function createMemoryBookmarks(store: MemoryStore): BookmarksRepository {
+  return {
+    async toggle(userId, launchId) {
+      const key = voteKey(launchId, userId);
+      const isSaved = store.bookmarks.has(key);
+
+      if (isSaved) {
+        store.bookmarks.delete(key);
+      } else {
+        store.bookmarks.set(key, { userId, launchId, createdAt: new Date() });
+      }
+
+      notifyStore(store);
+      return !isSaved;
+    },
+
+    subscribe(userId, onChange) {
+      return watchStore(store, () =>
+        Array.from(store.bookmarks.values())
+          .filter(bookmark => bookmark.userId === userId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .map(bookmark => bookmark.launchId),
+        onChange
+      );
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import { Category } from '@/lib/types';
+import { CategoriesRepository } from '../types';
+import { byCategoryName, chooseCategorySlug, renameCategory } from '../categories';
+import { MemoryStore, notifyStore } from './store';
+
+export function createMemoryCategories(store: MemoryStore): CategoriesRepository {
+  const all = () => Array.from(store.categories.values());
+
+  const find = (id: string) => {
+    const category = store.categories.get(id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    return category;
+  };
+
+  return {
+    async list() {
+      return all().map(category => ({ ...category })).sort(byCategoryName);
+    },
+
+    async create({ name, description, icon }) {
+      const slug = chooseCategorySlug(name, all());
+      const category: Category = { id: slug, slug, name, description, icon, archived: false, aliases: [], updatedAt: new Date() };
+
+      store.categories.set(category.id, category);
+      notifyStore(store);
+      return { ...category };
+    },
+
+    async update(id, changes) {
+      const current = find(id);
+      Object.assign(current, {
+        ...changes,
+        ...(changes.name && changes.name !== current.name ? renameCategory(current, changes.name, all()) : {}),
+        updatedAt: new Date()
+      });
+
+      notifyStore(store);
+      return { ...current };
+    },
+
+    async setArchived(id, archived) {
+      Object.assign(find(id), { archived, updatedAt: new Date() });
+      notifyStore(store);
+    },
+
+    async merge(sourceId, targetId) {
+      if (sourceId === targetId) {
+        throw new Error('Cannot merge a category into itself');
+      }
+
+      const source = find(sourceId);
+      if (find(targetId).mergedInto) {
+        throw new Error('Cannot merge into a merged category');
+      }
+
+      let moved = 0;
+      store.startups.forEach(startup => {
+        if (startup.category !== sourceId) return;
+        Object.assign(startup, { category: targetId, updatedAt: new Date() });
+        moved++;
+      });
+
+      Object.assign(source, { archived: true, mergedInto: targetId, updatedAt: new Date() });
+      notifyStore(store);
+      return moved;
+    }
+  };
+}
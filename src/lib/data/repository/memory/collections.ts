@@ -0,0 +1,88 @@
+import { LaunchCollection } from '@/lib/types';
+import { CollectionsRepository } from '../types';
+import { byPosition, checkCollectionSize, chooseCollectionSlug } from '../collections';
+import { MemoryStore, createId, notifyStore } from './store';
+
+export function createMemoryCollections(store: MemoryStore): CollectionsRepository {
+  const listByOwner = (ownerId: string): LaunchCollection[] =>
+    Array.from(store.collections.values())
+      .filter(collection => collection.ownerId === ownerId)
+      .sort(byPosition);
+
+  const get = (id: string): LaunchCollection => {
+    const collection = store.collections.get(id);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+    return collection;
+  };
+
+  const copy = (collection: LaunchCollection): LaunchCollection => ({ ...collection, launchIds: [...collection.launchIds] });
+
+  return {
+    async listByOwner(ownerId) {
+      return listByOwner(ownerId).map(copy);
+    },
+
+    async listPublic(ownerId) {
+      return listByOwner(ownerId).filter(collection => collection.isPublic).map(copy);
+    },
+
+    async getPublic(ownerId, slug) {
+      const collection = listByOwner(ownerId).find(current => current.slug === slug && current.isPublic);
+      return collection ? copy(collection) : null;
+    },
+
+    async create(ownerId, input) {
+      const existing = listByOwner(ownerId);
+      const now = new Date();
+      const collection: LaunchCollection = {
+        ...input,
+        id: createId(),
+        ownerId,
+        slug: chooseCollectionSlug(input.name, existing),
+        launchIds: [],
+        position: existing.reduce((max, current) => Math.max(max, current.position + 1), 0),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      store.collections.set(collection.id, collection);
+      notifyStore(store);
+      return copy(collection);
+    },
+
+    async update(id, changes) {
+      const collection = get(id);
+      const slug = changes.name !== undefined && changes.name !== collection.name
+        ? chooseCollectionSlug(changes.name, listByOwner(collection.ownerId), id)
+        : collection.slug;
+
+      Object.assign(collection, changes, { slug, updatedAt: new Date() });
+      notifyStore(store);
+      return copy(collection);
+    },
+
+    async remove(id) {
+      store.collections.delete(id);
+      notifyStore(store);
+    },
+
+    async setLaunches(id, launchIds) {
+      checkCollectionSize(launchIds);
+      Object.assign(get(id), { launchIds: [...launchIds], updatedAt: new Date() });
+      notifyStore(store);
+    },
+
+    async reorder(ownerId, collectionIds) {
+      collectionIds.forEach((id, position) => {
+        const collection = get(id);
+        if (collection.ownerId !== ownerId) {
+          throw new Error('Collection not found');
+        }
+        collection.position = position;
+      });
+      notifyStore(store);
+    }
+  };
+}
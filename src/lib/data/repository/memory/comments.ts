@@ -0,0 +1,114 @@
+import { CommentsRepository } from '../types';
+import { getCommentRecipients } from '../notifications';
+import { MemoryStore, createId, notifyStore, voteKey, watchStore } from './store';
+import { pushNotification } from './notifications';
+
+export function createMemoryComments(store: MemoryStore): CommentsRepository {
+  const getComment = (launchId: string, commentId: string) => {
+    const comment = store.comments.get(commentId);
+    if (!comment || comment.launchId !== launchId) {
+      throw new Error('Comment not found');
+    }
+    return comment;
+  };
+
+  return {
+    subscribe(launchId, onChange) {
+      return watchStore(store, () =>
+        Array.from(store.comments.values())
+          .filter(comment => comment.launchId === launchId)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map(comment => ({ ...comment })),
+        onChange
+      );
+    },
+
+    async create({ launchId, parentId, ...author }) {
+      const startup = store.startups.get(launchId);
+      if (!startup || startup.status !== 'approved') {
+        throw new Error('Launch not found');
+      }
+
+      const parent = parentId ? getComment(launchId, parentId) : null;
+      if (parent?.deleted) {
+        throw new Error('Comment not found');
+      }
+
+      const id = createId();
+      store.comments.set(id, {
+        ...author,
+        id,
+        launchId,
+        parentId,
+        byMaker: startup.userId === author.authorId,
+        upvotes: 0,
+        deleted: false,
+        createdAt: new Date(),
+        editedAt: null
+      });
+      getCommentRecipients(startup.userId, parent?.authorId ?? null).forEach(({ recipientId, type }) => {
+        pushNotification(store, recipientId, {
+          type,
+          actorId: author.authorId,
+          actorName: author.authorName,
+          actorUsername: author.authorUsername,
+          launchId,
+          launchName: startup.name,
+          launchSlug: startup.slug || null,
+          commentId: id
+        });
+      });
+
+      notifyStore(store);
+      return id;
+    },
+
+    async update(launchId, commentId, body) {
+      Object.assign(getComment(launchId, commentId), { body, editedAt: new Date() });
+      notifyStore(store);
+    },
+
+    async remove(launchId, commentId) {
+      const comment = getComment(launchId, commentId);
+      const hasReplies = Array.from(store.comments.values()).some(reply => reply.parentId === commentId);
+
+      if (hasReplies) {
+        Object.assign(comment, { body: '', deleted: true, editedAt: new Date() });
+      } else {
+        store.comments.delete(commentId);
+      }
+
+      notifyStore(store);
+    },
+
+    async toggleUpvote(launchId, commentId, userId) {
+      const comment = getComment(launchId, commentId);
+      if (comment.deleted) {
+        throw new Error('Comment not found');
+      }
+
+      const key = voteKey(commentId, userId);
+      const hasUpvoted = store.commentUpvotes.has(key);
+
+      if (hasUpvoted) {
+        store.commentUpvotes.delete(key);
+        comment.upvotes -= 1;
+      } else {
+        store.commentUpvotes.set(key, { launchId, commentId, userId });
+        comment.upvotes += 1;
+      }
+
+      notifyStore(store);
+      return !hasUpvoted;
+    },
+
+    subscribeUserUpvotes(launchId, userId, onChange) {
+      return watchStore(store, () =>
+        Array.from(store.commentUpvotes.values())
+          .filter(upvote => upvote.launchId === launchId && upvote.userId === userId)
+          .map(upvote => upvote.commentId),
+        onChange
+      );
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { FollowsRepository } from '../types';
+import { getFollowNotificationId } from '../notifications';
+import { MemoryStore, notifyStore, voteKey, watchStore } from './store';
+import { memoryActor, pushNotification } from './notifications';
+
+export function createMemoryFollows(store: MemoryStore): FollowsRepository {
+  return {
+    async toggle(followerId, followeeId) {
+      if (followerId === followeeId) {
+        throw new Error('Users cannot follow themselves');
+      }
+
+      const key = voteKey(followeeId, followerId);
+      const isFollowing = store.follows.has(key);
+
+      if (isFollowing) {
+        store.follows.delete(key);
+      } else {
+        // Notifications of all users share one map, so the id also names the recipient
+        const notificationId = `${followeeId}/${getFollowNotificationId(followerId)}`;
+        store.follows.set(key, { followerId, followeeId, createdAt: new Date() });
+        pushNotification(store, followeeId, {
+          ...memoryActor(store, followerId),
+          type: 'follow',
+          launchId: null,
+          launchName: null,
+          launchSlug: null,
+          commentId: null
+        }, notificationId);
+      }
+
+      notifyStore(store);
+      return !isFollowing;
+    },
+
+    subscribeFollowing(followerId, onChange) {
+      return watchStore(store, () =>
+        Array.from(store.follows.values())
+          .filter(follow => follow.followerId === followerId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .map(follow => follow.followeeId),
+        onChange
+      );
+    },
+
+    async count(uid) {
+      const follows = Array.from(store.follows.values());
+      return {
+        followers: follows.filter(follow => follow.followeeId === uid).length,
+        following: follows.filter(follow => follow.followerId === uid).length
+      };
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { LaunchRepository } from '../types';
+import { MemorySeed, createMemoryStore } from './store';
+import { createMemoryLaunches } from './launches';
+import { createMemoryStartups } from './startups';
+import { createMemorySlugs } from './slugs';
+import { createMemoryCategories } from './categories';
+import { createMemoryTags } from './tags';
+import { createMemoryComments } from './comments';
+import { createMemoryBookmarks } from './bookmarks';
+import { createMemoryFollows } from './follows';
+import { createMemoryNotifications } from './notifications';
+import { createMemoryMail } from './mail';
+import { createMemoryNewsletter } from './newsletter';
+import { createMemoryCollections } from './collections';
+import { createMemorySubmissions } from './submissions';
+import { createMemoryUsers } from './users';
+import { createMemoryProfiles } from './profiles';
+import { createMemoryUsernames } from './usernames';
+import { createMemoryAuth } from './auth';
+import { createMemoryAssets } from './assets';
+import { createMemoryMaintenance } from './maintenance';
+
+export type { MemorySeed, StartupRecord } from './store';
+
+export function createMemoryRepository(seed?: MemorySeed): LaunchRepository {
+  const store = createMemoryStore(seed);
+  const mail = createMemoryMail(store);
+
+  return {
+    launches: createMemoryLaunches(store),
+    startups: createMemoryStartups(store),
+    slugs: createMemorySlugs(store),
+    categories: createMemoryCategories(store),
+    tags: createMemoryTags(store),
+    comments: createMemoryComments(store),
+    bookmarks: createMemoryBookmarks(store),
+    follows: createMemoryFollows(store),
+    notifications: createMemoryNotifications(store),
+    mail,
+    newsletter: createMemoryNewsletter(store, mail),
+    collections: createMemoryCollections(store),
+    submissions: createMemorySubmissions(store),
+    users: createMemoryUsers(store),
+    profiles: createMemoryProfiles(store),
+    usernames: createMemoryUsernames(store),
+    auth: createMemoryAuth(store),
+    assets: createMemoryAssets(),
+    maintenance: createMemoryMaintenance(store)
+  };
+}
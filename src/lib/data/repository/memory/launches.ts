@@ -0,0 +1,200 @@
+import { Launch } from '@/lib/types/launch';
+import { LaunchesRepository, LaunchFilter } from '../types';
+import { decodeCursor, encodeCursor } from '../pagination';
+import { hasLaunched, launchCalendar, LaunchPeriods } from '@/lib/utils/launch-calendar';
+import { MemoryStore, watchStore, notifyStore, voteKey } from './store';
+import { toLaunch, toLaunchLookup } from './mappers';
+import { memoryActor, pushNotification } from './notifications';
+
+const periodKeys = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+} as const satisfies Record<string, keyof LaunchPeriods>;
+
+export function createMemoryLaunches(store: MemoryStore): LaunchesRepository {
+  const approvedLaunches = () =>
+    Array.from(store.startups.values())
+      .filter(startup => startup.status === 'approved' && startup.scheduledLaunchDate)
+      .map(toLaunch);
+
+  const listApproved = async () => approvedLaunches();
+
+  // What lists, rankings and counts show: approved launches past their launch date
+  const liveLaunches = () => approvedLaunches().filter(launch => hasLaunched(launch.launchDate));
+
+  const filterLaunches = ({ week, listingType, category, tag }: LaunchFilter) =>
+    liveLaunches().filter(launch =>
+      (!week || launchCalendar.getWeek(new Date(launch.launchDate)).id === week) &&
+      (!listingType || launch.listingType === listingType) &&
+      (!category || launch.category === category) &&
+      (!tag || launch.tags.includes(tag))
+    );
+
+  const byIdDescending = (a: Launch, b: Launch) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+  // Same orders as Firestore: most upvotes or latest launch date first, then descending id
+  const byUpvotes = (a: Launch, b: Launch) => (b.upvotes || 0) - (a.upvotes || 0) || byIdDescending(a, b);
+
+  const byNewest = (a: Launch, b: Launch) =>
+    new Date(b.launchDate).getTime() - new Date(a.launchDate).getTime() || byIdDescending(a, b);
+
+  return {
+    listApproved,
+
+    async listByIds(ids) {
+      const launches = new Map(approvedLaunches().map(launch => [launch.id, launch]));
+      return ids.flatMap(id => launches.get(id) ?? []);
+    },
+
+    async listByMaker(userId) {
+      const launchIds = new Set(Array.from(store.startups.values())
+        .filter(startup => startup.userId === userId)
+        .map(startup => startup.id));
+      return approvedLaunches().filter(launch => launchIds.has(launch.id)).sort(byNewest);
+    },
+
+    async listRecentByMakers(userIds, count) {
+      const makers = new Set(userIds);
+      const launchIds = new Set(Array.from(store.startups.values())
+        .filter(startup => makers.has(startup.userId))
+        .map(startup => startup.id));
+      return liveLaunches()
+        .filter(launch => launchIds.has(launch.id))
+        .sort(byNewest)
+        .slice(0, count);
+    },
+
+    async getById(id) {
+      return toLaunchLookup(store.startups.get(id));
+    },
+
+    async getFirstLaunchDate() {
+      const dates = approvedLaunches().map(launch => new Date(launch.launchDate).getTime());
+      return dates.length ? new Date(Math.min(...dates)) : null;
+    },
+
+    async listTop({ period, periodKey, category, limit }) {
+      return liveLaunches()
+        .filter(launch => period === 'all-time' || !periodKey ||
+          launchCalendar.getPeriods(new Date(launch.launchDate))[periodKeys[period]] === periodKey)
+        .filter(launch => !category || launch.category === category)
+        .sort(byUpvotes)
+        .slice(0, limit);
+    },
+
+    async listPage({ order, wrapFrom = '', cursor, limit, ...filter }) {
+      const launches = filterLaunches(filter);
+
+      if (order === 'upvotes') {
+        const ranked = launches.sort(byUpvotes);
+        const after = decodeCursor(cursor, 'upvotes');
+        const start = after ? ranked.findIndex(launch => byUpvotes(launch, { ...launch, ...after }) > 0) : 0;
+        const page = start < 0 ? [] : ranked.slice(start, start + limit);
+        const last = page[page.length - 1];
+        return {
+          launches: page,
+          nextCursor: start >= 0 && start + limit < ranked.length
+            ? encodeCursor({ order: 'upvotes', upvotes: last.upvotes || 0, id: last.id })
+            : null
+        };
+      }
+
+      if (order === 'newest') {
+        const latest = launches.sort(byNewest);
+        const after = decodeCursor(cursor, 'newest');
+        const start = after
+          ? latest.findIndex(launch => byNewest(launch, { ...launch, id: after.id, launchDate: new Date(after.launchDate).toISOString() }) > 0)
+          : 0;
+        const page = start < 0 ? [] : latest.slice(start, start + limit);
+        const last = page[page.length - 1];
+        return {
+          launches: page,
+          nextCursor: start >= 0 && start + limit < latest.length
+            ? encodeCursor({ order: 'newest', launchDate: new Date(last.launchDate).getTime(), id: last.id })
+            : null
+        };
+      }
+
+      // Ids from `wrapFrom` to the end, followed by the ids before it
+      const sorted = launches.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+      const head = sorted.filter(launch => launch.id >= wrapFrom);
+      const walk = [...head, ...sorted.filter(launch => launch.id < wrapFrom)];
+
+      const after = decodeCursor(cursor, 'id');
+      const start = after
+        ? walk.findIndex((launch, index) => (index >= head.length) === after.wrapped && launch.id > after.id)
+        : 0;
+      const page = start < 0 ? [] : walk.slice(start, start + limit);
+      const end = start + page.length;
+      const last = page[page.length - 1];
+      return {
+        launches: page,
+        nextCursor: start >= 0 && end < walk.length
+          // Like Firestore, a cursor at the end of the head restarts from the first id
+          ? encodeCursor({ order: 'id', wrapped: end >= head.length, id: end === head.length ? '' : last.id })
+          : null
+      };
+    },
+
+    async count(filter) {
+      return filterLaunches(filter).length;
+    },
+
+    subscribeFeatured(onChange) {
+      return watchStore(store, () =>
+        approvedLaunches().filter(launch => launch.listingType === 'premium' || launch.listingType === 'boosted'),
+        onChange
+      );
+    },
+
+    subscribeById(id, onChange) {
+      return watchStore(store, () => toLaunchLookup(store.startups.get(id)), onChange);
+    },
+
+    async toggleUpvote(launchId, userId) {
+      const startup = store.startups.get(launchId);
+
+      if (!startup) {
+        throw new Error('Launch not found');
+      }
+
+      const key = voteKey(launchId, userId);
+      const hasUpvoted = store.votes.has(key);
+
+      if (hasUpvoted) {
+        store.votes.delete(key);
+        startup.upvotes -= 1;
+      } else {
+        store.votes.set(key, { launchId, userId, createdAt: new Date() });
+        startup.upvotes += 1;
+        pushNotification(store, startup.userId, {
+          ...memoryActor(store, userId),
+          type: 'upvote',
+          launchId,
+          launchName: startup.name,
+          launchSlug: startup.slug || null,
+          commentId: null
+        });
+      }
+
+      notifyStore(store);
+      return !hasUpvoted;
+    },
+
+    subscribeUserVotes(userId, onChange) {
+      return watchStore(store, () =>
+        Array.from(store.votes.values())
+          .filter(vote => vote.userId === userId)
+          .map(vote => vote.launchId),
+        onChange
+      );
+    },
+
+    async countUpvotes() {
+      const launches = await listApproved();
+      return launches.reduce((sum, launch) => sum + (launch.upvotes || 0), 0);
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import { renderMail } from '@/lib/email/mail';
+import { createConsoleTransport } from '@/lib/email/transport';
+import { MailRepository, NewMail } from '../types';
+import { MemoryStore, createId } from './store';
+
+// There is no mail worker without Firestore, so mail goes straight to the console,
+// including mail that would wait for its send time
+export function createMemoryMail(store: MemoryStore): MailRepository {
+  const transport = createConsoleTransport();
+
+  const enqueue = async (mail: NewMail, mailId?: string) => {
+    if (mailId && store.mail.has(mailId)) return mailId;
+
+    const id = mailId || createId();
+    const record = { ...mail, id, createdAt: new Date(), deliveredAt: null as Date | null };
+    store.mail.set(id, record);
+
+    const displayName = (mail.toUid && store.users.get(mail.toUid)?.displayName) || '';
+    await transport.send({ id, to: mail.to, ...renderMail(mail, { displayName }) });
+    record.deliveredAt = new Date();
+    return id;
+  };
+
+  return {
+    enqueue,
+
+    async enqueueAll(mails) {
+      for (const mail of mails) {
+        await enqueue(mail);
+      }
+      return mails.length;
+    }
+  };
+}
@@ -0,0 +1,42 @@
+import { MaintenanceRepository } from '../types';
+import { MemoryStore, notifyStore } from './store';
+import { claimMemorySlug } from './slugs';
+
+// The in-memory store never had `upvotedBy` arrays, so there is nothing to migrate
+export function createMemoryMaintenance(store: MemoryStore): MaintenanceRepository {
+  return {
+    async migrateLegacyUpvotes() {
+      return { launches: 0, votes: 0 };
+    },
+
+    // Periods are derived from the launch date on every query
+    async backfillLaunchPeriods() {
+      return 0;
+    },
+
+    async backfillSlugs() {
+      let updated = 0;
+      store.startups.forEach(startup => {
+        if (startup.slug) return;
+        startup.slug = claimMemorySlug(store, startup.id, startup.name);
+        updated++;
+      });
+
+      if (updated > 0) notifyStore(store);
+      return updated;
+    },
+
+    async seedCategories(categories) {
+      const missing = categories.filter(category => !store.categories.has(category.id));
+      missing.forEach(category => store.categories.set(category.id, { ...category }));
+
+      if (missing.length > 0) notifyStore(store);
+      return missing.length;
+    },
+
+    // Memory profiles are read from the users directly, so there is nothing to copy
+    async backfillProfiles() {
+      return 0;
+    }
+  };
+}
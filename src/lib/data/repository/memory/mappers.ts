@@ -0,0 +1,97 @@
+import { Launch, LaunchLookup } from '@/lib/types/launch';
+import { Startup, SubmittedStartup } from '@/lib/types';
+import { formatLaunchMonth, hasLaunched } from '@/lib/utils/launch-calendar';
+import { StartupRecord } from './store';
+
+export function toLaunch(record: StartupRecord): Launch {
+  return {
+    id: record.id,
+    slug: record.slug || record.id,
+    name: record.name,
+    logo: record.logoUrl,
+    description: record.description,
+    launchDate: (record.scheduledLaunchDate || record.createdAt).toISOString(),
+    website: record.url,
+    userId: record.userId,
+    category: record.category || '',
+    tags: record.tags || [],
+    listingType: record.listingType || 'regular',
+    doFollowBacklink: record.doFollowBacklink || false,
+    upvotes: record.upvotes,
+    updatedAt: record.updatedAt.toISOString()
+  };
+}
+
+export function toLaunchLookup(record: StartupRecord | undefined): LaunchLookup {
+  if (!record) {
+    return { status: 'not-found' };
+  }
+
+  switch (record.status) {
+    case 'approved': {
+      const launch = toLaunch(record);
+      return hasLaunched(launch.launchDate) ? { status: 'approved', launch } : { status: 'scheduled' };
+    }
+    case 'rejected':
+      return { status: 'rejected' };
+    default:
+      return { status: 'pending' };
+  }
+}
+
+export function toStartup(record: StartupRecord): Startup {
+  const launchDate = record.scheduledLaunchDate || record.createdAt;
+  const details = record.details;
+  const mrr = details?.metrics.mrr || 0;
+
+  return {
+    id: record.id,
+    slug: record.slug || record.id,
+    name: record.name,
+    logo: record.logoUrl,
+    cardImage: record.logoUrl,
+    shortDescription: record.description,
+    mrr,
+    category: record.category || '',
+    tags: record.tags || [],
+    foundedDate: details?.foundedDate || '',
+    location: details?.location || '',
+    website: record.url,
+    longDescription: details?.longDescription || record.description,
+    isVerified: false,
+    metrics: {
+      mrr,
+      launchedIn: formatLaunchMonth(launchDate),
+      founders: details?.metrics.founders || '',
+      funding: details?.metrics.funding || '',
+      monetisation: details?.metrics.monetisation || '',
+      commitment: details?.metrics.commitment || ''
+    },
+    socialLinks: details?.socialLinks || { twitter: record.socialHandle },
+    submissionDetails: {
+      submittedAt: record.createdAt,
+      scheduledLaunchDate: launchDate,
+      status: launchDate <= new Date() ? 'launched' : 'approved'
+    }
+  };
+}
+
+export function toSubmission(record: StartupRecord): SubmittedStartup {
+  return {
+    id: record.id,
+    slug: record.slug,
+    name: record.name,
+    url: record.url,
+    socialHandle: record.socialHandle,
+    description: record.description,
+    logoUrl: record.logoUrl,
+    userId: record.userId,
+    submittedAt: record.createdAt,
+    scheduledLaunchDate: record.scheduledLaunchDate,
+    status: record.status,
+    category: record.category,
+    tags: record.tags || [],
+    listingType: record.listingType,
+    doFollowBacklink: record.doFollowBacklink
+  };
+}
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FirebaseError } from 'firebase/app';
+import { LaunchComment } from '@/lib/types/comment';
+import { AppNotification } from '@/lib/types/notification';
+import { LaunchRepository } from '../types';
+import { createMemoryRepository } from './index';
+import { demoSeed } from './seed';
+
+function firstValue<T>(subscribe: (onChange: (value: T) => void) => () => void): Promise<T> {
+  return new Promise(resolve => {
+    const unsubscribe = subscribe(value => {
+      unsubscribe();
+      resolve(value);
+    });
+  });
+}
+
+const readComments = (repository: LaunchRepository, launchId: string) =>
+  firstValue<LaunchComment[]>(onChange => repository.comments.subscribe(launchId, onChange, () => {}));
+
+describe('memory launches', () => {
+  it('pages through every approved launch once with cursors', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    const ids: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = await repository.launches.listPage({ order: 'upvotes', cursor, limit: 2 });
+      ids.push(...page.launches.map(launch => launch.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(ids).toEqual(['orbit', 'calmdesk', 'pixelforge', 'ledgerly', 'reachout']);
+  });
+
+  it('wraps the id order around from its start point', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    const first = await repository.launches.listPage({ order: 'id', wrapFrom: 'orbit', limit: 3 });
+    const second = await repository.launches.listPage({ order: 'id', wrapFrom: 'orbit', cursor: first.nextCursor, limit: 3 });
+
+    expect([...first.launches, ...second.launches].map(launch => launch.id))
+      .toEqual(['orbit', 'pixelforge', 'reachout', 'calmdesk', 'ledgerly']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('hides approved launches until their launch date', async () => {
+    const [orbit] = demoSeed.startups ?? [];
+    const repository = createMemoryRepository({
+      ...demoSeed,
+      startups: [...demoSeed.startups ?? [], { ...orbit, id: 'soon', slug: 'soon', upvotes: 99, scheduledLaunchDate: new Date(Date.now() + 60 * 60 * 1000) }]
+    });
+
+    expect(await repository.launches.getById('soon')).toEqual({ status: 'scheduled' });
+    expect((await repository.launches.listTop({ period: 'all-time', limit: 10 })).map(launch => launch.id)).not.toContain('soon');
+
+    const page = await repository.launches.listPage({ category: orbit.category, order: 'upvotes', limit: 10 });
+    expect(page.launches.map(launch => launch.id)).toEqual(['orbit']);
+    expect(await repository.launches.count({ category: orbit.category })).toBe(1);
+  });
+
+  it('toggles upvotes and keeps the counter in step', async () => {
+    const repository = createMemoryRepository(demoSeed);
+
+    expect(await repository.launches.toggleUpvote('ledgerly', 'voter')).toBe(true);
+    expect(await repository.launches.getById('ledgerly')).toMatchObject({ status: 'approved', launch: { upvotes: 9 } });
+
+    expect(await repository.launches.toggleUpvote('ledgerly', 'voter')).toBe(false);
+    expect(await repository.launches.getById('ledgerly')).toMatchObject({ launch: { upvotes: 8 } });
+  });
+});
+
+describe('memory users', () => {
+  it('claims usernames with the profile and refuses taken ones', async () => {
+    const repository = createMemoryRepository(demoSeed);
+
+    await expect(repository.users.save('someone', { username: 'demo' })).rejects.toThrow('Username is already taken');
+
+    await repository.users.save('demo-maker', { username: 'maker' });
+    expect(await repository.usernames.get('maker')).toEqual({ uid: 'demo-maker', username: 'maker' });
+    expect(await repository.usernames.get('demo')).toEqual({ uid: null, username: null });
+  });
+});
+
+describe('memory auth', () => {
+  it('signs in the seeded demo account', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    const user = await repository.auth.login('demo@example.com', 'demo-password');
+
+    expect(user).toMatchObject({ uid: 'demo-maker', emailVerified: true });
+    expect(await firstValue(onChange => repository.auth.subscribe(onChange))).toEqual(user);
+    expect(await repository.users.isAdmin(user.uid)).toBe(true);
+  });
+
+  it('fails with the codes Firebase Auth uses', async () => {
+    const repository = createMemoryRepository(demoSeed);
+
+    await expect(repository.auth.login('demo@example.com', 'wrong')).rejects.toMatchObject({ code: 'auth/wrong-password' });
+    await expect(repository.auth.signup('demo@example.com', 'secret1')).rejects.toBeInstanceOf(FirebaseError);
+    await expect(repository.auth.signup('new@example.com', '123')).rejects.toMatchObject({ code: 'auth/weak-password' });
+  });
+
+  it('signs up, out and back in', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    const user = await repository.auth.signup('new@example.com', 'secret1');
+
+    await repository.auth.logout();
+    expect(await firstValue(onChange => repository.auth.subscribe(onChange))).toBeNull();
+    expect(await repository.auth.login('NEW@example.com', 'secret1')).toEqual(user);
+  });
+});
+
+describe('memory follows', () => {
+  it('notifies a user once per follower', async () => {
+    const repository = createMemoryRepository(demoSeed);
+
+    await repository.follows.toggle('reader', 'demo-maker');
+    await repository.follows.toggle('reader', 'demo-maker');
+    expect(await repository.follows.toggle('reader', 'demo-maker')).toBe(true);
+
+    const notifications = await firstValue<AppNotification[]>(onChange =>
+      repository.notifications.subscribe('demo-maker', 10, onChange, () => {}));
+    expect(notifications.map(notification => notification.type)).toEqual(['follow']);
+  });
+});
+
+describe('memory comments', () => {
+  const author = { authorId: 'demo-maker', authorName: 'Demo Maker', authorUsername: 'demo', authorAvatarUrl: null };
+
+  it('keeps a comment with replies as a placeholder', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    const parentId = await repository.comments.create({ ...author, launchId: 'orbit', parentId: null, body: 'First' });
+    await repository.comments.create({ ...author, launchId: 'orbit', parentId, body: 'Reply' });
+
+    await repository.comments.remove('orbit', parentId);
+
+    const comments = await readComments(repository, 'orbit');
+    expect(comments).toHaveLength(2);
+    expect(comments.find(comment => comment.id === parentId)).toMatchObject({ deleted: true });
+  });
+
+  it('removes a comment without replies', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    const commentId = await repository.comments.create({ ...author, launchId: 'orbit', parentId: null, body: 'Alone' });
+
+    await repository.comments.remove('orbit', commentId);
+
+    expect(await readComments(repository, 'orbit')).toEqual([]);
+  });
+});
+
+describe('memory newsletter', () => {
+  const confirmation = (subscriberId: string) => ({
+    toUid: null,
+    subscriberId,
+    to: 'reader@example.com',
+    template: 'confirm-subscription' as const,
+    category: 'newsletter' as const,
+    data: { subscriberId },
+    sendAt: new Date()
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only confirms subscriptions through their id', async () => {
+    const repository = createMemoryRepository(demoSeed);
+
+    expect(await repository.newsletter.subscribe('reader@example.com', confirmation)).toBe(true);
+    expect(await repository.newsletter.subscribe('reader@example.com', confirmation)).toBe(false);
+
+    const [subscriber] = await repository.newsletter.listSubscribers();
+    expect(subscriber.confirmedAt).toBeNull();
+    expect(await repository.newsletter.confirm('unknown')).toBe(false);
+    expect(await repository.newsletter.confirm(subscriber.id)).toBe(true);
+    expect((await repository.newsletter.listSubscribers())[0].confirmedAt).toBeInstanceOf(Date);
+  });
+
+  it('replaces a pending subscription once its link expired', async () => {
+    const repository = createMemoryRepository(demoSeed);
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    await repository.newsletter.subscribe('reader@example.com', confirmation);
+    const [expired] = await repository.newsletter.listSubscribers();
+
+    vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+    expect(await repository.newsletter.confirm(expired.id)).toBe(false);
+    expect(await repository.newsletter.subscribe('reader@example.com', confirmation)).toBe(true);
+
+    const subscribers = await repository.newsletter.listSubscribers();
+    expect(subscribers).toHaveLength(1);
+    expect(subscribers[0].id).not.toBe(expired.id);
+  });
+});
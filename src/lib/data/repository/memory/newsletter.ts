@@ -0,0 +1,45 @@
+import { MailRepository, NewsletterRepository } from '../types';
+import { isConfirmationExpired } from '../newsletter';
+import { MemoryStore, createId } from './store';
+
+export function createMemoryNewsletter(store: MemoryStore, mail: MailRepository): NewsletterRepository {
+  return {
+    async subscribe(email, confirmation) {
+      const existing = Array.from(store.subscribers.values()).find(subscriber => subscriber.email === email);
+      if (existing && !isConfirmationExpired(existing)) return false;
+      if (existing) store.subscribers.delete(existing.id);
+
+      const id = createId();
+      store.subscribers.set(id, { id, email, confirmedAt: null, createdAt: new Date() });
+      await mail.enqueue(confirmation(id));
+      return true;
+    },
+
+    async confirm(subscriberId) {
+      const subscriber = store.subscribers.get(subscriberId);
+      if (!subscriber || isConfirmationExpired(subscriber)) return false;
+
+      subscriber.confirmedAt ??= new Date();
+      return true;
+    },
+
+    async unsubscribe(subscriberId) {
+      return store.subscribers.delete(subscriberId);
+    },
+
+    async listSubscribers() {
+      return Array.from(store.subscribers.values())
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map(subscriber => ({ ...subscriber }));
+    },
+
+    async getSentDigest(weekId) {
+      const digest = store.digests.get(weekId);
+      return digest ? { ...digest } : null;
+    },
+
+    async recordDigestSent(weekId, recipients) {
+      store.digests.set(weekId, { weekId, sentAt: new Date(), recipients });
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import { NewNotification, NotificationsRepository } from '../types';
+import { MemoryStore, createId, notifyStore, watchStore } from './store';
+
+// Same fields the Firestore adapter copies from the public profile
+export function memoryActor(store: MemoryStore, uid: string): Pick<NewNotification, 'actorId' | 'actorName' | 'actorUsername'> {
+  const profile = store.users.get(uid);
+  return {
+    actorId: uid,
+    actorName: profile?.displayName || profile?.username || null,
+    actorUsername: profile?.username || null
+  };
+}
+
+// Callers notify the store once their own write is done. Like Firestore, a notification
+// with an id is kept rather than replaced when one with that id exists.
+export function pushNotification(store: MemoryStore, recipientId: string, notification: NewNotification, id = createId()) {
+  if (notification.actorId === recipientId || store.notifications.has(id)) return;
+
+  store.notifications.set(id, {
+    recipientId,
+    notification: { ...notification, id, read: false, createdAt: new Date() }
+  });
+}
+
+export function createMemoryNotifications(store: MemoryStore): NotificationsRepository {
+  return {
+    subscribe(uid, limit, onChange) {
+      return watchStore(store, () =>
+        Array.from(store.notifications.values())
+          .filter(record => record.recipientId === uid)
+          .map(record => ({ ...record.notification }))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .slice(0, limit),
+        onChange
+      );
+    },
+
+    async markRead(uid, notificationIds) {
+      notificationIds.forEach(id => {
+        const record = store.notifications.get(id);
+        if (record?.recipientId === uid) record.notification.read = true;
+      });
+      notifyStore(store);
+    }
+  };
+}
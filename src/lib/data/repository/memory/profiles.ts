@@ -0,0 +1,34 @@
+import { ProfilesRepository } from '../types';
+import { MemoryStore } from './store';
+
+// Profiles are read straight from the users, keeping only the public fields
+export function createMemoryProfiles(store: MemoryStore): ProfilesRepository {
+  return {
+    async get(uid) {
+      const profile = store.users.get(uid);
+      if (!profile) return null;
+
+      return {
+        uid,
+        displayName: profile.displayName,
+        username: profile.username,
+        bio: profile.bio,
+        avatarUrl: profile.avatarUrl,
+        showUpvotes: profile.showUpvotes || false,
+        createdAt: profile.createdAt
+      };
+    },
+
+    async listUpvotedLaunchIds(uid, count) {
+      if (!store.users.get(uid)?.showUpvotes) {
+        throw new Error('Missing or insufficient permissions');
+      }
+
+      return Array.from(store.votes.values())
+        .filter(vote => vote.userId === uid)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, count)
+        .map(vote => vote.launchId);
+    }
+  };
+}
@@ -0,0 +1,82 @@
+import { defaultCategories } from '@/lib/data/default-categories';
+import { MemorySeed, StartupRecord } from './store';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function demoStartup(
+  id: string,
+  name: string,
+  description: string,
+  category: string,
+  listingType: StartupRecord['listingType'],
+  daysAgo: number,
+  upvotes: number,
+  tags: string[] = []
+): StartupRecord {
+  const launchDate = new Date(Date.now() - daysAgo * DAY);
+  return {
+    id,
+    slug: id,
+    name,
+    url: `https://example.com/${id}`,
+    socialHandle: `@${id}`,
+    description,
+    category,
+    tags,
+    logoUrl: '/favicon/android-chrome-192x192.png',
+    userId: 'demo-maker',
+    status: 'approved',
+    listingType,
+    doFollowBacklink: listingType !== 'regular',
+    scheduledLaunchDate: launchDate,
+    createdAt: new Date(launchDate.getTime() - DAY),
+    updatedAt: launchDate,
+    upvotes
+  };
+}
+
+// Sample data used when the app runs without a Firebase project
+export const demoSeed: MemorySeed = {
+  categories: defaultCategories,
+  startups: [
+    {
+      ...demoStartup('orbit', 'Orbit', 'Plan launches and track them in one place', 'productivity', 'premium', 1, 42, ['launch', 'analytics']),
+      details: {
+        longDescription: 'Orbit keeps your launch checklist, assets and results together.\n\nSchedule posts across launch platforms, invite your team and see which channels brought your first customers.',
+        foundedDate: '2024-03',
+        location: 'Lisbon, Portugal',
+        metrics: {
+          mrr: 4200,
+          founders: 'Ana Costa, Rui Pinto',
+          funding: 'Bootstrapped',
+          monetisation: 'Subscription',
+          commitment: 'Full-time'
+        },
+        socialLinks: {
+          twitter: 'https://x.com/orbit',
+          github: 'https://github.com/orbit'
+        }
+      }
+    },
+    demoStartup('pixelforge', 'PixelForge', 'Generate brand assets from a single prompt', 'design', 'boosted', 2, 17, ['ai', 'branding']),
+    demoStartup('ledgerly', 'Ledgerly', 'Bookkeeping for solo founders', 'business', 'regular', 0, 8, ['finance', 'solo-founders']),
+    demoStartup('reachout', 'ReachOut', 'Cold email that sounds like you wrote it', 'marketing', 'regular', 0, 5, ['ai', 'email']),
+    demoStartup('calmdesk', 'CalmDesk', 'A focus timer that blocks distracting tabs', 'lifestyle', 'regular', 9, 23, ['focus'])
+  ],
+  users: {
+    'demo-maker': {
+      displayName: 'Demo Maker',
+      username: 'demo',
+      email: 'demo@example.com',
+      bio: 'Maker of every demo launch.',
+      createdAt: new Date(Date.now() - 30 * DAY),
+      updatedAt: new Date()
+    }
+  },
+  // The demo maker is an admin too, so every page can be tried offline
+  admins: ['demo-maker'],
+  // Sign in with demo@example.com and the password "demo-password"
+  accounts: [
+    { uid: 'demo-maker', email: 'demo@example.com', password: 'demo-password', displayName: 'Demo Maker', emailVerified: true }
+  ]
+};
@@ -0,0 +1,26 @@
+import { slugCandidates } from '@/lib/utils/slugs';
+import { SlugsRepository } from '../types';
+import { MemoryStore } from './store';
+
+// Same rules as the Firestore adapter: first free candidate wins and slugs are never released
+export function claimMemorySlug(store: MemoryStore, launchId: string, name: string): string {
+  for (const candidate of slugCandidates(name)) {
+    const owner = store.slugs.get(candidate);
+    if (!owner || owner === launchId) {
+      store.slugs.set(candidate, launchId);
+      return candidate;
+    }
+  }
+
+  throw new Error(`No free slug for "${name}"`);
+}
+
+export function createMemorySlugs(store: MemoryStore): SlugsRepository {
+  return {
+    async resolve(slugOrId) {
+      const launchId = store.slugs.get(slugOrId.toLowerCase()) ?? slugOrId;
+      const startup = store.startups.get(launchId);
+      return startup ? { launchId, slug: startup.slug || launchId } : null;
+    }
+  };
+}
@@ -0,0 +1,25 @@
+import { StartupsRepository } from '../types';
+import { MemoryStore, notifyStore } from './store';
+import { toStartup } from './mappers';
+import { claimMemorySlug } from './slugs';
+
+export function createMemoryStartups(store: MemoryStore): StartupsRepository {
+  return {
+    async get(id) {
+      const startup = store.startups.get(id);
+      return startup?.status === 'approved' ? toStartup(startup) : null;
+    },
+
+    async rename(id, name) {
+      const startup = store.startups.get(id);
+      if (!startup) {
+        throw new Error('Startup not found');
+      }
+
+      const slug = claimMemorySlug(store, id, name);
+      Object.assign(startup, { name, slug, updatedAt: new Date() });
+      notifyStore(store);
+      return slug;
+    }
+  };
+}
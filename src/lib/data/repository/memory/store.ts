@@ -0,0 +1,178 @@
+import { Category, LaunchCollection, NewsletterSubscriber, SentDigest, StartupDetails, TagRecord, UserProfile, UsernameClaim } from '@/lib/types';
+import { LaunchComment } from '@/lib/types/comment';
+import { AppNotification } from '@/lib/types/notification';
+import { ListingType, NewMail, SubmissionStatus } from '../types';
+
+// In-memory equivalent of a `startups` document
+export interface StartupRecord {
+  id: string;
+  slug?: string;
+  name: string;
+  url: string;
+  socialHandle: string;
+  description: string;
+  category: string;
+  tags?: string[];
+  logoUrl: string;
+  userId: string;
+  status: SubmissionStatus;
+  listingType?: ListingType;
+  doFollowBacklink?: boolean;
+  scheduledLaunchDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  upvotes: number;
+  details?: StartupDetails;
+}
+
+// In-memory equivalent of a `startups/{launchId}/votes/{userId}` document
+export interface VoteRecord {
+  launchId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+// In-memory equivalent of a `startups/{launchId}/commentUpvotes/{commentId}_{userId}` document
+export interface CommentUpvoteRecord {
+  launchId: string;
+  commentId: string;
+  userId: string;
+}
+
+// In-memory equivalent of a `users/{userId}/bookmarks/{launchId}` document
+export interface BookmarkRecord {
+  userId: string;
+  launchId: string;
+  createdAt: Date;
+}
+
+// In-memory equivalent of a `follows/{followerId}_{followeeId}` document
+export interface FollowRecord {
+  followerId: string;
+  followeeId: string;
+  createdAt: Date;
+}
+
+// In-memory equivalent of a `users/{recipientId}/notifications/{id}` document
+export interface NotificationRecord {
+  recipientId: string;
+  notification: AppNotification;
+}
+
+// In-memory equivalent of a `mail/{id}` document
+export type MailRecord = NewMail & {
+  id: string;
+  createdAt: Date;
+  deliveredAt: Date | null;
+};
+
+// An account of the in-memory sign-in, keyed by email
+export interface AccountRecord {
+  uid: string;
+  email: string;
+  password: string;
+  displayName: string | null;
+  emailVerified: boolean;
+}
+
+export interface MemoryStore {
+  startups: Map<string, StartupRecord>;
+  users: Map<string, UserProfile>;
+  usernames: Map<string, UsernameClaim>;
+  // Slug -> launch id, including aliases left behind by renames
+  slugs: Map<string, string>;
+  categories: Map<string, Category>;
+  tags: Map<string, TagRecord>;
+  votes: Map<string, VoteRecord>;
+  comments: Map<string, LaunchComment>;
+  commentUpvotes: Map<string, CommentUpvoteRecord>;
+  bookmarks: Map<string, BookmarkRecord>;
+  follows: Map<string, FollowRecord>;
+  notifications: Map<string, NotificationRecord>;
+  mail: Map<string, MailRecord>;
+  collections: Map<string, LaunchCollection>;
+  subscribers: Map<string, NewsletterSubscriber>;
+  digests: Map<string, SentDigest>;
+  admins: Set<string>;
+  accounts: Map<string, AccountRecord>;
+  listeners: Set<() => void>;
+}
+
+export interface MemorySeed {
+  startups?: StartupRecord[];
+  categories?: Category[];
+  users?: Record<string, UserProfile>;
+  admins?: string[];
+  accounts?: AccountRecord[];
+}
+
+export function createMemoryStore(seed: MemorySeed = {}): MemoryStore {
+  const store: MemoryStore = {
+    startups: new Map(),
+    users: new Map(),
+    usernames: new Map(),
+    slugs: new Map(),
+    categories: new Map(seed.categories?.map(category => [category.id, { ...category }])),
+    tags: new Map(),
+    votes: new Map(),
+    comments: new Map(),
+    commentUpvotes: new Map(),
+    bookmarks: new Map(),
+    follows: new Map(),
+    notifications: new Map(),
+    mail: new Map(),
+    collections: new Map(),
+    subscribers: new Map(),
+    digests: new Map(),
+    admins: new Set(seed.admins),
+    accounts: new Map(seed.accounts?.map(account => [account.email, { ...account }])),
+    listeners: new Set()
+  };
+
+  seed.startups?.forEach(startup => {
+    store.startups.set(startup.id, { ...startup });
+    if (startup.slug) {
+      store.slugs.set(startup.slug, startup.id);
+    }
+  });
+
+  Object.entries(seed.users || {}).forEach(([uid, profile]) => {
+    store.users.set(uid, { ...profile });
+    if (profile.username) {
+      store.usernames.set(profile.username.toLowerCase(), { uid, username: profile.username.toLowerCase() });
+    }
+  });
+
+  return store;
+}
+
+export function voteKey(launchId: string, userId: string): string {
+  return `${launchId}/${userId}`;
+}
+
+// Re-reads and emits a value after every write, mirroring Firestore snapshot listeners.
+// The first value is delivered asynchronously, like the first snapshot.
+export function watchStore<T>(store: MemoryStore, read: () => T, onChange: (value: T) => void): () => void {
+  const emit = () => onChange(read());
+  store.listeners.add(emit);
+  queueMicrotask(() => {
+    if (store.listeners.has(emit)) emit();
+  });
+  return () => {
+    store.listeners.delete(emit);
+  };
+}
+
+export function notifyStore(store: MemoryStore) {
+  store.listeners.forEach(listener => listener());
+}
+
+// Firestore-style random document id
+export function createId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return id;
+}
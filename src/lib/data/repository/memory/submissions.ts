@@ -0,0 +1,70 @@
+import { resolveTags } from '@/lib/utils/tags';
+import { SubmissionsRepository, SubmissionStatus } from '../types';
+import { MemoryStore, createId, notifyStore } from './store';
+import { toSubmission } from './mappers';
+import { claimMemorySlug } from './slugs';
+import { pushNotification } from './notifications';
+
+export function createMemorySubmissions(store: MemoryStore): SubmissionsRepository {
+  const getRecord = (id: string) => {
+    const startup = store.startups.get(id);
+    if (!startup) {
+      throw new Error('Submission not found');
+    }
+    return startup;
+  };
+
+  const review = (id: string, status: Exclude<SubmissionStatus, 'pending'>, fields: Record<string, unknown>) => {
+    const startup = getRecord(id);
+    Object.assign(startup, { ...fields, status, updatedAt: new Date() });
+    pushNotification(store, startup.userId, {
+      type: status,
+      actorId: null,
+      actorName: null,
+      actorUsername: null,
+      launchId: id,
+      launchName: startup.name,
+      launchSlug: startup.slug || null,
+      commentId: null
+    });
+    notifyStore(store);
+  };
+
+  return {
+    async list({ userId, status }) {
+      return Array.from(store.startups.values())
+        .filter(startup => !userId || startup.userId === userId)
+        .filter(startup => !status || startup.status === status)
+        .map(toSubmission);
+    },
+
+    async create(submission) {
+      const id = createId();
+      const now = new Date();
+      store.startups.set(id, {
+        ...submission,
+        id,
+        slug: claimMemorySlug(store, id, submission.name),
+        tags: resolveTags(submission.tags, Array.from(store.tags.values())),
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+        upvotes: 0
+      });
+      notifyStore(store);
+      return id;
+    },
+
+    async approve(id, { listingType, doFollowBacklink, scheduledLaunchDate }) {
+      review(id, 'approved', { listingType, doFollowBacklink, scheduledLaunchDate });
+    },
+
+    async reject(id) {
+      review(id, 'rejected', {});
+    },
+
+    async count() {
+      return store.startups.size;
+    }
+  };
+}
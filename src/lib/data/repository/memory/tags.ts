@@ -0,0 +1,61 @@
+import { TagRecord } from '@/lib/types';
+import { TagsRepository } from '../types';
+import { MemoryStore, notifyStore } from './store';
+
+export function createMemoryTags(store: MemoryStore): TagsRepository {
+  const saveRecord = (tag: string, fields: Partial<Omit<TagRecord, 'tag'>>) => {
+    const current = store.tags.get(tag) ?? { tag, curated: false, banned: false };
+    store.tags.set(tag, { ...current, ...fields });
+  };
+
+  const rewriteStartups = (tag: string, rewrite: (tags: string[]) => string[]) => {
+    let changed = 0;
+    store.startups.forEach(startup => {
+      if (!startup.tags?.includes(tag)) return;
+      Object.assign(startup, { tags: rewrite(startup.tags), updatedAt: new Date() });
+      changed++;
+    });
+    return changed;
+  };
+
+  return {
+    async list() {
+      return Array.from(store.tags.values()).map(record => ({ ...record }));
+    },
+
+    async setCurated(tag, curated) {
+      saveRecord(tag, { curated });
+      notifyStore(store);
+    },
+
+    async ban(tag) {
+      saveRecord(tag, { banned: true, curated: false });
+      const changed = rewriteStartups(tag, tags => tags.filter(current => current !== tag));
+      notifyStore(store);
+      return changed;
+    },
+
+    async unban(tag) {
+      saveRecord(tag, { banned: false });
+      notifyStore(store);
+    },
+
+    async merge(sourceTag, targetTag) {
+      if (sourceTag === targetTag) {
+        throw new Error('Cannot merge a tag into itself');
+      }
+
+      const target = store.tags.get(targetTag);
+      if (target?.banned || target?.mergedInto) {
+        throw new Error('Cannot merge into a banned or merged tag');
+      }
+
+      saveRecord(sourceTag, { mergedInto: targetTag, curated: false });
+      const changed = rewriteStartups(sourceTag, tags =>
+        Array.from(new Set(tags.map(current => current === sourceTag ? targetTag : current)))
+      );
+      notifyStore(store);
+      return changed;
+    }
+  };
+}
@@ -0,0 +1,11 @@
+import { UsernamesRepository } from '../types';
+import { MemoryStore } from './store';
+
+export function createMemoryUsernames(store: MemoryStore): UsernamesRepository {
+  return {
+    async get(username) {
+      const claim = store.usernames.get(username.toLowerCase());
+      return claim ? { ...claim } : null;
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import { UsersRepository } from '../types';
+import { MemoryStore } from './store';
+
+export function createMemoryUsers(store: MemoryStore): UsersRepository {
+  return {
+    async get(uid) {
+      const profile = store.users.get(uid);
+      return profile ? { ...profile } : null;
+    },
+
+    async save(uid, profile) {
+      const existing = store.users.get(uid);
+
+      if (profile.username) {
+        const username = profile.username.toLowerCase();
+        const owner = store.usernames.get(username)?.uid;
+        if (owner && owner !== uid) {
+          throw new Error('Username is already taken');
+        }
+
+        const previous = existing?.username?.toLowerCase();
+        if (previous && previous !== username) {
+          store.usernames.set(previous, { uid: null, username: null });
+        }
+        store.usernames.set(username, { uid, username });
+      }
+
+      store.users.set(uid, {
+        displayName: '',
+        username: '',
+        email: '',
+        updatedAt: new Date(),
+        ...existing,
+        ...profile
+      });
+    },
+
+    async isAdmin(uid) {
+      return store.admins.has(uid);
+    },
+
+    async count() {
+      return store.users.size;
+    }
+  };
+}
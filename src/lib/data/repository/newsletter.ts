@@ -0,0 +1,11 @@
+// Newsletter rules shared by the repository adapters
+import { NewsletterSubscriber } from '@/lib/types';
+
+// How long a confirmation link works; firestore.rules use the same period. Until then the
+// address can't be subscribed again, so it can't be flooded with confirmation emails, and
+// afterwards subscribing again replaces the pending subscription and sends a new link.
+export const CONFIRMATION_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export function isConfirmationExpired(subscriber: Pick<NewsletterSubscriber, 'confirmedAt' | 'createdAt'>, now = new Date()): boolean {
+  return subscriber.confirmedAt === null && now.getTime() - subscriber.createdAt.getTime() > CONFIRMATION_PERIOD_MS;
+}
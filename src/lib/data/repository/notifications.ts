@@ -0,0 +1,26 @@
+// Notification rules shared by the repository adapters
+import { NotificationType } from '@/lib/types/notification';
+
+export interface CommentRecipient {
+  recipientId: string;
+  type: Extract<NotificationType, 'comment' | 'reply'>;
+}
+
+// The maker hears about every comment on their launch and the parent's author about
+// replies; a maker replied to only gets the reply notification
+export function getCommentRecipients(makerId: string, parentAuthorId: string | null): CommentRecipient[] {
+  const recipients: CommentRecipient[] = [];
+  if (parentAuthorId) {
+    recipients.push({ recipientId: parentAuthorId, type: 'reply' });
+  }
+  if (makerId !== parentAuthorId) {
+    recipients.push({ recipientId: makerId, type: 'comment' });
+  }
+  return recipients;
+}
+
+// A user's follow notifications have one id per follower, so following someone again
+// after unfollowing them doesn't notify them twice
+export function getFollowNotificationId(followerId: string): string {
+  return `follow_${followerId}`;
+}
@@ -0,0 +1,27 @@
+// Cursor encoding shared by the repository adapters. Cursors hold the sort
+// values of the last launch on a page so the next read can start after it.
+
+export type PageCursor =
+  | { order: 'upvotes'; upvotes: number; id: string }
+  // Launch date in milliseconds
+  | { order: 'newest'; launchDate: number; id: string }
+  // `wrapped` is set once the walk has passed the last id and restarted from the first
+  | { order: 'id'; wrapped: boolean; id: string };
+
+export function encodeCursor(cursor: PageCursor): string {
+  return JSON.stringify(cursor);
+}
+
+export function decodeCursor<O extends PageCursor['order']>(
+  value: string | null | undefined,
+  order: O
+): Extract<PageCursor, { order: O }> | null {
+  if (!value) return null;
+
+  try {
+    const cursor = JSON.parse(value) as PageCursor;
+    return cursor.order === order ? cursor as Extract<PageCursor, { order: O }> : null;
+  } catch {
+    return null;
+  }
+}
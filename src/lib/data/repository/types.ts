@@ -0,0 +1,329 @@
+import { Launch, LaunchLookup } from '@/lib/types/launch';
+import { LaunchComment } from '@/lib/types/comment';
+import { AppNotification } from '@/lib/types/notification';
+import { MailContent } from '@/lib/email/mail';
+import { Category, CategoryInput, CollectionInput, LaunchCollection, MailCategory, NewsletterSubscriber, PublicProfile, SentDigest, Startup, StartupDetails, SubmittedStartup, TagRecord, UserProfile, UsernameClaim } from '@/lib/types';
+
+export type Unsubscribe = () => void;
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+export type ListingType = 'regular' | 'boosted' | 'premium';
+
+export interface NewSubmission {
+  name: string;
+  url: string;
+  socialHandle: string;
+  description: string;
+  category: string;
+  // Resolved against the tag registry when stored, so banned and merged tags never get in
+  tags: string[];
+  logoUrl: string;
+  userId: string;
+  details: StartupDetails;
+}
+
+export type RankingPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'all-time';
+
+export interface RankingQuery {
+  period: RankingPeriod;
+  // Period key from the launch calendar, e.g. '2025-W07'; ignored for 'all-time'
+  periodKey?: string;
+  category?: string;
+  limit: number;
+}
+
+export interface LaunchFilter {
+  // Launch week id from the launch calendar, e.g. '2025-W07'
+  week?: string;
+  listingType?: ListingType;
+  // Category id
+  category?: string;
+  tag?: string;
+}
+
+export interface LaunchPageQuery extends LaunchFilter {
+  // 'upvotes' ranks by votes and 'newest' by launch date, latest first. 'id' walks launches in id
+  // order starting at `wrapFrom` and wraps around to the first id, so any start point lists every launch once.
+  order: 'upvotes' | 'newest' | 'id';
+  wrapFrom?: string;
+  // Opaque cursor returned with the previous page
+  cursor?: string | null;
+  limit: number;
+}
+
+export interface LaunchPage {
+  launches: Launch[];
+  // Null once the last page has been read
+  nextCursor: string | null;
+}
+
+export interface ApprovalOptions {
+  listingType: ListingType;
+  doFollowBacklink: boolean;
+  scheduledLaunchDate: Date;
+}
+
+export interface LaunchesRepository {
+  // All approved launches, regardless of launch week
+  listApproved(): Promise<Launch[]>;
+  // The approved launches among the given ids, in the order given
+  listByIds(ids: string[]): Promise<Launch[]>;
+  // Approved launches submitted by the user, most recent launch first
+  listByMaker(userId: string): Promise<Launch[]>;
+  // The latest launches by any of the makers that have already launched, most recent first
+  listRecentByMakers(userIds: string[], limit: number): Promise<Launch[]>;
+  // Reads a single launch directly, including launches from past weeks
+  getById(id: string): Promise<LaunchLookup>;
+  getFirstLaunchDate(): Promise<Date | null>;
+  // Most upvoted approved launches for a period, ranked server-side
+  listTop(ranking: RankingQuery): Promise<Launch[]>;
+  // One page of approved launches, read with a cursor so the cost never depends on the catalogue size
+  listPage(page: LaunchPageQuery): Promise<LaunchPage>;
+  count(filter: LaunchFilter): Promise<number>;
+  // Snapshot listeners; the callback fires once with the current data and again on every change
+  // Featured launches are premium and boosted ones, which are listed regardless of launch week
+  subscribeFeatured(onChange: (launches: Launch[]) => void, onError: (error: Error) => void): Unsubscribe;
+  subscribeById(id: string, onChange: (lookup: LaunchLookup) => void, onError: (error: Error) => void): Unsubscribe;
+  // Adds or removes the user's vote and returns whether the user now upvotes the launch
+  toggleUpvote(launchId: string, userId: string): Promise<boolean>;
+  // Ids of every launch the user has upvoted
+  subscribeUserVotes(userId: string, onChange: (launchIds: string[]) => void, onError: (error: Error) => void): Unsubscribe;
+  countUpvotes(): Promise<number>;
+}
+
+export interface StartupsRepository {
+  // Full profile of an approved startup; null for unknown or unapproved ones
+  get(id: string): Promise<Startup | null>;
+  // Renames the startup and gives it a slug for the new name; old slugs keep resolving
+  rename(id: string, name: string): Promise<string>;
+}
+
+export interface SlugResolution {
+  launchId: string;
+  // The launch's current slug, which may differ from the one looked up
+  slug: string;
+}
+
+export interface SlugsRepository {
+  // Resolves a current slug, an old alias or a raw document id
+  resolve(slugOrId: string): Promise<SlugResolution | null>;
+}
+
+export interface CategoriesRepository {
+  // Every category, including archived and merged ones
+  list(): Promise<Category[]>;
+  create(input: CategoryInput): Promise<Category>;
+  // A new name gives the category a new slug; the old one is kept as an alias
+  update(id: string, changes: Partial<CategoryInput>): Promise<Category>;
+  setArchived(id: string, archived: boolean): Promise<void>;
+  // Moves every startup in the source category to the target and archives the
+  // source, whose URLs then lead to the target. Returns how many startups moved.
+  merge(sourceId: string, targetId: string): Promise<number>;
+}
+
+export interface TagsRepository {
+  // Tags with an admin decision; free-form tags have no record
+  list(): Promise<TagRecord[]>;
+  setCurated(tag: string, curated: boolean): Promise<void>;
+  // Bans the tag and strips it from every startup. Returns how many startups changed.
+  ban(tag: string): Promise<number>;
+  unban(tag: string): Promise<void>;
+  // Moves every startup from the source tag to the target. Returns how many startups changed.
+  merge(sourceTag: string, targetTag: string): Promise<number>;
+}
+
+export interface NewComment {
+  launchId: string;
+  parentId: string | null;
+  authorId: string;
+  authorName: string;
+  authorUsername: string | null;
+  authorAvatarUrl: string | null;
+  body: string;
+}
+
+export interface CommentsRepository {
+  // Every comment on the launch, oldest first, including deleted placeholders
+  subscribe(launchId: string, onChange: (comments: LaunchComment[]) => void, onError: (error: Error) => void): Unsubscribe;
+  create(comment: NewComment): Promise<string>;
+  update(launchId: string, commentId: string, body: string): Promise<void>;
+  // Comments with replies are blanked and kept as placeholders; others are removed
+  remove(launchId: string, commentId: string): Promise<void>;
+  // Adds or removes the user's upvote and returns whether the user now upvotes the comment
+  toggleUpvote(launchId: string, commentId: string, userId: string): Promise<boolean>;
+  // Ids of the comments on the launch the user has upvoted
+  subscribeUserUpvotes(launchId: string, userId: string, onChange: (commentIds: string[]) => void, onError: (error: Error) => void): Unsubscribe;
+}
+
+export interface BookmarksRepository {
+  // Saves or unsaves the launch and returns whether the user now has it saved
+  toggle(userId: string, launchId: string): Promise<boolean>;
+  // Ids of the user's saved launches, most recently saved first
+  subscribe(userId: string, onChange: (launchIds: string[]) => void, onError: (error: Error) => void): Unsubscribe;
+}
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export interface FollowsRepository {
+  // Follows or unfollows the user and returns whether the follower now follows them
+  toggle(followerId: string, followeeId: string): Promise<boolean>;
+  // Ids of the users the follower follows, most recently followed first
+  subscribeFollowing(followerId: string, onChange: (userIds: string[]) => void, onError: (error: Error) => void): Unsubscribe;
+  // Counted server-side; nothing on the user documents grows with the number of follows
+  count(uid: string): Promise<FollowCounts>;
+}
+
+export interface CollectionsRepository {
+  // The owner's collections, public or not, in the owner's order
+  listByOwner(ownerId: string): Promise<LaunchCollection[]>;
+  // Only the public ones, which anyone may list
+  listPublic(ownerId: string): Promise<LaunchCollection[]>;
+  getPublic(ownerId: string, slug: string): Promise<LaunchCollection | null>;
+  create(ownerId: string, input: CollectionInput): Promise<LaunchCollection>;
+  // A new name gives the collection a new slug
+  update(id: string, changes: Partial<CollectionInput>): Promise<LaunchCollection>;
+  remove(id: string): Promise<void>;
+  // Replaces the collection's launches; adding, removing and reordering all go through here
+  setLaunches(id: string, launchIds: string[]): Promise<void>;
+  // Stores the given order of the owner's collections
+  reorder(ownerId: string, collectionIds: string[]): Promise<void>;
+}
+
+export type NewNotification = Omit<AppNotification, 'id' | 'read' | 'createdAt'>;
+
+// Notifications are written by the repositories themselves, alongside the approval,
+// upvote, comment or follow they announce; nobody is notified of their own actions
+export interface NotificationsRepository {
+  // The user's latest notifications, newest first
+  subscribe(uid: string, limit: number, onChange: (notifications: AppNotification[]) => void, onError: (error: Error) => void): Unsubscribe;
+  markRead(uid: string, notificationIds: string[]): Promise<void>;
+}
+
+// The template and its data are rendered by whoever delivers the mail, see renderMail
+export type NewMail = MailContent & {
+  // The user the mail is for; null for newsletter subscribers
+  toUid: string | null;
+  // Newsletter mail only; mail for a subscription that ends in the meantime is not sent
+  subscriberId?: string;
+  to: string;
+  category: MailCategory;
+  // Held back until then, e.g. launch-day mail queued at approval
+  sendAt: Date;
+};
+
+export interface MailRepository {
+  // Queues the message as a `mail` document for the mail worker to deliver. With an id the
+  // message is queued at most once: nothing is queued when mail with that id exists.
+  enqueue(mail: NewMail, id?: string): Promise<string>;
+  // Queues many messages in as few writes as possible and returns how many were queued
+  enqueueAll(mails: NewMail[]): Promise<number>;
+}
+
+export interface NewsletterRepository {
+  // Starts an unconfirmed subscription and queues its confirmation email in the same write,
+  // replacing a pending subscription whose link expired. Returns false when the address is
+  // subscribed or waiting for confirmation. Addresses are lower-case.
+  subscribe(email: string, confirmation: (subscriberId: string) => NewMail): Promise<boolean>;
+  // Confirms the subscription with the given id; false when there is none or its link expired
+  confirm(subscriberId: string): Promise<boolean>;
+  // Ends the subscription with the given id; false when there is none
+  unsubscribe(subscriberId: string): Promise<boolean>;
+  listSubscribers(): Promise<NewsletterSubscriber[]>;
+  getSentDigest(weekId: string): Promise<SentDigest | null>;
+  recordDigestSent(weekId: string, recipients: number): Promise<void>;
+}
+
+export interface SubmissionsRepository {
+  list(filter: { userId?: string; status?: string }): Promise<SubmittedStartup[]>;
+  create(submission: NewSubmission): Promise<string>;
+  approve(id: string, options: ApprovalOptions): Promise<void>;
+  reject(id: string): Promise<void>;
+  count(): Promise<number>;
+}
+
+export interface UsersRepository {
+  get(uid: string): Promise<UserProfile | null>;
+  // Merges the given fields into the stored profile and its public copy. A username in the
+  // fields is claimed in the same write and the previous one released; rejects when
+  // another user holds it.
+  save(uid: string, profile: Partial<UserProfile>): Promise<void>;
+  isAdmin(uid: string): Promise<boolean>;
+  count(): Promise<number>;
+}
+
+export interface ProfilesRepository {
+  // Public fields only; null for users who never saved a profile
+  get(uid: string): Promise<PublicProfile | null>;
+  // Ids of the launches the user upvoted most recently. Only readable when the user opted in.
+  listUpvotedLaunchIds(uid: string, limit: number): Promise<string[]>;
+}
+
+// Usernames are claimed and released by UsersRepository.save, along with the profile
+export interface UsernamesRepository {
+  get(username: string): Promise<UsernameClaim | null>;
+}
+
+// The signed-in account as the app uses it; Firebase's User has all of these
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  emailVerified: boolean;
+}
+
+// Sign-in. Failures reject with a FirebaseError carrying Firebase's `auth/...` codes on
+// every adapter, so pages handle them the same way.
+export interface AuthRepository {
+  // Called with the current account straight away and on every sign-in and sign-out
+  subscribe(onChange: (user: AuthUser | null) => void): Unsubscribe;
+  signup(email: string, password: string): Promise<AuthUser>;
+  login(email: string, password: string): Promise<AuthUser>;
+  // Resolves null when sign-in continues through a redirect
+  loginWithGoogle(): Promise<AuthUser | null>;
+  logout(): Promise<void>;
+  resetPassword(email: string): Promise<void>;
+}
+
+export interface AssetsRepository {
+  // Stores the file under the given path and returns a public URL for it
+  upload(path: string, file: File): Promise<string>;
+}
+
+export interface MaintenanceRepository {
+  // Moves legacy `upvotedBy` arrays into per-user vote documents; safe to run repeatedly
+  migrateLegacyUpvotes(): Promise<{ launches: number; votes: number }>;
+  // Recomputes the stored launch period keys, e.g. after changing the launch time zone
+  backfillLaunchPeriods(): Promise<number>;
+  // Gives every startup created before slugs existed a slug of its own
+  backfillSlugs(): Promise<number>;
+  // Stores the given categories unless a category with the same id exists
+  seedCategories(categories: Category[]): Promise<number>;
+  // Writes the public copy of every stored profile, e.g. for users who signed up before public profiles
+  backfillProfiles(): Promise<number>;
+}
+
+export interface LaunchRepository {
+  launches: LaunchesRepository;
+  startups: StartupsRepository;
+  slugs: SlugsRepository;
+  categories: CategoriesRepository;
+  tags: TagsRepository;
+  comments: CommentsRepository;
+  bookmarks: BookmarksRepository;
+  follows: FollowsRepository;
+  notifications: NotificationsRepository;
+  mail: MailRepository;
+  newsletter: NewsletterRepository;
+  collections: CollectionsRepository;
+  submissions: SubmissionsRepository;
+  users: UsersRepository;
+  profiles: ProfilesRepository;
+  usernames: UsernamesRepository;
+  auth: AuthRepository;
+  assets: AssetsRepository;
+  maintenance: MaintenanceRepository;
+}
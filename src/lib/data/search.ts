@@ -0,0 +1,33 @@
+import { Launch } from '../types/launch';
+import { Category } from '../types';
+import { getAllApprovedLaunches } from './launches';
+import { getCategories, findCategoryById } from './categories';
+import { createSearchIndex, SearchIndex } from '../utils/search-index';
+
+let built: { launches: Launch[]; categories: Category[]; index: SearchIndex<Launch> } | null = null;
+
+function buildIndex(launches: Launch[], categories: Category[]): SearchIndex<Launch> {
+  // Equally good matches are listed most upvoted first
+  const ranked = [...launches].sort((a, b) => (b.upvotes || 0) - (a.upvotes || 0));
+
+  return createSearchIndex(ranked, [
+    { weight: 3, get: launch => launch.name },
+    { weight: 2, get: launch => findCategoryById(categories, launch.category)?.name },
+    { weight: 2, get: launch => launch.tags.join(' ') },
+    { weight: 1, get: launch => launch.description }
+  ]);
+}
+
+// Function to get the search index over every approved launch. The launches are
+// read once and cached; the index is rebuilt only when they or the categories change.
+export async function getSearchIndex(): Promise<SearchIndex<Launch>> {
+  const [launches, categories] = await Promise.all([
+    getAllApprovedLaunches(),
+    getCategories()
+  ]);
+
+  if (!built || built.launches !== launches || built.categories !== categories) {
+    built = { launches, categories, index: buildIndex(launches, categories) };
+  }
+  return built.index;
+}
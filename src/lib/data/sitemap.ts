@@ -0,0 +1,62 @@
+import { Launch } from '../types/launch';
+import { SitemapUrl } from '../sitemap/render';
+import { launchCalendar } from '../utils/launch-calendar';
+import { getAbsoluteUrl, getCategoryPath, getLaunchPath, getStartupPath, getWeekPath } from '../utils/paths';
+import { findCategoryById, getSelectableCategories } from './categories';
+import { getPublicPageData } from './public-pages';
+
+// Pages that exist regardless of the data. Those listing launches change whenever a launch does.
+const staticPages = [
+  { path: '/', listsLaunches: true },
+  { path: '/leaderboard', listsLaunches: true },
+  { path: '/weeks', listsLaunches: true },
+  { path: '/boost', listsLaunches: false }
+];
+
+function getUpdatedAt(launch: Launch): Date {
+  return new Date(launch.updatedAt || launch.launchDate);
+}
+
+function latest(dates: (Date | undefined)[]): Date | undefined {
+  return dates.reduce<Date | undefined>((current, date) => (date && (!current || date > current) ? date : current), undefined);
+}
+
+// Function to list every public page worth indexing: the static pages, each live launch's
+// share and profile pages, active categories and finished launch weeks. `lastmod` comes
+// from the `updatedAt` of what the page shows.
+export async function getSitemapUrls(): Promise<SitemapUrl[]> {
+  const { launches, categories, weeks } = await getPublicPageData();
+  const lastChange = latest(launches.map(getUpdatedAt));
+
+  const urls: SitemapUrl[] = staticPages.map(page => ({
+    loc: getAbsoluteUrl(page.path),
+    lastmod: page.listsLaunches ? lastChange : undefined
+  }));
+
+  launches.forEach(launch => {
+    const lastmod = getUpdatedAt(launch);
+    urls.push(
+      { loc: getAbsoluteUrl(getLaunchPath(launch.slug)), lastmod },
+      { loc: getAbsoluteUrl(getStartupPath(launch.slug)), lastmod }
+    );
+  });
+
+  getSelectableCategories(categories).forEach(category => {
+    const categoryLaunches = launches.filter(launch => findCategoryById(categories, launch.category)?.id === category.id);
+    urls.push({
+      loc: getAbsoluteUrl(getCategoryPath(category.slug)),
+      lastmod: latest([category.updatedAt, ...categoryLaunches.map(getUpdatedAt)])
+    });
+  });
+
+  weeks.forEach(week => {
+    const weekLaunches = launches.filter(launch => launchCalendar.isInWeek(launch.launchDate, week));
+    urls.push({
+      loc: getAbsoluteUrl(getWeekPath(week)),
+      // A week's ranking is final once the week ends
+      lastmod: latest([week.end, ...weekLaunches.map(getUpdatedAt)])
+    });
+  });
+
+  return urls;
+}
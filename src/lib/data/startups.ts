@@ -0,0 +1,23 @@
+import { Startup } from '../types';
+import { getRepository, SlugResolution } from './repository';
+import { getLeaderboard } from './launches';
+
+// Function to find the launch a slug, old slug or raw document id points at
+export async function resolveSlug(slugOrId: string): Promise<SlugResolution | null> {
+  return getRepository().slugs.resolve(slugOrId);
+}
+
+// Function to get the full profile of an approved startup
+export async function getStartupById(id: string): Promise<Startup | null> {
+  return getRepository().startups.get(id);
+}
+
+// Function to get a startup's podium place in its launch week, if it made the top 3
+export async function getWeeklyPlacement(startup: Startup): Promise<number | null> {
+  const launchDate = startup.submissionDetails?.scheduledLaunchDate;
+  if (!launchDate) return null;
+
+  const winners = await getLeaderboard('weekly', { date: launchDate, limit: 3 });
+  const index = winners.findIndex(launch => launch.id === startup.id);
+  return index === -1 ? null : index + 1;
+}
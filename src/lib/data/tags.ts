@@ -0,0 +1,42 @@
+import { TagRecord } from '../types';
+import { getRepository } from './repository';
+import { readCache, invalidateCache } from './cache';
+import { getAllApprovedLaunches } from './launches';
+
+// Cache configuration
+const CACHE_DURATION = 60 * 60 * 1000; // 1 hour; admins rarely change tags
+const TAGS_CACHE_KEY = 'tags:registry';
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+  curated: boolean;
+}
+
+// Function to get every tag with an admin decision
+export function getTagRegistry(): Promise<TagRecord[]> {
+  return readCache(TAGS_CACHE_KEY, () => getRepository().tags.list(), { maxAge: CACHE_DURATION });
+}
+
+export function clearTagsCache(): Promise<void> {
+  return invalidateCache('tags:');
+}
+
+// Function to count how many approved launches use each tag. Curated tags are listed
+// first, even unused ones, then the rest by popularity; banned and merged tags are left out.
+export async function getTagUsage(): Promise<TagUsage[]> {
+  const [launches, registry] = await Promise.all([getAllApprovedLaunches(), getTagRegistry()]);
+  const records = new Map(registry.map(record => [record.tag, record]));
+  const counts = new Map<string, number>();
+
+  registry.forEach(record => {
+    if (record.curated) counts.set(record.tag, 0);
+  });
+  launches.forEach(launch => {
+    launch.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count, curated: records.get(tag)?.curated ?? false }))
+    .filter(usage => !records.get(usage.tag)?.banned && !records.get(usage.tag)?.mergedInto)
+    .sort((a, b) => Number(b.curated) - Number(a.curated) || b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,23 @@
+import { toUsernameBase, withUsernameSuffix } from '../utils/usernames';
+import { getRepository } from './repository';
+
+// Names tried before giving up, e.g. janedoe, janedoe2 ... janedoe20
+const MAX_USERNAME_ATTEMPTS = 20;
+
+// Function to check whether a username is free for the given user, who may already hold it
+export async function isUsernameAvailable(username: string, uid?: string): Promise<boolean> {
+  const claim = await getRepository().usernames.get(username);
+  return !claim?.uid || claim.uid === uid;
+}
+
+// Function to pick a free username for an account made without choosing one, e.g. through
+// Google sign-in: the email's local part, or that with the first free number appended
+export async function findFreeUsername(email: string): Promise<string> {
+  const base = toUsernameBase(email);
+
+  for (let attempt = 1; attempt <= MAX_USERNAME_ATTEMPTS; attempt++) {
+    const username = attempt === 1 ? base : withUsernameSuffix(base, attempt);
+    if (await isUsernameAvailable(username)) return username;
+  }
+  throw new Error('Could not find a free username');
+}
@@ -0,0 +1,119 @@
+import { Launch } from '@/lib/types/launch';
+import { formatWeekRange, launchCalendar, LaunchWeek } from '@/lib/utils/launch-calendar';
+import { getAbsoluteUrl, getConfirmSubscriptionPath, getDigestPath, getLaunchPath, getUnsubscribePath, getWeekPath } from '@/lib/utils/paths';
+import { EmailBlock, RenderedEmail, renderEmail } from './render';
+
+const DESCRIPTION_LENGTH = 140;
+
+export interface WeeklyDigest {
+  week: LaunchWeek;
+  // Ranked by upvotes
+  topLaunches: Launch[];
+  // Premium listings of the same week, shown after the ranking
+  featured: Launch[];
+  // Every launch of the week, not just the top ones
+  launchCount: number;
+}
+
+// What the email shows of a launch; every queued copy stores these, so nothing more
+export type DigestLaunch = Pick<Launch, 'name' | 'description' | 'slug'>;
+
+// The digest as queued in `mail` documents; the mail worker renders each copy from it
+export interface DigestEmailData {
+  weekId: string;
+  topLaunches: DigestLaunch[];
+  featured: DigestLaunch[];
+  launchCount: number;
+  // Null for the copies admins preview or send themselves, which are marked as tests
+  subscriberId: string | null;
+}
+
+export interface ConfirmSubscriptionEmailData {
+  subscriberId: string;
+}
+
+function toDigestLaunch({ name, description, slug }: Launch): DigestLaunch {
+  return { name, description, slug };
+}
+
+export function toDigestEmailData(digest: WeeklyDigest, subscriberId: string | null): DigestEmailData {
+  return {
+    weekId: digest.week.id,
+    topLaunches: digest.topLaunches.map(toDigestLaunch),
+    featured: digest.featured.map(toDigestLaunch),
+    launchCount: digest.launchCount,
+    subscriberId
+  };
+}
+
+function shorten(text: string): string {
+  return text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+}
+
+function toLaunchBlock(launch: DigestLaunch, label?: string): EmailBlock {
+  return {
+    type: 'launch',
+    name: launch.name,
+    description: shorten(launch.description),
+    href: getAbsoluteUrl(getLaunchPath(launch.slug)),
+    label
+  };
+}
+
+function getDigestSubject(week: LaunchWeek, topLaunches: DigestLaunch[]): string {
+  return topLaunches.length
+    ? `${topLaunches[0].name} and the top launches of week ${week.week}`
+    : `The launches of week ${week.week}`;
+}
+
+// The digest as an email. Each subscriber gets their own copy with their own unsubscribe link.
+export function renderDigestEmail({ weekId, topLaunches, featured, launchCount, subscriberId }: DigestEmailData): RenderedEmail {
+  const week = launchCalendar.getWeekById(weekId);
+  if (!week) throw new Error(`Unknown launch week ${weekId}`);
+  const subject = getDigestSubject(week, topLaunches);
+
+  const blocks: EmailBlock[] = [
+    { type: 'heading', text: `Top launches of week ${week.week}, ${week.year}` },
+    {
+      type: 'paragraph',
+      text: `${launchCount} ${launchCount === 1 ? 'startup' : 'startups'} launched on Startups.ad in the week of ${formatWeekRange(week)}. Here are the ones the community upvoted most.`
+    },
+    ...topLaunches.map((launch, index) => toLaunchBlock(launch, `#${index + 1}`)),
+    { type: 'button', label: 'See every launch of the week', href: getAbsoluteUrl(getWeekPath(week)) }
+  ];
+
+  if (featured.length) {
+    blocks.push(
+      { type: 'heading', text: 'Featured' },
+      ...featured.map(launch => toLaunchBlock(launch))
+    );
+  }
+
+  return renderEmail({
+    subject: subscriberId ? subject : `[Test] ${subject}`,
+    preheader: topLaunches.length ? `This week's #1: ${topLaunches[0].name}` : undefined,
+    blocks,
+    footer: [
+      { type: 'paragraph', text: 'You are receiving this because you subscribed to the Startups.ad weekly digest.' },
+      { type: 'button', label: 'Read it on the web', href: getAbsoluteUrl(getDigestPath(week)) },
+      { type: 'button', label: 'Unsubscribe', href: getAbsoluteUrl(getUnsubscribePath(subscriberId || 'preview')) }
+    ]
+  });
+}
+
+// Sent once when an address subscribes; the digest only goes out after the link is followed
+export function renderConfirmSubscriptionEmail({ subscriberId }: ConfirmSubscriptionEmailData): RenderedEmail {
+  return renderEmail({
+    subject: 'Confirm your Startups.ad weekly digest subscription',
+    preheader: 'One click and the top launches arrive every week.',
+    blocks: [
+      { type: 'heading', text: 'Confirm your subscription' },
+      { type: 'paragraph', text: 'Someone, hopefully you, subscribed this address to the Startups.ad weekly digest of top launches.' },
+      { type: 'button', label: 'Confirm subscription', href: getAbsoluteUrl(getConfirmSubscriptionPath(subscriberId)) },
+      { type: 'paragraph', text: 'The link works for 24 hours. After that you can subscribe again for a new one.' }
+    ],
+    footer: [
+      { type: 'paragraph', text: "If you didn't subscribe, ignore this email. You won't get the digest unless the subscription is confirmed." }
+    ]
+  });
+}
@@ -0,0 +1,25 @@
+import { ConfirmSubscriptionEmailData, DigestEmailData, renderConfirmSubscriptionEmail, renderDigestEmail } from './digest';
+import { RenderedEmail } from './render';
+import { EmailRecipient, EmailTemplateData, EmailTemplateName, renderTemplate } from './templates';
+
+// Every template a `mail` document can name, with the data it is queued with
+export interface MailTemplateData extends EmailTemplateData {
+  'weekly-digest': DigestEmailData;
+  'confirm-subscription': ConfirmSubscriptionEmailData;
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+export type MailContent = { [K in MailTemplateName]: { template: K; data: MailTemplateData[K] } }[MailTemplateName];
+
+// Renders queued mail. The mail worker does this as it delivers, so the queue only ever
+// holds a template and its data, never markup someone else wrote.
+export function renderMail(mail: MailContent, recipient: EmailRecipient): RenderedEmail {
+  if (mail.template === 'weekly-digest') {
+    return renderDigestEmail(mail.data);
+  }
+  if (mail.template === 'confirm-subscription') {
+    return renderConfirmSubscriptionEmail(mail.data);
+  }
+  return renderTemplate<EmailTemplateName>(mail.template, mail.data, recipient);
+}
@@ -0,0 +1,107 @@
+// Emails are composed from a few plain blocks and rendered twice: as inline-styled
+// HTML for mail clients and as plain text. Every value is escaped, so user-written
+// names can't inject markup.
+
+export type EmailBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'button'; label: string; href: string }
+  // A launch in a list, e.g. in the weekly digest
+  | { type: 'launch'; name: string; description: string; href: string; label?: string };
+
+export interface EmailContent {
+  subject: string;
+  // Preview line shown by most inboxes next to the subject
+  preheader?: string;
+  blocks: EmailBlock[];
+  // Small print under the message, e.g. how to turn these emails off
+  footer: EmailBlock[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const BRAND = 'Startups.ad';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function blockToHtml(block: EmailBlock, isFooter: boolean): string {
+  const color = isFooter ? '#71717a' : '#18181b';
+  const size = isFooter ? '12px' : '16px';
+
+  switch (block.type) {
+    case 'heading':
+      return `<h1 style="margin:0 0 16px;font-size:22px;line-height:1.3;color:#18181b;">${escapeHtml(block.text)}</h1>`;
+    case 'paragraph':
+      return `<p style="margin:0 0 16px;font-size:${size};line-height:1.5;color:${color};">${escapeHtml(block.text)}</p>`;
+    case 'button':
+      return isFooter
+        ? `<p style="margin:0 0 8px;font-size:${size};"><a href="${escapeHtml(block.href)}" style="color:${color};">${escapeHtml(block.label)}</a></p>`
+        : `<p style="margin:24px 0;"><a href="${escapeHtml(block.href)}" style="display:inline-block;padding:12px 20px;border-radius:8px;background:#18181b;color:#ffffff;font-size:16px;font-weight:600;text-decoration:none;">${escapeHtml(block.label)}</a></p>`;
+    case 'launch':
+      return `<div style="margin:0 0 16px;padding:12px 16px;border:1px solid #e4e4e7;border-radius:8px;">
+<p style="margin:0 0 4px;font-size:16px;font-weight:600;">${block.label ? `<span style="color:#71717a;">${escapeHtml(block.label)}</span> ` : ''}<a href="${escapeHtml(block.href)}" style="color:#18181b;text-decoration:none;">${escapeHtml(block.name)}</a></p>
+<p style="margin:0;font-size:14px;line-height:1.5;color:#52525b;">${escapeHtml(block.description)}</p>
+</div>`;
+  }
+}
+
+function blockToText(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${block.text}\n${'='.repeat(block.text.length)}`;
+    case 'paragraph':
+      return block.text;
+    case 'button':
+      return `${block.label}: ${block.href}`;
+    case 'launch':
+      return `${block.label ? `${block.label} ` : ''}${block.name}\n${block.description}\n${block.href}`;
+  }
+}
+
+export function renderEmail({ subject, preheader, blocks, footer }: EmailContent): RenderedEmail {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+${preheader ? `<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(preheader)}</div>\n` : ''}<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:32px 16px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;padding:32px;">
+<tr><td>
+<p style="margin:0 0 24px;font-size:18px;font-weight:700;color:#18181b;">${BRAND}</p>
+${blocks.map(block => blockToHtml(block, false)).join('\n')}
+</td></tr>
+</table>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;padding:16px 32px;">
+<tr><td>
+${footer.map(block => blockToHtml(block, true)).join('\n')}
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+
+  const text = [
+    ...blocks.map(blockToText),
+    '--',
+    ...footer.map(blockToText)
+  ].join('\n\n') + '\n';
+
+  return { subject, html, text };
+}
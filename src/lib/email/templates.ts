@@ -0,0 +1,154 @@
+import { EmailCategory, EmailPreferences } from '@/lib/types';
+import { launchCalendar } from '@/lib/utils/launch-calendar';
+import { getAbsoluteUrl } from '@/lib/utils/paths';
+import { EmailBlock, EmailContent, RenderedEmail, renderEmail } from './render';
+
+export interface EmailCategoryInfo {
+  id: EmailCategory;
+  label: string;
+  description: string;
+  // Account emails can't be turned off
+  optional: boolean;
+}
+
+export const emailCategories: EmailCategoryInfo[] = [
+  {
+    id: 'submissions',
+    label: 'Submission updates',
+    description: 'When a startup you submitted is approved or rejected',
+    optional: true
+  },
+  {
+    id: 'launches',
+    label: 'Launch day',
+    description: 'On the day your startup goes live',
+    optional: true
+  },
+  {
+    id: 'account',
+    label: 'Account',
+    description: 'Welcome and security emails about your account',
+    optional: false
+  }
+];
+
+// What each template needs besides the recipient, keyed by template name
+export interface EmailTemplateData {
+  'submission-approved': { launchName: string; launchPath: string; launchDate: Date; launchesNow: boolean };
+  'submission-rejected': { launchName: string };
+  'launch-day': { launchName: string; launchPath: string };
+  'welcome': Record<string, never>;
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface EmailRecipient {
+  displayName: string;
+}
+
+interface EmailTemplate<T> {
+  category: EmailCategory;
+  compose(data: T, recipient: EmailRecipient): Omit<EmailContent, 'footer'>;
+}
+
+function formatLaunchDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: launchCalendar.config.timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric'
+  }).format(date);
+}
+
+const greeting = (recipient: EmailRecipient): EmailBlock => ({
+  type: 'paragraph',
+  text: recipient.displayName ? `Hi ${recipient.displayName},` : 'Hi there,'
+});
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> } = {
+  'submission-approved': {
+    category: 'submissions',
+    compose: ({ launchName, launchPath, launchDate, launchesNow }, recipient) => ({
+      subject: `${launchName} is approved`,
+      preheader: launchesNow ? `${launchName} is live now.` : `${launchName} launches on ${formatLaunchDate(launchDate)}.`,
+      blocks: [
+        { type: 'heading', text: `${launchName} is approved 🎉` },
+        greeting(recipient),
+        {
+          type: 'paragraph',
+          text: launchesNow
+            ? `Good news: ${launchName} has been approved and is live on Startups.ad right now.`
+            : `Good news: ${launchName} has been approved and launches on ${formatLaunchDate(launchDate)}. We'll email you again on launch day.`
+        },
+        { type: 'paragraph', text: 'Share the launch page with your audience: the top 3 launches of the week get a do-follow backlink.' },
+        { type: 'button', label: 'View your launch', href: getAbsoluteUrl(launchPath) }
+      ]
+    })
+  },
+  'submission-rejected': {
+    category: 'submissions',
+    compose: ({ launchName }, recipient) => ({
+      subject: `${launchName} was not approved`,
+      blocks: [
+        greeting(recipient),
+        { type: 'paragraph', text: `Thanks for submitting ${launchName}. Unfortunately we couldn't approve it this time.` },
+        { type: 'paragraph', text: 'Submissions are usually rejected for a missing or broken website, or a description that does not explain the product. You are welcome to submit again.' },
+        { type: 'button', label: 'See your submissions', href: getAbsoluteUrl('/profile') }
+      ]
+    })
+  },
+  'launch-day': {
+    category: 'launches',
+    compose: ({ launchName, launchPath }, recipient) => ({
+      subject: `${launchName} is live today`,
+      preheader: 'Your launch week starts now.',
+      blocks: [
+        { type: 'heading', text: `${launchName} is live 🚀` },
+        greeting(recipient),
+        { type: 'paragraph', text: `Today is launch day: ${launchName} is now listed with this week's launches.` },
+        { type: 'paragraph', text: 'Upvotes over the next week decide the leaderboard, so now is the time to share it.' },
+        { type: 'button', label: 'Open your launch page', href: getAbsoluteUrl(launchPath) }
+      ]
+    })
+  },
+  'welcome': {
+    category: 'account',
+    compose: (_data, recipient) => ({
+      subject: 'Welcome to Startups.ad',
+      blocks: [
+        { type: 'heading', text: 'Welcome to Startups.ad' },
+        greeting(recipient),
+        { type: 'paragraph', text: 'Your account is ready. You can upvote launches, follow makers and submit your own startup.' },
+        { type: 'paragraph', text: "If you didn't create this account, reset the password from the login page or reply to this email." },
+        { type: 'button', label: 'Submit your startup', href: getAbsoluteUrl('/submit') }
+      ]
+    })
+  }
+};
+
+export function getTemplateCategory(name: EmailTemplateName): EmailCategory {
+  return templates[name].category;
+}
+
+export function isOptedOut(preferences: EmailPreferences | undefined, category: EmailCategory): boolean {
+  const info = emailCategories.find(current => current.id === category);
+  return Boolean(info?.optional && preferences?.[category] === false);
+}
+
+export function renderTemplate<K extends EmailTemplateName>(
+  name: K,
+  data: EmailTemplateData[K],
+  recipient: EmailRecipient
+): RenderedEmail {
+  const template: EmailTemplate<EmailTemplateData[K]> = templates[name];
+  const info = emailCategories.find(current => current.id === template.category);
+
+  const footer: EmailBlock[] = info?.optional
+    ? [
+      { type: 'paragraph', text: `You are receiving this because "${info.label}" is turned on in your email settings.` },
+      { type: 'button', label: 'Change email settings', href: getAbsoluteUrl('/profile') }
+    ]
+    : [{ type: 'paragraph', text: 'You are receiving this because you have an account on Startups.ad.' }];
+
+  return renderEmail({ ...template.compose(data, recipient), footer });
+}
@@ -0,0 +1,24 @@
+// Delivery is pluggable: the mail worker picks SMTP or a file outbox (see
+// scripts/mail), and the in-memory data source prints mail to the console.
+
+export interface OutgoingMail {
+  id: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+export function createConsoleTransport(log: (message: string) => void = console.info): MailTransport {
+  return {
+    name: 'console',
+    async send(mail) {
+      log(`[mail ${mail.id}] To: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}`);
+    }
+  };
+}
@@ -0,0 +1,117 @@
+// Launch feeds are described once and rendered as RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+// Every URL in a feed is absolute, since feed readers resolve nothing against the site.
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  date: Date;
+  // The launch's own website
+  externalUrl: string;
+  imageUrl?: string;
+  authorName?: string;
+  categories: string[];
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  // The page the feed mirrors, e.g. the category page
+  homeUrl: string;
+  // Where the three formats are published, e.g. https://startups.ad/category/ai/
+  baseUrl: string;
+  items: FeedItem[];
+}
+
+export const feedFiles = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json'
+} as const;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Newest item date, or now for an empty feed
+function getUpdated(feed: Feed): Date {
+  return feed.items.reduce<Date | null>((latest, item) => (!latest || item.date > latest ? item.date : latest), null) ?? new Date();
+}
+
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map(item => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.id)}</guid>
+      <description>${escapeXml(item.summary)}</description>
+      <pubDate>${item.date.toUTCString()}</pubDate>
+${item.authorName ? `      <dc:creator>${escapeXml(item.authorName)}</dc:creator>\n` : ''}${item.categories.map(category => `      <category>${escapeXml(category)}</category>\n`).join('')}    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>en</language>
+    <lastBuildDate>${getUpdated(feed).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.baseUrl + feedFiles.rss)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <link rel="related" href="${escapeXml(item.externalUrl)}" />
+    <updated>${item.date.toISOString()}</updated>
+    <published>${item.date.toISOString()}</published>
+${item.authorName ? `    <author><name>${escapeXml(item.authorName)}</name></author>\n` : ''}    <summary>${escapeXml(item.summary)}</summary>
+${item.categories.map(category => `    <category term="${escapeXml(category)}" />\n`).join('')}  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.baseUrl + feedFiles.atom)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.baseUrl + feedFiles.atom)}" />
+  <updated>${getUpdated(feed).toISOString()}</updated>
+  <author><name>Startups.ad</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.baseUrl + feedFiles.json,
+    language: 'en',
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      external_url: item.externalUrl,
+      title: item.title,
+      summary: item.summary,
+      content_text: item.summary,
+      image: item.imageUrl,
+      date_published: item.date.toISOString(),
+      authors: item.authorName ? [{ name: item.authorName }] : undefined,
+      tags: item.categories
+    }))
+  }, null, 2) + '\n';
+}
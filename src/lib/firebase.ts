@@ -1,7 +1,7 @@
-import { initializeApp } from 'firebase/app';
-import { getAuth, GoogleAuthProvider } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
-import { getStorage } from 'firebase/storage';
+import { FirebaseApp, initializeApp } from 'firebase/app';
+import { Auth, getAuth, GoogleAuthProvider } from 'firebase/auth';
+import { Firestore, getFirestore } from 'firebase/firestore';
+import { FirebaseStorage, getStorage } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -12,12 +12,42 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
+// Without a config the app can still run on the memory data source, which signs in offline
+const isFirebaseConfigured = Boolean(firebaseConfig.apiKey);
 
-// Initialize services
-export const auth = getAuth(app);
-auth.useDeviceLanguage(); // Set language to user's device language
+// Services start on first use, so importing this module never needs a config
+let app: FirebaseApp | undefined;
+let auth: Auth | undefined;
+let db: Firestore | undefined;
+let storage: FirebaseStorage | undefined;
+
+function getFirebaseApp(): FirebaseApp {
+  if (!app) {
+    if (!isFirebaseConfigured) {
+      throw new Error('Firebase is not configured. Set the VITE_FIREBASE_* variables or VITE_DATA_SOURCE=memory.');
+    }
+    app = initializeApp(firebaseConfig);
+  }
+  return app;
+}
+
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    auth.useDeviceLanguage(); // Set language to user's device language
+  }
+  return auth;
+}
+
+export function getDb(): Firestore {
+  db ??= getFirestore(getFirebaseApp());
+  return db;
+}
+
+export function getFirebaseStorage(): FirebaseStorage {
+  storage ??= getStorage(getFirebaseApp());
+  return storage;
+}
 
 // Initialize and configure Google Auth Provider
 export const googleProvider = new GoogleAuthProvider();
@@ -27,7 +57,3 @@ googleProvider.setCustomParameters({
   // Allow users to select account every time
   prompt: 'select_account'
 });
-
-// Export other services
-export const db = getFirestore(app);
-export const storage = getStorage(app);
\ No newline at end of file
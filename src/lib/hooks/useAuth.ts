@@ -1,93 +1,32 @@
 import { useState, useEffect } from 'react';
-import { 
-  User,
-  createUserWithEmailAndPassword,
-  signInWithEmailAndPassword,
-  signOut,
-  sendPasswordResetEmail,
-  onAuthStateChanged,
-  signInWithPopup,
-  signInWithRedirect,
-  getRedirectResult,
-  browserPopupRedirectResolver,
-  browserLocalPersistence,
-  setPersistence
-} from 'firebase/auth';
-import { auth, googleProvider } from '@/lib/firebase';
+import { AuthUser, getRepository } from '@/lib/data/repository';
+import { clearSubmissionsCache } from '@/lib/hooks/useSubmissions';
 
 export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Set persistence to LOCAL
-    setPersistence(auth, browserLocalPersistence);
-
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    return getRepository().auth.subscribe((user) => {
       setUser(user);
       setLoading(false);
-    });
 
-    // Check for redirect result on mount
-    getRedirectResult(auth, browserPopupRedirectResolver).then((result) => {
-      if (result?.user) {
-        setUser(result.user);
+      // Signed out here or in another tab: nothing cached for a user may outlive the session
+      if (!user) {
+        clearSubmissionsCache().catch(error => console.error('Error clearing cached submissions:', error));
       }
-    }).catch((error) => {
-      console.error('Redirect sign-in error:', error);
     });
-
-    return unsubscribe;
   }, []);
 
-  const signup = async (email: string, password: string) => {
-    try {
-      const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-      return userCredential.user;
-    } catch (error) {
-      throw error;
-    }
-  };
+  const signup = (email: string, password: string) => getRepository().auth.signup(email, password);
 
-  const login = async (email: string, password: string) => {
-    try {
-      const userCredential = await signInWithEmailAndPassword(auth, email, password);
-      return userCredential.user;
-    } catch (error) {
-      throw error;
-    }
-  };
+  const login = (email: string, password: string) => getRepository().auth.login(email, password);
 
-  const loginWithGoogle = async () => {
-    try {
-      // Try popup first with explicit resolver
-      const result = await signInWithPopup(auth, googleProvider, browserPopupRedirectResolver);
-      return result.user;
-    } catch (error: any) {
-      // If popup is blocked or fails, fall back to redirect
-      if (error.code === 'auth/popup-blocked' || error.code === 'auth/popup-closed-by-user') {
-        await signInWithRedirect(auth, googleProvider);
-        return null; // User will be redirected
-      }
-      throw error;
-    }
-  };
+  const loginWithGoogle = () => getRepository().auth.loginWithGoogle();
 
-  const logout = async () => {
-    try {
-      await signOut(auth);
-    } catch (error) {
-      throw error;
-    }
-  };
+  const logout = () => getRepository().auth.logout();
 
-  const resetPassword = async (email: string) => {
-    try {
-      await sendPasswordResetEmail(auth, email);
-    } catch (error) {
-      throw error;
-    }
-  };
+  const resetPassword = (email: string) => getRepository().auth.resetPassword(email);
 
   return {
     user,
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toggleBookmark } from '@/lib/data/collections';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { useBookmarks } from '@/lib/hooks/useBookmarks';
+import { useToast } from '@/hooks/use-toast';
+
+export function useBookmark(launchId: string) {
+  const { user } = useAuthContext();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const bookmarks = useBookmarks(user?.uid);
+  const [isSaving, setIsSaving] = useState(false);
+  const [optimistic, setOptimistic] = useState<boolean | null>(null);
+
+  // Live updates replace the optimistic value
+  useEffect(() => {
+    setOptimistic(null);
+  }, [bookmarks]);
+
+  const isBookmarked = optimistic ?? bookmarks.includes(launchId);
+
+  const handleBookmark = async () => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to save startups",
+      });
+      navigate('/login');
+      return;
+    }
+
+    if (isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setOptimistic(!isBookmarked);
+      await toggleBookmark(launchId, user.uid);
+    } catch (error) {
+      console.error('Error updating bookmark:', error);
+      setOptimistic(null);
+      toast({
+        title: "Error",
+        description: "Failed to update saved startups. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { isBookmarked, isSaving, handleBookmark };
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { subscribeToBookmarks } from '@/lib/data/launch-feed';
+
+const NO_BOOKMARKS: string[] = [];
+
+// Live list of launch ids the given user has saved, most recently saved first
+export function useBookmarks(userId?: string): string[] {
+  const [bookmarks, setBookmarks] = useState<string[]>(NO_BOOKMARKS);
+
+  useEffect(() => {
+    if (!userId) {
+      setBookmarks(NO_BOOKMARKS);
+      return;
+    }
+
+    return subscribeToBookmarks(userId, {
+      next: setBookmarks
+    });
+  }, [userId]);
+
+  return bookmarks;
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { Category } from '@/lib/types';
+import { getCategories, subscribeCategories } from '@/lib/data/categories';
+
+// Shared by every component that labels launches; the list is read once and cached
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const unsubscribe = subscribeCategories(updated => {
+      if (!isCancelled) setCategories(updated);
+    });
+
+    getCategories()
+      .then(loaded => {
+        if (!isCancelled) setCategories(loaded);
+      })
+      .catch(error => {
+        console.error('Error fetching categories:', error);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { categories, isLoading };
+}
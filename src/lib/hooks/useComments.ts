@@ -0,0 +1,66 @@
+import { useState, useEffect, useMemo } from 'react';
+import { LaunchComment } from '@/lib/types/comment';
+import { buildCommentThreads } from '@/lib/data/comments';
+import { subscribeToComments, subscribeToCommentUpvotes } from '@/lib/data/launch-feed';
+import { getRepository } from '@/lib/data/repository';
+
+const EMPTY_UPVOTES: ReadonlySet<string> = new Set();
+
+// Live comment threads of a launch, with what the signed-in user may do with them
+export function useComments(launchId: string, userId?: string) {
+  const [comments, setComments] = useState<LaunchComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [upvotedIds, setUpvotedIds] = useState<ReadonlySet<string>>(EMPTY_UPVOTES);
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    return subscribeToComments(launchId, {
+      next: (loaded) => {
+        setComments(loaded);
+        setError(null);
+        setIsLoading(false);
+      },
+      error: () => {
+        setError('Failed to load comments');
+        setIsLoading(false);
+      }
+    });
+  }, [launchId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setUpvotedIds(EMPTY_UPVOTES);
+      return;
+    }
+
+    return subscribeToCommentUpvotes(launchId, userId, {
+      next: (commentIds) => setUpvotedIds(new Set(commentIds))
+    });
+  }, [launchId, userId]);
+
+  // Admins may edit and delete any comment
+  useEffect(() => {
+    let isCancelled = false;
+    setIsAdmin(false);
+    if (!userId) return;
+
+    getRepository().users.isAdmin(userId)
+      .then(admin => {
+        if (!isCancelled) setIsAdmin(admin);
+      })
+      .catch(error => {
+        console.error('Error checking admin status:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const count = comments.filter(comment => !comment.deleted).length;
+
+  return { threads, count, upvotedIds, isAdmin, isLoading, error };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toggleFollow } from '@/lib/data/follows';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { useFollowing } from '@/lib/hooks/useFollowing';
+import { useToast } from '@/hooks/use-toast';
+
+export function useFollow(followeeId: string, onChange?: (isFollowing: boolean) => void) {
+  const { user } = useAuthContext();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { following } = useFollowing(user?.uid);
+  const [isSaving, setIsSaving] = useState(false);
+  const [optimistic, setOptimistic] = useState<boolean | null>(null);
+
+  // Live updates replace the optimistic value
+  useEffect(() => {
+    setOptimistic(null);
+  }, [following]);
+
+  const isFollowing = optimistic ?? following.includes(followeeId);
+
+  const handleFollow = async () => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to follow makers",
+      });
+      navigate('/login');
+      return;
+    }
+
+    if (isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setOptimistic(!isFollowing);
+      onChange?.(await toggleFollow(followeeId, user.uid));
+    } catch (error) {
+      console.error('Error updating follow:', error);
+      setOptimistic(null);
+      toast({
+        title: "Error",
+        description: "Failed to update who you follow. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { isFollowing, isSaving, handleFollow };
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { subscribeToFollowing } from '@/lib/data/launch-feed';
+
+const NO_FOLLOWS: string[] = [];
+
+// Live list of ids of the users the given user follows, most recently followed first.
+// Loading until the first list for the current user arrives, so an empty list means
+// they really follow nobody.
+export function useFollowing(userId?: string) {
+  // Remember whose list the state holds, so switching users never shows the previous list
+  const [state, setState] = useState<{ userId?: string; following: string[] }>({ following: NO_FOLLOWS });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToFollowing(userId, {
+      next: following => setState({ userId, following }),
+      error: () => setState({ userId, following: NO_FOLLOWS })
+    });
+  }, [userId]);
+
+  const isLoading = !!userId && state.userId !== userId;
+  return { following: isLoading || !userId ? NO_FOLLOWS : state.following, isLoading };
+}
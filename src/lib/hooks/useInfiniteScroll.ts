@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+
+// Calls `onLoadMore` whenever the returned sentinel element scrolls into view
+export function useInfiniteScroll<T extends HTMLElement = HTMLDivElement>(onLoadMore: () => void, enabled: boolean) {
+  const sentinelRef = useRef<T>(null);
+
+  useEffect(() => {
+    if (!enabled || !sentinelRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { threshold: 0.1 }
+    );
+
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [onLoadMore, enabled]);
+
+  return sentinelRef;
+}
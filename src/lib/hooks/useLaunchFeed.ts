@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { Launch, LaunchLookup } from '@/lib/types/launch';
+import { subscribeToFeaturedLaunches, subscribeToLaunch } from '@/lib/data/launch-feed';
+
+export type LaunchState = LaunchLookup | { status: 'loading' } | { status: 'error' };
+
+// Live list of the premium and boosted launches shown on the homepage
+export function useFeaturedLaunches() {
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToFeaturedLaunches({
+      next: (featured) => {
+        setLaunches(featured);
+        setError(null);
+        setIsLoading(false);
+      },
+      error: () => {
+        setError('Failed to load launches');
+        setIsLoading(false);
+      }
+    });
+  }, []);
+
+  return { launches, isLoading, error };
+}
+
+// Live state of a single launch, including past weeks
+export function useLaunch(id?: string): LaunchState {
+  // Remember which id the state belongs to, so switching ids never shows the previous launch
+  const [state, setState] = useState<{ id?: string; value: LaunchState }>({ value: { status: 'loading' } });
+
+  useEffect(() => {
+    if (!id) return;
+
+    return subscribeToLaunch(id, {
+      next: value => setState({ id, value }),
+      error: () => setState({ id, value: { status: 'error' } })
+    });
+  }, [id]);
+
+  if (!id) return { status: 'not-found' };
+  return state.id === id ? state.value : { status: 'loading' };
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Launch } from '@/lib/types/launch';
+import { getSearchIndex } from '@/lib/data/search';
+import { SearchIndex } from '@/lib/utils/search-index';
+
+// The index is only loaded once `enabled`, e.g. when the palette first opens
+export function useLaunchSearch(query: string, { enabled = true, limit = 20 } = {}) {
+  const [index, setIndex] = useState<SearchIndex<Launch> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isCancelled = false;
+
+    getSearchIndex()
+      .then(loaded => {
+        if (isCancelled) return;
+        setIndex(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading search index:', err);
+        if (!isCancelled) setError('Search is unavailable right now');
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [enabled]);
+
+  const results = useMemo(() => (index ? index.search(query, limit) : []), [index, query, limit]);
+
+  return { results, isLoading: enabled && !index && !error, error };
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { subscribeToNotifications } from '@/lib/data/launch-feed';
+import { AppNotification } from '@/lib/types/notification';
+
+const NO_NOTIFICATIONS: AppNotification[] = [];
+
+// Live list of the user's latest notifications, newest first, and how many of them are unread
+export function useNotifications(userId?: string) {
+  const [notifications, setNotifications] = useState<AppNotification[]>(NO_NOTIFICATIONS);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications(NO_NOTIFICATIONS);
+      return;
+    }
+
+    return subscribeToNotifications(userId, {
+      next: setNotifications,
+      error: error => console.error('Error fetching notifications:', error)
+    });
+  }, [userId]);
+
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  return { notifications, unreadCount };
+}
@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { defaultMeta, getHeadTags, HeadTags, PageMeta } from '@/lib/seo/meta';
+
+function applyHeadTags(tags: HeadTags) {
+  document.title = tags.title;
+
+  tags.meta.forEach(({ attribute, key, content }) => {
+    let meta = document.head.querySelector(`meta[${attribute}="${key}"]`);
+    if (!meta) {
+      meta = document.createElement('meta');
+      meta.setAttribute(attribute, key);
+      document.head.appendChild(meta);
+    }
+    meta.setAttribute('content', content);
+  });
+
+  let canonical = document.head.querySelector('link[rel="canonical"]');
+  if (!tags.canonical) {
+    canonical?.remove();
+    return;
+  }
+  if (!canonical) {
+    canonical = document.createElement('link');
+    canonical.setAttribute('rel', 'canonical');
+    document.head.appendChild(canonical);
+  }
+  canonical.setAttribute('href', tags.canonical);
+}
+
+// Keeps <head> in step with the page while navigating inside the app, matching the tags
+// the page was prerendered with. Leaving the page puts the site defaults back, so a
+// launch's tags don't linger on the next page. Pass a memoized value.
+export function usePageMeta(meta: PageMeta | null) {
+  useEffect(() => {
+    if (!meta) return;
+
+    applyHeadTags(getHeadTags(meta));
+    return () => applyHeadTags(getHeadTags(defaultMeta));
+  }, [meta]);
+}
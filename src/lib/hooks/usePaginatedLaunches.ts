@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Launch, LaunchLookup } from '@/lib/types/launch';
+import { getRepository, LaunchPageQuery, Unsubscribe } from '@/lib/data/repository';
+import { countLaunches } from '@/lib/data/launches';
+import { subscribeToLaunch } from '@/lib/data/launch-feed';
+
+const DEFAULT_PAGE_SIZE = 10;
+
+export type PaginatedLaunchesQuery = Omit<LaunchPageQuery, 'cursor' | 'limit'>;
+
+// Launches read page by page with repository cursors, so each page is only read once.
+// Pages are merged by id, so a launch that moved between reads never shows twice, and
+// loaded launches stay live: vote counts update, and launches that stop matching the
+// query, e.g. after becoming boosted, drop out.
+// A null query loads nothing, for views that don't list paged launches.
+export function usePaginatedLaunches(pageQuery: PaginatedLaunchesQuery | null, pageSize = DEFAULT_PAGE_SIZE) {
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [lookups, setLookups] = useState<Record<string, LaunchLookup>>({});
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Identifies the current query so pages requested for an older one are dropped
+  const requestRef = useRef(0);
+  const subscriptions = useRef(new Map<string, Unsubscribe>());
+
+  const isEnabled = pageQuery !== null;
+  const { order = 'id', wrapFrom, week, listingType, category, tag }: Partial<PaginatedLaunchesQuery> = pageQuery ?? {};
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+
+    if (!isEnabled) {
+      setLaunches([]);
+      setNextCursor(null);
+      setTotal(0);
+      setIsLoading(false);
+      setIsLoadingMore(false);
+      setError(null);
+      return;
+    }
+
+    const filter = { week, listingType, category, tag };
+
+    // The previous list stays on screen until the first page of the new query arrives
+    setNextCursor(null);
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setError(null);
+
+    countLaunches(filter)
+      .then(count => {
+        if (request === requestRef.current) setTotal(count);
+      })
+      .catch(err => console.error('Error counting launches:', err));
+
+    getRepository().launches.listPage({ ...filter, order, wrapFrom, limit: pageSize })
+      .then(page => {
+        if (request !== requestRef.current) return;
+        setLaunches(page.launches);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(err => {
+        console.error('Error fetching launches:', err);
+        if (request !== requestRef.current) return;
+        setLaunches([]);
+        setError('Failed to load launches');
+      })
+      .finally(() => {
+        if (request === requestRef.current) setIsLoading(false);
+      });
+  }, [isEnabled, order, wrapFrom, week, listingType, category, tag, pageSize]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    const request = requestRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await getRepository().launches.listPage({
+        week, listingType, category, tag, order, wrapFrom, cursor: nextCursor, limit: pageSize
+      });
+      if (request !== requestRef.current) return;
+
+      setLaunches(prev => {
+        const loaded = new Set(prev.map(launch => launch.id));
+        return [...prev, ...page.launches.filter(launch => !loaded.has(launch.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error fetching more launches:', err);
+      if (request === requestRef.current) setError('Failed to load more launches');
+    } finally {
+      if (request === requestRef.current) setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoading, isLoadingMore, week, listingType, category, tag, order, wrapFrom, pageSize]);
+
+  // Keep one shared listener per loaded launch
+  useEffect(() => {
+    const current = subscriptions.current;
+    const ids = new Set(launches.map(launch => launch.id));
+
+    current.forEach((unsubscribe, id) => {
+      if (!ids.has(id)) {
+        unsubscribe();
+        current.delete(id);
+      }
+    });
+
+    ids.forEach(id => {
+      if (current.has(id)) return;
+      current.set(id, subscribeToLaunch(id, {
+        next: lookup => setLookups(prev => ({ ...prev, [id]: lookup }))
+      }));
+    });
+  }, [launches]);
+
+  useEffect(() => {
+    const current = subscriptions.current;
+    return () => {
+      current.forEach(unsubscribe => unsubscribe());
+      current.clear();
+    };
+  }, []);
+
+  // Pages keep their order; only the launch data itself follows live updates
+  const liveLaunches = useMemo(() => launches.flatMap(launch => {
+    const lookup = lookups[launch.id];
+    if (!lookup) return [launch];
+    if (lookup.status !== 'approved') return [];
+    return !listingType || lookup.launch.listingType === listingType ? [lookup.launch] : [];
+  }), [launches, lookups, listingType]);
+
+  return {
+    launches: liveLaunches,
+    total,
+    hasMore: nextCursor !== null,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { resolveSlug } from '@/lib/data/startups';
+import { SlugResolution } from '@/lib/data/repository';
+
+export type SlugResolutionState =
+  | { status: 'loading' }
+  | { status: 'not-found' }
+  | { status: 'error' }
+  | ({ status: 'resolved' } & SlugResolution);
+
+// Resolves a URL segment to a launch. Pages redirect when `slug` differs from
+// the segment, so old slugs and raw ids end up on the canonical URL.
+export function useSlugResolution(slugOrId?: string): SlugResolutionState {
+  const [state, setState] = useState<{ key?: string; value: SlugResolutionState }>({ value: { status: 'loading' } });
+
+  useEffect(() => {
+    if (!slugOrId) return;
+
+    let isCancelled = false;
+
+    resolveSlug(slugOrId)
+      .then(resolution => {
+        if (isCancelled) return;
+        setState({
+          key: slugOrId,
+          value: resolution ? { status: 'resolved', ...resolution } : { status: 'not-found' }
+        });
+      })
+      .catch(error => {
+        console.error('Error resolving slug:', error);
+        if (!isCancelled) setState({ key: slugOrId, value: { status: 'error' } });
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [slugOrId]);
+
+  if (!slugOrId) return { status: 'not-found' };
+  return state.key === slugOrId ? state.value : { status: 'loading' };
+}
@@ -1,19 +1,11 @@
 import { useState, useEffect } from 'react';
-import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
 import { SubmittedStartup } from '@/lib/types';
+import { getRepository } from '@/lib/data/repository';
+import { readCache, subscribeCache, invalidateCache } from '@/lib/data/cache';
 
 // Cache configuration
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-interface SubmissionsCache {
-  data: SubmittedStartup[];
-  timestamp: number;
-}
-
-const submissionsCache: {
-  [key: string]: SubmissionsCache;
-} = {};
+const SUBMISSIONS_CACHE_KEY = 'submissions:';
 
 export function useSubmissions(userId?: string, status?: string) {
   const [submissions, setSubmissions] = useState<SubmittedStartup[]>([]);
@@ -21,84 +13,45 @@ export function useSubmissions(userId?: string, status?: string) {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const fetchSubmissions = async () => {
-      if (!userId) {
-        setSubmissions([]);
-        setIsLoading(false);
-        return;
-      }
-
-      const cacheKey = `${userId}-${status || 'all'}`;
-      const now = Date.now();
-      const cached = submissionsCache[cacheKey];
-
-      // Return cached data if valid
-      if (cached && (now - cached.timestamp) < CACHE_DURATION) {
-        setSubmissions(cached.data);
-        setIsLoading(false);
-        return;
-      }
-
-      try {
-        const startupsRef = collection(db, 'startups');
-        let q = query(startupsRef);
-
-        if (userId) {
-          q = query(q, where('userId', '==', userId));
-        }
-
-        if (status) {
-          q = query(q, where('status', '==', status));
-        }
-
-        const querySnapshot = await getDocs(q);
-        const startups: SubmittedStartup[] = [];
-
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          startups.push({
-            id: doc.id,
-            name: data.name,
-            url: data.url,
-            socialHandle: data.socialHandle,
-            description: data.description,
-            logoUrl: data.logoUrl,
-            submittedAt: data.createdAt.toDate(),
-            scheduledLaunchDate: data.scheduledLaunchDate?.toDate(),
-            status: data.status,
-            listingType: data.listingType
-          });
-        });
-
-        // Update cache
-        submissionsCache[cacheKey] = {
-          data: startups,
-          timestamp: now
-        };
-
+    if (!userId) {
+      setSubmissions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const cacheKey = `${SUBMISSIONS_CACHE_KEY}${userId}:${status || 'all'}`;
+    let isCancelled = false;
+
+    // Cached submissions render immediately; a background refresh lands here
+    const unsubscribe = subscribeCache<SubmittedStartup[]>(cacheKey, startups => {
+      if (!isCancelled) setSubmissions(startups);
+    });
+
+    setIsLoading(true);
+    readCache(cacheKey, () => getRepository().submissions.list({ userId, status }), { maxAge: CACHE_DURATION })
+      .then(startups => {
+        if (isCancelled) return;
         setSubmissions(startups);
         setError(null);
-      } catch (err) {
+      })
+      .catch(err => {
         console.error('Error fetching submissions:', err);
-        setError('Failed to fetch submissions');
-        
-        // Use cached data if available during error
-        if (cached) {
-          setSubmissions(cached.data);
-        }
-      } finally {
-        setIsLoading(false);
-      }
+        if (!isCancelled) setError('Failed to fetch submissions');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
     };
-
-    fetchSubmissions();
   }, [userId, status]);
 
   return { submissions, isLoading, error };
 }
 
-export function clearSubmissionsCache() {
-  Object.keys(submissionsCache).forEach(key => {
-    delete submissionsCache[key];
-  });
+// Clears one user's cached submissions, or everyone's when no user is given
+export function clearSubmissionsCache(userId?: string): Promise<void> {
+  return invalidateCache(userId ? `${SUBMISSIONS_CACHE_KEY}${userId}:` : SUBMISSIONS_CACHE_KEY);
 }
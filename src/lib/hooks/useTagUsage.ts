@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { getTagUsage, TagUsage } from '@/lib/data/tags';
+
+// Tags in use with their launch counts, curated tags first; read from the cached launch list
+export function useTagUsage() {
+  const [tags, setTags] = useState<TagUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    getTagUsage()
+      .then(loaded => {
+        if (!isCancelled) setTags(loaded);
+      })
+      .catch(error => {
+        console.error('Error fetching tags:', error);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return { tags, isLoading };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Launch } from '@/lib/types/launch';
+import { toggleUpvote } from '@/lib/data/launches';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { useUserVotes } from '@/lib/hooks/useUserVotes';
+import { useToast } from '@/hooks/use-toast';
+
+interface OptimisticVote {
+  upvotes: number;
+  hasUpvoted: boolean;
+}
+
+export function useUpvote(launch: Launch) {
+  const { user } = useAuthContext();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const votedLaunchIds = useUserVotes(user?.uid);
+  const [isUpvoting, setIsUpvoting] = useState(false);
+  const [optimistic, setOptimistic] = useState<OptimisticVote | null>(null);
+
+  // Live feed updates replace the optimistic values
+  useEffect(() => {
+    setOptimistic(null);
+  }, [launch.upvotes, votedLaunchIds]);
+
+  const upvotes = optimistic?.upvotes ?? launch.upvotes ?? 0;
+  const hasUpvoted = optimistic?.hasUpvoted ?? votedLaunchIds.has(launch.id);
+
+  const handleUpvote = async () => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to upvote startups",
+      });
+      navigate('/login');
+      return;
+    }
+
+    if (isUpvoting) return;
+
+    try {
+      setIsUpvoting(true);
+      setOptimistic({
+        upvotes: hasUpvoted ? upvotes - 1 : upvotes + 1,
+        hasUpvoted: !hasUpvoted
+      });
+      await toggleUpvote(launch.id, user.uid);
+    } catch (error) {
+      console.error('Error updating upvote:', error);
+      setOptimistic(null);
+      toast({
+        title: "Error",
+        description: "Failed to update upvote. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpvoting(false);
+    }
+  };
+
+  return { upvotes, hasUpvoted, isUpvoting, handleUpvote };
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { subscribeToUserVotes } from '@/lib/data/launch-feed';
+
+const EMPTY_VOTES: ReadonlySet<string> = new Set();
+
+// Live set of launch ids the given user has upvoted
+export function useUserVotes(userId?: string): ReadonlySet<string> {
+  const [votes, setVotes] = useState<ReadonlySet<string>>(EMPTY_VOTES);
+
+  useEffect(() => {
+    if (!userId) {
+      setVotes(EMPTY_VOTES);
+      return;
+    }
+
+    return subscribeToUserVotes(userId, {
+      next: (launchIds) => setVotes(new Set(launchIds))
+    });
+  }, [userId]);
+
+  return votes;
+}
@@ -0,0 +1,123 @@
+// What a page tells browsers, search engines and link unfurlers about itself. The same
+// description feeds the prerendered HTML and the tags the app sets while navigating, so
+// a shared link unfurls the way the page looks once it has loaded.
+import { Category, PublicProfile } from '../types';
+import { Launch } from '../types/launch';
+import { formatWeekRange, LaunchWeek } from '../utils/launch-calendar';
+import { getAbsoluteUrl, getCategoryPath, getLaunchPath, getProfilePath, getStartupPath, getWeekPath, SITE_URL } from '../utils/paths';
+
+export interface PageMeta {
+  // Document title
+  title: string;
+  description: string;
+  // Canonical path; pages without one get no canonical link
+  path?: string;
+  // Title for link previews when it should read differently from the document title
+  shareTitle?: string;
+  // Absolute URL or site path
+  image?: string;
+}
+
+export interface HeadTags {
+  title: string;
+  canonical?: string;
+  // Keyed by the tag's `name` or `property`, as in index.html
+  meta: { attribute: 'name' | 'property'; key: string; content: string }[];
+}
+
+type ListingMeta = Pick<Launch, 'slug' | 'name' | 'description' | 'logo'>;
+
+// The tags index.html ships with, for every page that doesn't describe itself
+export const defaultMeta: PageMeta = {
+  title: 'Discover and advertise startups for free',
+  description: 'Explore curated money-making startups, case studies, and marketing insights. Join our weekly digest of the top startup launches.',
+  image: '/Images/startups-preview.jpg'
+};
+
+function withSiteName(title: string): string {
+  return `${title} - startups.ad`;
+}
+
+function toAbsolute(url: string): string {
+  return url.startsWith('/') ? getAbsoluteUrl(url) : url;
+}
+
+export function getLaunchMeta(launch: ListingMeta): PageMeta {
+  return {
+    title: withSiteName(launch.name),
+    shareTitle: `Check out ${launch.name} on startups.ad`,
+    description: launch.description,
+    path: getLaunchPath(launch.slug),
+    image: launch.logo || defaultMeta.image
+  };
+}
+
+export function getStartupMeta(startup: ListingMeta): PageMeta {
+  return {
+    title: withSiteName(startup.name),
+    description: startup.description,
+    path: getStartupPath(startup.slug),
+    image: startup.logo || defaultMeta.image
+  };
+}
+
+export function getCategoryMeta(category: Category): PageMeta {
+  return {
+    title: withSiteName(`Best ${category.name} startups`),
+    description: category.description || `The best ${category.name} startups launched on startups.ad, ranked by upvotes.`,
+    path: getCategoryPath(category.slug),
+    image: defaultMeta.image
+  };
+}
+
+export function getWeekMeta(week: LaunchWeek): PageMeta {
+  return {
+    title: withSiteName(`Launches of week ${week.week}, ${week.year}`),
+    description: `Every startup launched in the week of ${formatWeekRange(week)}, ranked by upvotes.`,
+    path: getWeekPath(week),
+    image: defaultMeta.image
+  };
+}
+
+export function getWeeksIndexMeta(): PageMeta {
+  return {
+    title: withSiteName('Past launch weeks'),
+    description: 'Browse every past launch week on startups.ad and the startups that topped it.',
+    path: '/weeks',
+    image: defaultMeta.image
+  };
+}
+
+export function getProfileMeta(profile: Pick<PublicProfile, 'username' | 'displayName' | 'bio' | 'avatarUrl'>): PageMeta {
+  const name = profile.displayName || `@${profile.username}`;
+  return {
+    title: withSiteName(name),
+    description: profile.bio || `Startups launched by ${name} on startups.ad.`,
+    path: getProfilePath(profile.username),
+    image: profile.avatarUrl || defaultMeta.image
+  };
+}
+
+// Function to spell a page's meta out as the tags that go in <head>
+export function getHeadTags(meta: PageMeta): HeadTags {
+  const url = meta.path ? getAbsoluteUrl(meta.path) : SITE_URL;
+  const shareTitle = meta.shareTitle ?? meta.title;
+  const image = toAbsolute(meta.image ?? defaultMeta.image!);
+
+  return {
+    title: meta.title,
+    canonical: meta.path ? url : undefined,
+    meta: [
+      { attribute: 'name', key: 'title', content: meta.title },
+      { attribute: 'name', key: 'description', content: meta.description },
+      { attribute: 'property', key: 'og:url', content: url },
+      { attribute: 'property', key: 'og:title', content: shareTitle },
+      { attribute: 'property', key: 'og:description', content: meta.description },
+      { attribute: 'property', key: 'og:image', content: image },
+      { attribute: 'property', key: 'twitter:url', content: url },
+      { attribute: 'property', key: 'twitter:title', content: shareTitle },
+      { attribute: 'property', key: 'twitter:description', content: meta.description },
+      { attribute: 'property', key: 'twitter:image', content: image }
+    ]
+  };
+}
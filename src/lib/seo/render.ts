@@ -0,0 +1,41 @@
+import { getHeadTags, PageMeta } from './meta';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Sets a tag in place when the template has it, otherwise adds it at the end of <head>
+function upsertTag(html: string, pattern: RegExp, tag: string): string {
+  return pattern.test(html) ? html.replace(pattern, () => tag) : html.replace('</head>', () => `  ${tag}\n  </head>`);
+}
+
+// Function to turn the built index.html into the same page with the given page's title,
+// description, canonical link and link preview tags. The body is left alone, so the app
+// starts exactly as it does from index.html.
+export function renderPageHtml(template: string, meta: PageMeta): string {
+  const tags = getHeadTags(meta);
+  let html = template.replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeHtml(tags.title)}</title>`);
+
+  tags.meta.forEach(({ attribute, key, content }) => {
+    html = upsertTag(
+      html,
+      new RegExp(`<meta\\s+${attribute}="${escapeRegExp(key)}"[^>]*>`),
+      `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />`
+    );
+  });
+
+  if (tags.canonical) {
+    html = upsertTag(html, /<link\s+rel="canonical"[^>]*>/, `<link rel="canonical" href="${escapeHtml(tags.canonical)}" />`);
+  }
+
+  return html;
+}
@@ -0,0 +1,71 @@
+// Sitemaps per https://www.sitemaps.org/protocol.html. A single file may list at most
+// 50,000 URLs; larger sites publish several files and a sitemap index pointing at them.
+
+export const MAX_SITEMAP_URLS = 50000;
+
+export interface SitemapUrl {
+  // Absolute URL of the page
+  loc: string;
+  // Last change to the page's content; left out when unknown rather than guessed
+  lastmod?: Date;
+}
+
+export interface SitemapFile {
+  // Site path, e.g. '/sitemap.xml' or '/sitemap-2.xml'
+  path: string;
+  content: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toEntry(tag: 'url' | 'sitemap', { loc, lastmod }: SitemapUrl): string {
+  return `  <${tag}>
+    <loc>${escapeXml(loc)}</loc>
+${lastmod ? `    <lastmod>${lastmod.toISOString()}</lastmod>\n` : ''}  </${tag}>`;
+}
+
+export function renderUrlSet(urls: SitemapUrl[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map(url => toEntry('url', url)).join('\n')}
+</urlset>
+`;
+}
+
+export function renderSitemapIndex(sitemaps: SitemapUrl[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.map(sitemap => toEntry('sitemap', sitemap)).join('\n')}
+</sitemapindex>
+`;
+}
+
+function getLatest(urls: SitemapUrl[]): Date | undefined {
+  return urls.reduce<Date | undefined>((latest, url) => (url.lastmod && (!latest || url.lastmod > latest) ? url.lastmod : latest), undefined);
+}
+
+// A single /sitemap.xml while the URLs fit in one file. Beyond that /sitemap.xml becomes
+// an index of /sitemap-1.xml, /sitemap-2.xml and so on, so robots.txt never changes.
+export function buildSitemaps(urls: SitemapUrl[], toAbsoluteUrl: (path: string) => string, limit = MAX_SITEMAP_URLS): SitemapFile[] {
+  if (urls.length <= limit) {
+    return [{ path: '/sitemap.xml', content: renderUrlSet(urls) }];
+  }
+
+  const parts: SitemapFile[] = [];
+  const index: SitemapUrl[] = [];
+  for (let start = 0; start < urls.length; start += limit) {
+    const chunk = urls.slice(start, start + limit);
+    const path = `/sitemap-${parts.length + 1}.xml`;
+    parts.push({ path, content: renderUrlSet(chunk) });
+    index.push({ loc: toAbsoluteUrl(path), lastmod: getLatest(chunk) });
+  }
+
+  return [{ path: '/sitemap.xml', content: renderSitemapIndex(index) }, ...parts];
+}
@@ -1,11 +1,13 @@
 export interface Startup {
   id: string;
+  slug: string;
   name: string;
   logo: string; // For the details page logo
   cardImage: string; // For the listing card
   shortDescription: string;
   mrr: number;
   category: string;
+  tags: string[];
   foundedDate: string;
   location: string;
   website: string;
@@ -32,16 +34,130 @@ export interface Startup {
   };
 }
 
+// Details a maker adds when submitting, shown on the startup page
+export interface StartupDetails {
+  longDescription: string;
+  foundedDate: string; // e.g. '2024-03'
+  location: string;
+  // `launchedIn` is derived from the launch date rather than entered
+  metrics: Omit<Startup['metrics'], 'launchedIn'>;
+  socialLinks: Startup['socialLinks'];
+}
+
+// Categories are data managed from the admin dashboard. Launches store the
+// id, which never changes, so renaming a category leaves them untouched.
+export interface Category {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  icon: string; // key of `categoryIcons`
+  // Archived categories keep their page but are no longer offered to makers
+  archived: boolean;
+  // Set once merged; the category's launches now belong to this one
+  mergedInto?: string;
+  // Slugs from earlier names, so old category URLs keep working
+  aliases: string[];
+  // Unset for the default categories, which were never stored
+  updatedAt?: Date;
+}
+
+export type CategoryInput = Pick<Category, 'name' | 'description' | 'icon'>;
+
+// Admin decisions about a tag. Tags without a record are free-form ones makers typed.
+export interface TagRecord {
+  tag: string;
+  // Suggested to makers even before any launch uses it
+  curated: boolean;
+  // Stripped from launches and never accepted again
+  banned: boolean;
+  // Launches using this tag were moved to the target, and new ones are too
+  mergedInto?: string;
+}
+
+// A named, ordered list of launches a user put together. Public ones are listed at
+// /u/:username/collections/:slug; the slug is unique among the owner's collections.
+export interface LaunchCollection {
+  id: string;
+  ownerId: string;
+  name: string;
+  slug: string;
+  description: string;
+  isPublic: boolean;
+  // In the order the owner arranged them
+  launchIds: string[];
+  // Sort key among the owner's collections
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CollectionInput = Pick<LaunchCollection, 'name' | 'description' | 'isPublic'>;
+
 export interface SubmittedStartup {
   id: string;
+  slug?: string;
   name: string;
   url: string;
   socialHandle: string;
   description: string;
   logoUrl: string;
+  // The maker who submitted it
+  userId: string;
   submittedAt: Date;
   scheduledLaunchDate?: Date;
   status: string;
+  category?: string;
+  tags?: string[];
   listingType?: string;
   doFollowBacklink?: boolean;
 }
+
+export type EmailCategory = 'submissions' | 'launches' | 'account';
+
+// Categories set to false are opted out of; missing ones are sent
+export type EmailPreferences = Partial<Record<EmailCategory, boolean>>;
+
+// Newsletter mail goes to subscribers rather than users, so it has no account preference
+export type MailCategory = EmailCategory | 'newsletter';
+
+// A weekly digest subscription. The id is random and doubles as the confirmation and
+// unsubscribe token.
+export interface NewsletterSubscriber {
+  id: string;
+  email: string;
+  // Null until the link in the confirmation email is followed; only confirmed subscribers get the digest
+  confirmedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SentDigest {
+  // Launch week id, e.g. '2025-W07'
+  weekId: string;
+  sentAt: Date;
+  recipients: number;
+}
+
+export interface UserProfile {
+  displayName: string;
+  username: string;
+  email: string;
+  bio?: string;
+  avatarUrl?: string;
+  // Lists the launches the user upvoted on their public profile
+  showUpvotes?: boolean;
+  emailPreferences?: EmailPreferences;
+  createdAt?: Date;
+  updatedAt: Date;
+}
+
+// The part of a profile anyone may read, kept apart from private fields such as the email
+export type PublicProfile = Pick<UserProfile, 'displayName' | 'username' | 'bio' | 'avatarUrl' | 'createdAt'> & {
+  uid: string;
+  showUpvotes: boolean;
+};
+
+export interface UsernameClaim {
+  uid: string | null;
+  username: string | null;
+}
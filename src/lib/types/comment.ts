@@ -0,0 +1,21 @@
+// A comment under a launch. Replies point at their parent, so threads are rebuilt client-side.
+export interface LaunchComment {
+  id: string;
+  launchId: string;
+  // Null for top-level comments
+  parentId: string | null;
+  authorId: string;
+  // Copied from the author's profile when the comment is written
+  authorName: string;
+  authorUsername: string | null;
+  authorAvatarUrl: string | null;
+  // Written by the maker of the launch
+  byMaker: boolean;
+  // Markdown-lite source; empty once deleted
+  body: string;
+  upvotes: number;
+  createdAt: Date;
+  editedAt: Date | null;
+  // Deleted comments that have replies stay as placeholders so the thread keeps its shape
+  deleted: boolean;
+}
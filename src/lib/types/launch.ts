@@ -1,13 +1,29 @@
 export interface Launch {
   id: string;
+  // Current URL slug; older launches fall back to their id until slugs are backfilled
+  slug: string;
   name: string;
   logo: string;
   description: string;
   launchDate: string;
   website: string;
+  // The maker who submitted it
+  userId?: string;
   category: string;
+  // Normalized tags, e.g. 'open-source'
+  tags: string[];
   listingType?: 'premium' | 'boosted' | 'regular';
   doFollowBacklink?: boolean;
   upvotes?: number;
-  upvotedBy?: string[];
+  // ISO date of the last change to the listing, e.g. for sitemaps
+  updatedAt?: string;
 }
+
+// Result of looking up a single launch by its document id
+export type LaunchLookup =
+  | { status: 'approved'; launch: Launch }
+  // Approved, but its launch date is still ahead
+  | { status: 'scheduled' }
+  | { status: 'pending' }
+  | { status: 'rejected' }
+  | { status: 'not-found' };
@@ -0,0 +1,19 @@
+export type NotificationType = 'approved' | 'rejected' | 'upvote' | 'comment' | 'reply' | 'follow';
+
+// An entry in a user's notification inbox. Names are copied in when it is written,
+// so the inbox renders without reading every actor and launch it mentions.
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  // Null for notifications from the site itself, e.g. approvals
+  actorId: string | null;
+  actorName: string | null;
+  actorUsername: string | null;
+  // Null for follows
+  launchId: string | null;
+  launchName: string | null;
+  launchSlug: string | null;
+  commentId: string | null;
+  read: boolean;
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+import {
+  Bot, Briefcase, Code, DollarSign, Gamepad2, GraduationCap, Heart, Megaphone,
+  Music, Palette, Rocket, Shield, ShoppingCart, Sparkles, Tag, Users, Zap
+} from 'lucide-react';
+
+// Icons an admin can pick for a category; categories store the key
+export const categoryIcons = {
+  briefcase: Briefcase,
+  megaphone: Megaphone,
+  palette: Palette,
+  heart: Heart,
+  zap: Zap,
+  tag: Tag,
+  code: Code,
+  bot: Bot,
+  sparkles: Sparkles,
+  'dollar-sign': DollarSign,
+  'shopping-cart': ShoppingCart,
+  'graduation-cap': GraduationCap,
+  users: Users,
+  shield: Shield,
+  gamepad: Gamepad2,
+  music: Music,
+  rocket: Rocket
+};
+
+export type CategoryIconName = keyof typeof categoryIcons;
+
+export const categoryIconNames = Object.keys(categoryIcons) as CategoryIconName[];
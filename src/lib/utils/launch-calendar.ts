@@ -0,0 +1,188 @@
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+
+export interface LaunchCalendarConfig {
+  // IANA time zone every visitor's "launch week" is measured in, e.g. 'UTC' or 'America/New_York'
+  timeZone: string;
+  weekStartsOn: Weekday;
+}
+
+export interface LaunchWeek {
+  id: string; // e.g. '2025-W07'
+  year: number;
+  week: number;
+  start: Date; // inclusive
+  end: Date; // exclusive, equal to the next week's start
+}
+
+// Keys of the canonical day, week, month and year a date falls in
+export interface LaunchPeriods {
+  day: string; // e.g. '2025-02-14'
+  week: string; // e.g. '2025-W07'
+  month: string; // e.g. '2025-02'
+  year: string; // e.g. '2025'
+}
+
+export interface LaunchCalendar {
+  config: LaunchCalendarConfig;
+  getWeek(date?: Date): LaunchWeek;
+  getWeekByNumber(year: number, week: number): LaunchWeek | null;
+  getWeekById(id: string): LaunchWeek | null;
+  getPreviousWeek(week: LaunchWeek): LaunchWeek;
+  getNextWeek(week: LaunchWeek): LaunchWeek;
+  isInWeek(date: Date | string, week: LaunchWeek): boolean;
+  getPeriods(date?: Date): LaunchPeriods;
+  // Instant the next launch week begins, i.e. when scheduled launches go live
+  getNextLaunchDate(now?: Date): Date;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock time in the time zone, expressed as if it were a UTC timestamp
+function toWallTime(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value);
+  });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Inverse of toWallTime; re-checks the offset so DST transitions resolve correctly
+function fromWallTime(wallTime: number, timeZone: string): Date {
+  const guess = wallTime - (toWallTime(new Date(wallTime), timeZone) - wallTime);
+  const offset = toWallTime(new Date(guess), timeZone) - guess;
+  return new Date(wallTime - offset);
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+export function createLaunchCalendar(config: LaunchCalendarConfig): LaunchCalendar {
+  const { timeZone, weekStartsOn } = config;
+
+  // Midnight (as wall time) of the first day of the week containing the given wall-time day
+  const startOfWeekDay = (wallTime: number) => {
+    const day = Math.floor(wallTime / DAY) * DAY;
+    const weekday = new Date(day).getUTCDay();
+    return day - ((weekday - weekStartsOn + 7) % 7) * DAY;
+  };
+
+  // Week 1 is the week containing January 4th, so every week belongs to
+  // the year that holds most of its days (ISO 8601 when weeks start on Monday)
+  const firstWeekStart = (year: number) => startOfWeekDay(Date.UTC(year, 0, 4));
+
+  const weeksInYear = (year: number) => (firstWeekStart(year + 1) - firstWeekStart(year)) / WEEK;
+
+  const buildWeek = (weekStart: number): LaunchWeek => {
+    const year = new Date(weekStart + 3 * DAY).getUTCFullYear();
+    const week = Math.round((weekStart - firstWeekStart(year)) / WEEK) + 1;
+    return {
+      id: `${year}-W${pad(week)}`,
+      year,
+      week,
+      start: fromWallTime(weekStart, timeZone),
+      end: fromWallTime(weekStart + WEEK, timeZone)
+    };
+  };
+
+  const weekStartOf = (week: LaunchWeek) => startOfWeekDay(toWallTime(week.start, timeZone));
+
+  const getWeek = (date: Date = new Date()) => buildWeek(startOfWeekDay(toWallTime(date, timeZone)));
+
+  const getWeekByNumber = (year: number, week: number) => {
+    if (!Number.isInteger(year) || !Number.isInteger(week) || week < 1 || week > weeksInYear(year)) {
+      return null;
+    }
+    return buildWeek(firstWeekStart(year) + (week - 1) * WEEK);
+  };
+
+  return {
+    config,
+    getWeek,
+    getWeekByNumber,
+
+    getWeekById(id) {
+      const match = /^(\d{4})-W(\d{2})$/.exec(id);
+      return match ? getWeekByNumber(Number(match[1]), Number(match[2])) : null;
+    },
+
+    getPreviousWeek(week) {
+      return buildWeek(weekStartOf(week) - WEEK);
+    },
+
+    getNextWeek(week) {
+      return buildWeek(weekStartOf(week) + WEEK);
+    },
+
+    isInWeek(date, week) {
+      const time = new Date(date).getTime();
+      return time >= week.start.getTime() && time < week.end.getTime();
+    },
+
+    getPeriods(date = new Date()) {
+      const wallTime = new Date(toWallTime(date, timeZone));
+      const year = wallTime.getUTCFullYear();
+      const month = `${year}-${pad(wallTime.getUTCMonth() + 1)}`;
+      return {
+        day: `${month}-${pad(wallTime.getUTCDate())}`,
+        week: getWeek(date).id,
+        month,
+        year: String(year)
+      };
+    },
+
+    getNextLaunchDate(now = new Date()) {
+      return getWeek(now).end;
+    }
+  };
+}
+
+// Approved launches stay hidden from the public until their launch date
+export function hasLaunched(launchDate: Date | string, now: Date = new Date()): boolean {
+  return new Date(launchDate) <= now;
+}
+
+// e.g. "Feb 9 – Feb 15, 2025", shown in the calendar's time zone
+export function formatWeekRange(week: LaunchWeek, calendar: LaunchCalendar = launchCalendar): string {
+  const format = (date: Date, options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat('en-US', { timeZone: calendar.config.timeZone, ...options }).format(date);
+  const lastDay = new Date(week.end.getTime() - 1);
+  return `${format(week.start, { month: 'short', day: 'numeric' })} – ${format(lastDay, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+// e.g. "February 2025", the month a launch went live in the calendar's time zone
+export function formatLaunchMonth(date: Date, calendar: LaunchCalendar = launchCalendar): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone: calendar.config.timeZone, month: 'long', year: 'numeric' }).format(date);
+}
+
+function parseWeekStart(value: string | undefined): Weekday {
+  const day = Number(value);
+  return Number.isInteger(day) && day >= 0 && day <= 6 ? day as Weekday : 0;
+}
+
+// Site-wide calendar. Weeks run Sunday to Saturday in UTC unless configured otherwise.
+export const launchCalendar = createLaunchCalendar({
+  timeZone: import.meta.env.VITE_LAUNCH_TIMEZONE || 'UTC',
+  weekStartsOn: parseWeekStart(import.meta.env.VITE_LAUNCH_WEEK_START)
+});
@@ -0,0 +1,87 @@
+// A small, safe subset of Markdown for user-written text: paragraphs, line breaks,
+// "- " bullet lists, **bold**, *italic*, `code` and http(s) links. It produces a tree
+// of nodes rather than HTML, so nothing the user types is ever rendered as markup.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; lines: InlineNode[][] }
+  | { type: 'list'; items: InlineNode[][] };
+
+const LIST_ITEM = /^\s*[-*]\s+/;
+
+// Alternatives in priority order: code, bold, italic with * or _, [text](url), bare url.
+// Underscores only mark italics at word boundaries so snake_case survives.
+const INLINE = /`([^`\n]+)`|\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])/g;
+
+function parseInline(text: string, allowLinks = true): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (value) nodes.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, strong, starEm, underscoreEm, label, href, url] = match;
+    const isLink = label !== undefined || url !== undefined;
+
+    // Links inside link text stay plain text
+    if (isLink && !allowLinks) continue;
+
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index + whole.length;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong, allowLinks) });
+    } else if (starEm !== undefined || underscoreEm !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(starEm ?? underscoreEm, allowLinks) });
+    } else if (label !== undefined) {
+      nodes.push({ type: 'link', href, children: parseInline(label, false) });
+    } else {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+}
+
+export function parseMarkdownLite(source: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+
+  source.replace(/\r\n?/g, '\n').split(/\n\s*\n/).forEach(chunk => {
+    const lines = chunk.split('\n').filter(line => line.trim());
+    let paragraph: InlineNode[][] = [];
+    let list: InlineNode[][] = [];
+
+    const flush = () => {
+      if (paragraph.length) blocks.push({ type: 'paragraph', lines: paragraph });
+      if (list.length) blocks.push({ type: 'list', items: list });
+      paragraph = [];
+      list = [];
+    };
+
+    lines.forEach(line => {
+      const isItem = LIST_ITEM.test(line);
+      // Switching between prose and list items starts a new block
+      if (isItem ? paragraph.length : list.length) flush();
+
+      if (isItem) {
+        list.push(parseInline(line.replace(LIST_ITEM, '').trim()));
+      } else {
+        paragraph.push(parseInline(line.trim()));
+      }
+    });
+
+    flush();
+  });
+
+  return blocks;
+}
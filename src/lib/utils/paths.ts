@@ -0,0 +1,48 @@
+import { LaunchWeek } from './launch-calendar';
+
+// Used wherever a link leaves the app, e.g. in emails and share text
+export const SITE_URL = 'https://startups.ad';
+
+export function getAbsoluteUrl(path: string): string {
+  return `${SITE_URL}${path}`;
+}
+
+export function getWeekPath(week: LaunchWeek): string {
+  return `/week/${week.year}/${week.week}`;
+}
+
+export function getLaunchPath(slug: string): string {
+  return `/launch/${slug}`;
+}
+
+export function getStartupPath(slug: string): string {
+  return `/startup/${slug}`;
+}
+
+export function getCategoryPath(slug: string): string {
+  return `/category/${slug}`;
+}
+
+export function getTagPath(tag: string): string {
+  return `/tag/${tag}`;
+}
+
+export function getCollectionPath(username: string, slug: string): string {
+  return `/u/${username}/collections/${slug}`;
+}
+
+export function getProfilePath(username: string): string {
+  return `/u/${username}`;
+}
+
+export function getDigestPath(week: LaunchWeek): string {
+  return `/digest/${week.id}`;
+}
+
+export function getConfirmSubscriptionPath(subscriberId: string): string {
+  return `/confirm-subscription/${subscriberId}`;
+}
+
+export function getUnsubscribePath(subscriberId: string): string {
+  return `/unsubscribe/${subscriberId}`;
+}
@@ -0,0 +1,21 @@
+const units: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000]
+];
+
+const formatter = new Intl.RelativeTimeFormat('en-US', { numeric: 'auto' });
+
+// e.g. "3 hours ago", "yesterday"; anything under a minute is "just now"
+export function formatRelativeTime(date: Date, now = new Date()): string {
+  const elapsed = date.getTime() - now.getTime();
+  for (const [unit, size] of units) {
+    if (Math.abs(elapsed) >= size) {
+      return formatter.format(Math.round(elapsed / size), unit);
+    }
+  }
+  return 'just now';
+}
@@ -0,0 +1,182 @@
+// Client-side full-text index. Text is split into normalized terms; each query
+// term matches indexed terms exactly, by prefix, or within a small edit distance.
+
+export interface SearchField<T> {
+  weight: number;
+  get(item: T): string | string[] | undefined;
+}
+
+export interface SearchMatch<T> {
+  item: T;
+  score: number;
+  // Indexed terms that matched, for highlighting
+  terms: string[];
+}
+
+export interface SearchIndex<T> {
+  search(query: string, limit?: number): SearchMatch<T>[];
+}
+
+// Quality of each kind of term match, multiplied by the field weight
+const EXACT = 1;
+const PREFIX = 0.8;
+const FUZZY = 0.6;
+const FUZZY_PREFIX = 0.4;
+// Shorter query terms only match as prefixes when they are the last, still being typed
+const MIN_PREFIX_LENGTH = 3;
+
+// "Café Über-App" -> "cafe uber-app"
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Typos tolerated in a query term of this length
+function maxEdits(length: number): number {
+  return length < 4 ? 0 : length < 8 ? 1 : 2;
+}
+
+// Optimal string alignment distance (adjacent swaps count once), or `limit + 1` once it is exceeded
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, twoRowsBack[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > limit) return limit + 1;
+  }
+
+  return row[b.length];
+}
+
+// Match quality of an indexed term for a query term, or 0 when it doesn't match.
+// `isLast` marks the query's last term, which may be a word still being typed.
+function matchQuality(queryTerm: string, term: string, isLast: boolean): number {
+  if (term === queryTerm) return EXACT;
+  if ((isLast || queryTerm.length >= MIN_PREFIX_LENGTH) && term.startsWith(queryTerm)) return PREFIX;
+
+  const edits = maxEdits(queryTerm.length);
+  if (edits === 0) return 0;
+  if (editDistance(queryTerm, term, edits) <= edits) return FUZZY;
+  // A typo in a word that is still being typed
+  if (isLast && term.length > queryTerm.length &&
+    editDistance(queryTerm, term.slice(0, queryTerm.length), edits) <= edits) {
+    return FUZZY_PREFIX;
+  }
+  return 0;
+}
+
+export function createSearchIndex<T>(items: T[], fields: SearchField<T>[]): SearchIndex<T> {
+  // term -> item position -> highest field weight the term appears in
+  const postings = new Map<string, Map<number, number>>();
+
+  items.forEach((item, position) => {
+    fields.forEach(({ weight, get }) => {
+      [get(item) ?? []].flat().forEach(value => {
+        tokenize(value).forEach(term => {
+          let termPostings = postings.get(term);
+          if (!termPostings) {
+            termPostings = new Map();
+            postings.set(term, termPostings);
+          }
+          termPostings.set(position, Math.max(termPostings.get(position) ?? 0, weight));
+        });
+      });
+    });
+  });
+
+  const vocabulary = Array.from(postings.keys());
+
+  return {
+    // Every query term has to match. Ties keep the order the items were indexed in.
+    search(query, limit = 20) {
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      if (queryTerms.length === 0) return [];
+
+      let scores: Map<number, number> | null = null;
+      const matchedTerms = new Map<number, Set<string>>();
+
+      queryTerms.forEach((queryTerm, index) => {
+        const isLast = index === queryTerms.length - 1;
+        const termScores = new Map<number, number>();
+
+        vocabulary.forEach(term => {
+          const quality = matchQuality(queryTerm, term, isLast);
+          if (quality === 0) return;
+
+          postings.get(term)!.forEach((weight, position) => {
+            termScores.set(position, Math.max(termScores.get(position) ?? 0, weight * quality));
+            const terms = matchedTerms.get(position) ?? new Set<string>();
+            terms.add(term);
+            matchedTerms.set(position, terms);
+          });
+        });
+
+        const previous: Map<number, number> | null = scores;
+        scores = new Map();
+        termScores.forEach((score, position) => {
+          if (previous === null) {
+            scores!.set(position, score);
+          } else if (previous.has(position)) {
+            scores!.set(position, previous.get(position)! + score);
+          }
+        });
+      });
+
+      return Array.from((scores ?? new Map<number, number>()).entries())
+        .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a - b)
+        .slice(0, limit)
+        .map(([position, score]) => ({
+          item: items[position],
+          score,
+          terms: Array.from(matchedTerms.get(position) ?? [])
+        }));
+    }
+  };
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text into runs, flagging the words that normalize to one of the matched terms
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const matched = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const word of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    if (!tokenize(word[0]).some(term => matched.has(term))) continue;
+
+    if (word.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, word.index), match: false });
+    }
+    segments.push({ text: word[0], match: true });
+    lastIndex = word.index + word[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+  return segments;
+}
@@ -0,0 +1,48 @@
+const MAX_SLUG_LENGTH = 60;
+const NUMBERED_ATTEMPTS = 9;
+const RANDOM_ATTEMPTS = 5;
+
+// Words that collide with routes or are likely to in future; never handed out as a slug
+export const reservedSlugs = new Set([
+  'about', 'admin', 'api', 'archive', 'assets', 'atom', 'blog', 'boost', 'categories', 'category',
+  'collections', 'digest', 'edit', 'feed', 'forgot-password', 'help', 'launch', 'launches',
+  'leaderboard', 'login', 'logout', 'new', 'notifications', 'privacy', 'profile', 'rss',
+  'search', 'settings', 'signup', 'sitemap', 'startup', 'startups', 'static', 'submit',
+  'support', 'tag', 'tags', 'terms', 'u', 'user', 'users', 'week', 'weeks'
+]);
+
+// "Café Über-App!" -> "cafe-uber-app"
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+export function isValidSlug(value: string): boolean {
+  return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value) && value.length <= MAX_SLUG_LENGTH && !reservedSlugs.has(value);
+}
+
+function randomSuffix() {
+  return Math.random().toString(36).slice(2, 6);
+}
+
+// Slugs to try in order for a name: "orbit", "orbit-2" ... "orbit-10", then random suffixes
+export function* slugCandidates(name: string): Generator<string> {
+  const base = slugify(name) || 'startup';
+
+  if (isValidSlug(base)) {
+    yield base;
+  }
+  for (let n = 2; n <= NUMBERED_ATTEMPTS + 1; n++) {
+    yield `${base}-${n}`;
+  }
+  for (let i = 0; i < RANDOM_ATTEMPTS; i++) {
+    yield `${base}-${randomSuffix()}`;
+  }
+}
@@ -0,0 +1,32 @@
+import { TagRecord } from '@/lib/types';
+import { slugify } from './slugs';
+
+export const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 30;
+// Merges are followed at most this many hops, guarding against cycles
+const MAX_MERGE_DEPTH = 10;
+
+// "Open Source!" -> "open-source"
+export function normalizeTag(value: string): string {
+  return slugify(value.replace(/^#/, '')).slice(0, MAX_TAG_LENGTH).replace(/-+$/, '');
+}
+
+// The tag a value ends up as: normalized and merged, or null when it is banned or empty
+export function resolveTag(value: string, registry: TagRecord[]): string | null {
+  let tag = normalizeTag(value);
+  for (let depth = 0; tag && depth < MAX_MERGE_DEPTH; depth++) {
+    const record = registry.find(entry => entry.tag === tag);
+    if (record?.banned) return null;
+    if (!record?.mergedInto) break;
+    tag = record.mergedInto;
+  }
+  return tag || null;
+}
+
+// Normalized, merged, de-duplicated tags without banned ones, at most MAX_TAGS
+export function resolveTags(values: string[], registry: TagRecord[]): string[] {
+  const tags = values
+    .map(value => resolveTag(value, registry))
+    .filter((tag): tag is string => tag !== null);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
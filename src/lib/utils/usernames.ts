@@ -0,0 +1,18 @@
+const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/i;
+const MAX_USERNAME_LENGTH = 20;
+
+export function isValidUsername(value: string): boolean {
+  return USERNAME_PATTERN.test(value);
+}
+
+// "Jane.Doe+news@example.com" -> "janedoenews", padded to the minimum length
+export function toUsernameBase(email: string): string {
+  const base = email.split('@')[0].toLowerCase().replace(/[^a-z0-9_]/g, '').slice(0, MAX_USERNAME_LENGTH);
+  return base.padEnd(3, '_');
+}
+
+// The base with a number appended, trimmed so the result stays a valid username
+export function withUsernameSuffix(base: string, suffix: number): string {
+  const tail = String(suffix);
+  return base.slice(0, MAX_USERNAME_LENGTH - tail.length) + tail;
+}
@@ -1,7 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { collection, query, where, getDocs, doc, updateDoc, Timestamp, getCountFromServer } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { getRepository, ListingType } from '@/lib/data/repository';
+import { launchCalendar } from '@/lib/utils/launch-calendar';
+import { clearLaunchesCache } from '@/lib/data/launches';
+import { clearSubmissionsCache } from '@/lib/hooks/useSubmissions';
+import { emailSubmissionApproved, emailSubmissionRejected } from '@/lib/data/mail';
+import { CategoryManager } from '@/components/admin/CategoryManager';
+import { TagManager } from '@/components/admin/TagManager';
+import { DigestManager } from '@/components/admin/DigestManager';
+import { CacheStatsCard } from '@/components/admin/CacheStatsCard';
 import { useAuthContext } from '@/providers/AuthProvider';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,6 +18,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { SubmittedStartup } from '@/lib/types';
 import { Users, FileText, ThumbsUp } from 'lucide-react';
@@ -21,8 +29,6 @@ interface DashboardStats {
   totalUpvotes: number;
 }
 
-type ListingType = 'regular' | 'boosted' | 'premium';
-
 export function AdminDashboard() {
   const { user } = useAuthContext();
   const navigate = useNavigate();
@@ -39,6 +45,10 @@ export function AdminDashboard() {
   const [approvedStartups, setApprovedStartups] = useState<SubmittedStartup[]>([]);
   const [rejectedStartups, setRejectedStartups] = useState<SubmittedStartup[]>([]);
   const [isLoadingStartups, setIsLoadingStartups] = useState(true);
+  const [runningTask, setRunningTask] = useState<string | null>(null);
+  const [renameTarget, setRenameTarget] = useState<SubmittedStartup | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
   const [stats, setStats] = useState<DashboardStats>({
     totalUsers: 0,
     totalSubmissions: 0,
@@ -53,12 +63,9 @@ export function AdminDashboard() {
       }
 
       try {
-        const adminDoc = await getDocs(query(
-          collection(db, 'admins'),
-          where('userId', '==', user.uid)
-        ));
+        const isAdminUser = await getRepository().users.isAdmin(user.uid);
 
-        if (adminDoc.empty) {
+        if (!isAdminUser) {
           navigate('/');
           return;
         }
@@ -76,18 +83,12 @@ export function AdminDashboard() {
 
   const fetchStats = async () => {
     try {
-      // Get total users
-      const usersSnapshot = await getCountFromServer(collection(db, 'users'));
-      const totalUsers = usersSnapshot.data().count;
-
-      // Get total submissions
-      const startupsSnapshot = await getCountFromServer(collection(db, 'startups'));
-      const totalSubmissions = startupsSnapshot.data().count;
-
-      // Get total upvotes
-      const launchesRef = collection(db, 'launches');
-      const launchesSnapshot = await getDocs(launchesRef);
-      const totalUpvotes = launchesSnapshot.docs.reduce((sum, doc) => sum + (doc.data().upvotes || 0), 0);
+      const repository = getRepository();
+      const [totalUsers, totalSubmissions, totalUpvotes] = await Promise.all([
+        repository.users.count(),
+        repository.submissions.count(),
+        repository.launches.countUpvotes()
+      ]);
 
       setStats({
         totalUsers,
@@ -102,39 +103,14 @@ export function AdminDashboard() {
   const fetchStartups = async () => {
     setIsLoadingStartups(true);
     try {
-      const startupsRef = collection(db, 'startups');
-      
-      // Fetch pending startups
-      const pendingQuery = query(startupsRef, where('status', '==', 'pending'));
-      const pendingSnapshot = await getDocs(pendingQuery);
-      const pendingData = pendingSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        submittedAt: doc.data().createdAt.toDate(),
-        scheduledLaunchDate: doc.data().scheduledLaunchDate?.toDate()
-      })) as SubmittedStartup[];
+      const { submissions } = getRepository();
+      const [pendingData, approvedData, rejectedData] = await Promise.all([
+        submissions.list({ status: 'pending' }),
+        submissions.list({ status: 'approved' }),
+        submissions.list({ status: 'rejected' })
+      ]);
       setPendingStartups(pendingData);
-
-      // Fetch approved startups
-      const approvedQuery = query(startupsRef, where('status', '==', 'approved'));
-      const approvedSnapshot = await getDocs(approvedQuery);
-      const approvedData = approvedSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        submittedAt: doc.data().createdAt.toDate(),
-        scheduledLaunchDate: doc.data().scheduledLaunchDate?.toDate()
-      })) as SubmittedStartup[];
       setApprovedStartups(approvedData);
-
-      // Fetch rejected startups
-      const rejectedQuery = query(startupsRef, where('status', '==', 'rejected'));
-      const rejectedSnapshot = await getDocs(rejectedQuery);
-      const rejectedData = rejectedSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        submittedAt: doc.data().createdAt.toDate(),
-        scheduledLaunchDate: doc.data().scheduledLaunchDate?.toDate()
-      })) as SubmittedStartup[];
       setRejectedStartups(rejectedData);
     } catch (error) {
       console.error('Error fetching startups:', error);
@@ -155,14 +131,6 @@ export function AdminDashboard() {
     }
   }, [isAdmin]);
 
-  const calculateNextLaunchDate = () => {
-    const now = new Date();
-    const nextSunday = new Date(now);
-    nextSunday.setDate(now.getDate() + (7 - now.getDay()));
-    nextSunday.setHours(0, 0, 0, 0);
-    return nextSunday;
-  };
-
   const handleApproveClick = (startupId: string) => {
     setSelectedStartupId(startupId);
     setIsApproveDialogOpen(true);
@@ -173,22 +141,30 @@ export function AdminDashboard() {
     setIsReapproveDialogOpen(true);
   };
 
+  const findStartup = (startupId: string) =>
+    [...pendingStartups, ...approvedStartups, ...rejectedStartups].find(startup => startup.id === startupId);
+
+  // A failed email never undoes the review; it is only logged
+  const emailMaker = (send: () => Promise<void>) => {
+    send().catch(error => console.error('Error queueing email:', error));
+  };
+
   const handleApproveConfirm = async () => {
     if (!selectedStartupId) return;
 
     try {
-      const startupRef = doc(db, 'startups', selectedStartupId);
       const scheduledLaunchDate = selectedListingType === 'regular' && !isImmediateLaunch
-        ? calculateNextLaunchDate() 
+        ? launchCalendar.getNextLaunchDate() 
         : new Date();
 
-      await updateDoc(startupRef, {
-        status: 'approved',
+      await getRepository().submissions.approve(selectedStartupId, {
         listingType: selectedListingType,
         doFollowBacklink: doFollowBacklink,
-        scheduledLaunchDate: Timestamp.fromDate(scheduledLaunchDate),
-        updatedAt: Timestamp.now()
+        scheduledLaunchDate
       });
+      const startup = findStartup(selectedStartupId);
+      if (startup) emailMaker(() => emailSubmissionApproved(startup, scheduledLaunchDate));
+      await Promise.all([clearLaunchesCache(), clearSubmissionsCache()]);
 
       // Refresh the startups lists and stats
       await Promise.all([fetchStartups(), fetchStats()]);
@@ -219,11 +195,10 @@ export function AdminDashboard() {
 
   const handleReject = async (startupId: string) => {
     try {
-      const startupRef = doc(db, 'startups', startupId);
-      await updateDoc(startupRef, {
-        status: 'rejected',
-        updatedAt: Timestamp.now()
-      });
+      await getRepository().submissions.reject(startupId);
+      const startup = findStartup(startupId);
+      if (startup) emailMaker(() => emailSubmissionRejected(startup));
+      await Promise.all([clearLaunchesCache(), clearSubmissionsCache()]);
 
       // Refresh the startups lists and stats
       await Promise.all([fetchStartups(), fetchStats()]);
@@ -242,6 +217,104 @@ export function AdminDashboard() {
     }
   };
 
+  const handleRenameClick = (startup: SubmittedStartup) => {
+    setRenameTarget(startup);
+    setRenameValue(startup.name);
+  };
+
+  const handleRenameConfirm = async () => {
+    const name = renameValue.trim();
+    if (!renameTarget || !name) return;
+
+    setIsRenaming(true);
+    try {
+      const slug = await getRepository().startups.rename(renameTarget.id, name);
+      await Promise.all([clearLaunchesCache(), clearSubmissionsCache()]);
+      await fetchStartups();
+
+      toast({
+        title: 'Success',
+        description: `Renamed to ${name}. New URL: /launch/${slug}`,
+      });
+      setRenameTarget(null);
+    } catch (error) {
+      console.error('Error renaming startup:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to rename startup',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  // One-off data tasks; each is idempotent and reports what it changed
+  const maintenanceTasks = [
+    {
+      id: 'upvotes',
+      title: 'Legacy upvotes',
+      description: 'Move old upvotedBy arrays into per-user vote documents. Safe to run more than once.',
+      action: 'Migrate upvotes',
+      run: async () => {
+        const result = await getRepository().maintenance.migrateLegacyUpvotes();
+        return `Migrated ${result.votes} upvotes across ${result.launches} launches`;
+      }
+    },
+    {
+      id: 'periods',
+      title: 'Launch periods',
+      description: 'Recompute the day, week, month and year each launch is listed and ranked in. Run after changing the launch time zone.',
+      action: 'Backfill periods',
+      run: async () => {
+        const updated = await getRepository().maintenance.backfillLaunchPeriods();
+        return `Updated ${updated} launches`;
+      }
+    },
+    {
+      id: 'slugs',
+      title: 'Launch URLs',
+      description: 'Give startups submitted before readable URLs a slug. Their old id links keep working.',
+      action: 'Backfill slugs',
+      run: async () => {
+        const updated = await getRepository().maintenance.backfillSlugs();
+        return `Added slugs to ${updated} startups`;
+      }
+    },
+    {
+      id: 'profiles',
+      title: 'Public profiles',
+      description: 'Copy the public fields of every user profile for users who signed up before public profiles. Private fields are never copied.',
+      action: 'Backfill profiles',
+      run: async () => {
+        const updated = await getRepository().maintenance.backfillProfiles();
+        return `Published ${updated} profiles`;
+      }
+    }
+  ];
+
+  const handleRunTask = async (task: typeof maintenanceTasks[number]) => {
+    setRunningTask(task.id);
+    try {
+      const description = await task.run();
+      await fetchStats();
+
+      toast({
+        title: 'Success',
+        description,
+      });
+    } catch (error) {
+      console.error(`Error running maintenance task "${task.id}":`, error);
+      toast({
+        title: 'Error',
+        description: `${task.action} failed`,
+        variant: 'destructive',
+      });
+    } finally {
+      setRunningTask(null);
+    }
+  };
+
   if (!isAdmin || isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -292,6 +365,11 @@ export function AdminDashboard() {
           <p className="text-sm text-muted-foreground">
             Social: {startup.socialHandle}
           </p>
+          {startup.slug && (
+            <p className="text-sm text-muted-foreground">
+              URL: /launch/{startup.slug}
+            </p>
+          )}
           {startup.scheduledLaunchDate && (
             <p className="text-sm text-primary">
               {startup.scheduledLaunchDate > new Date() 
@@ -339,7 +417,13 @@ export function AdminDashboard() {
         </CardFooter>
       )}
       {startup.status === 'approved' && (
-        <CardFooter className="flex justify-end">
+        <CardFooter className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleRenameClick(startup)}
+          >
+            Rename
+          </Button>
           <Button
             variant="destructive"
             onClick={() => handleReject(startup.id)}
@@ -401,6 +485,37 @@ export function AdminDashboard() {
               </CardContent>
             </Card>
           </div>
+
+          <Card className="mb-8">
+            <CardContent className="pt-6 divide-y">
+              {maintenanceTasks.map(task => (
+                <div
+                  key={task.id}
+                  className="py-4 first:pt-0 last:pb-0 flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+                >
+                  <div>
+                    <p className="font-medium">{task.title}</p>
+                    <p className="text-sm text-muted-foreground">{task.description}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleRunTask(task)}
+                    disabled={runningTask !== null}
+                  >
+                    {runningTask === task.id ? 'Running...' : task.action}
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <CacheStatsCard />
+
+          <CategoryManager />
+
+          <TagManager />
+
+          <DigestManager />
           
           <Tabs defaultValue="pending" className="w-full">
             <TabsList className="grid w-full grid-cols-3 mb-8">
@@ -545,6 +660,40 @@ export function AdminDashboard() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={renameTarget !== null} onOpenChange={(open) => {
+        if (!open) setRenameTarget(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Startup</DialogTitle>
+            <DialogDescription>
+              The startup gets a new URL. Links using its old URL keep working.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-6 space-y-2">
+            <Label htmlFor="rename">Name</Label>
+            <Input
+              id="rename"
+              value={renameValue}
+              onChange={(event) => setRenameValue(event.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenameTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRenameConfirm}
+              disabled={isRenaming || !renameValue.trim() || renameValue.trim() === renameTarget?.name}
+            >
+              {isRenaming ? 'Renaming...' : 'Rename'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { CategoryIcon } from '@/components/category/CategoryIcon';
+import { Badge } from '@/components/ui/badge';
+import { findCategoryBySlug } from '@/lib/data/categories';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { usePaginatedLaunches } from '@/lib/hooks/usePaginatedLaunches';
+import { useInfiniteScroll } from '@/lib/hooks/useInfiniteScroll';
+import { usePageMeta } from '@/lib/hooks/usePageMeta';
+import { getCategoryMeta } from '@/lib/seo/meta';
+import { getCategoryPath } from '@/lib/utils/paths';
+
+const PAGE_SIZE = 20;
+
+export function CategoryPage() {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { categories, isLoading: isLoadingCategories } = useCategories();
+  const category = findCategoryBySlug(categories, slug);
+
+  // Launches are only read once the slug resolves to a category, so renamed and unknown
+  // slugs never query by a made-up id
+  const { launches, total, hasMore, isLoading, loadMore } = usePaginatedLaunches(
+    category ? { category: category.id, order: 'upvotes' } : null,
+    PAGE_SIZE
+  );
+
+  const loadingRef = useInfiniteScroll(loadMore, hasMore && !isLoading);
+
+  const meta = useMemo(() => (category ? getCategoryMeta(category) : null), [category]);
+  usePageMeta(meta);
+
+  // Old slugs and merged categories move to the canonical URL
+  if (category && category.slug !== slug) {
+    return <Navigate to={getCategoryPath(category.slug)} replace />;
+  }
+
+  if (isLoadingCategories) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!category) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Category Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            This category doesn't exist.
+          </p>
+          <Link to="/" className="text-primary hover:underline font-medium">
+            See this week's launches →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-10">
+            <div className="inline-flex p-3 bg-primary/10 rounded-full mb-4">
+              <CategoryIcon icon={category.icon} className="h-8 w-8 text-primary" />
+            </div>
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">{category.name}</h1>
+            {category.description && (
+              <p className="text-muted-foreground">{category.description}</p>
+            )}
+            <div className="flex items-center justify-center gap-2 mt-3">
+              {total !== null && (
+                <Badge variant="secondary">
+                  {total} {total === 1 ? 'launch' : 'launches'}
+                </Badge>
+              )}
+              {category.archived && <Badge variant="outline">Archived</Badge>}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : launches.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No launches in this category yet
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {launches.map(launch => (
+                <LaunchListItem key={launch.id} launch={launch} />
+              ))}
+            </div>
+          )}
+
+          {hasMore && !isLoading && (
+            <div ref={loadingRef} className="py-4 text-center">
+              <div className="animate-pulse text-primary">Loading more...</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
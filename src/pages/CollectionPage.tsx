@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { Badge } from '@/components/ui/badge';
+import { getPublicCollection, PublicCollection } from '@/lib/data/collections';
+
+export function CollectionPage() {
+  const { username = '', slug = '' } = useParams<{ username: string; slug: string }>();
+  const [result, setResult] = useState<PublicCollection | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+
+    getPublicCollection(username, slug)
+      .then(found => {
+        if (!isCancelled) setResult(found);
+      })
+      .catch(error => {
+        console.error('Error fetching collection:', error);
+        if (!isCancelled) setResult(null);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [username, slug]);
+
+  useEffect(() => {
+    if (result) {
+      document.title = `${result.collection.name} by @${result.username} - startups.ad`;
+    }
+  }, [result]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Collection Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            This collection doesn't exist or is private.
+          </p>
+          <Link to="/" className="text-primary hover:underline font-medium">
+            See this week's launches →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { collection, launches } = result;
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-10">
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">{collection.name}</h1>
+            {collection.description && (
+              <p className="text-muted-foreground whitespace-pre-line">{collection.description}</p>
+            )}
+            <div className="flex items-center justify-center gap-2 mt-3">
+              <Badge variant="secondary">
+                {launches.length} {launches.length === 1 ? 'launch' : 'launches'}
+              </Badge>
+              <span className="text-sm text-muted-foreground">Collected by @{result.username}</span>
+            </div>
+          </div>
+
+          {launches.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              This collection is empty
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {launches.map(launch => (
+                <LaunchListItem key={launch.id} launch={launch} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
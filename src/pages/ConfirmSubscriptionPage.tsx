@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { confirmDigestSubscription } from '@/lib/data/digest';
+
+type ConfirmState = 'idle' | 'saving' | 'done' | 'not-found' | 'error';
+
+// Landing page of the link in the confirmation email. Like unsubscribing, confirming takes
+// a click so link scanners in mail clients can't confirm addresses by opening the link.
+export function ConfirmSubscriptionPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [state, setState] = useState<ConfirmState>('idle');
+
+  const handleConfirm = async () => {
+    setState('saving');
+    try {
+      setState(await confirmDigestSubscription(token) ? 'done' : 'not-found');
+    } catch (error) {
+      console.error('Error confirming subscription:', error);
+      setState('error');
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle>Weekly digest</CardTitle>
+          <CardDescription>
+            {state === 'done'
+              ? "You're subscribed. The next digest arrives when this week closes."
+              : state === 'not-found'
+                ? 'This subscription has ended or its link expired. You can subscribe again from the bottom of any page.'
+                : 'Get the top launches of every week by email?'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {state === 'done' || state === 'not-found' ? (
+            <>
+              {state === 'done' && <CheckCircle className="h-12 w-12 text-green-500" />}
+              <Link to="/" className="text-primary hover:underline font-medium">
+                See this week's launches →
+              </Link>
+            </>
+          ) : (
+            <>
+              {state === 'error' && (
+                <p className="text-sm text-destructive">Failed to confirm. Please try again.</p>
+              )}
+              <Button onClick={handleConfirm} disabled={state === 'saving'}>
+                {state === 'saving' ? 'Confirming...' : 'Confirm subscription'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
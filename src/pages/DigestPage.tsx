@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { DigestSignup } from '@/components/digest/DigestSignup';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { Button } from '@/components/ui/button';
+import { getDigestWeek, getLatestDigestWeek, getWeeklyDigest } from '@/lib/data/digest';
+import { WeeklyDigest } from '@/lib/email/digest';
+import { launchCalendar, formatWeekRange } from '@/lib/utils/launch-calendar';
+import { getDigestPath, getWeekPath } from '@/lib/utils/paths';
+
+// Web version of the weekly digest email. Without a week it shows the latest one.
+export function DigestPage() {
+  const { week: weekId } = useParams<{ week: string }>();
+  const week = useMemo(() => (weekId ? getDigestWeek(weekId) : getLatestDigestWeek()), [weekId]);
+  const [digest, setDigest] = useState<WeeklyDigest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!week) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    setIsLoading(true);
+
+    getWeeklyDigest(week)
+      .then(found => {
+        if (!isCancelled) setDigest(found);
+      })
+      .catch(error => {
+        console.error('Error fetching digest:', error);
+        if (!isCancelled) setDigest(null);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [week]);
+
+  useEffect(() => {
+    if (week) {
+      document.title = `Weekly digest: week ${week.week}, ${week.year} - startups.ad`;
+    }
+  }, [week]);
+
+  if (!week) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Digest Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            There is no digest for this week, or the week hasn't finished yet.
+          </p>
+          <Link to={getDigestPath(getLatestDigestWeek())} className="text-primary hover:underline font-medium">
+            Read the latest digest →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const previousWeek = launchCalendar.getPreviousWeek(week);
+  const nextWeek = launchCalendar.getNextWeek(week);
+  const hasNextDigest = getDigestWeek(nextWeek.id) !== null;
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-3xl mx-auto">
+          <div className="text-center mb-10">
+            <p className="text-sm font-medium text-primary mb-2">Weekly digest</p>
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">
+              Top launches of week {week.week}, {week.year}
+            </h1>
+            <p className="text-muted-foreground">{formatWeekRange(week)}</p>
+          </div>
+
+          <div className="flex items-center justify-between mb-10">
+            <Button variant="outline" size="sm" asChild>
+              <Link to={getDigestPath(previousWeek)}>
+                <ChevronLeft className="h-4 w-4 mr-1" /> Week {previousWeek.week}
+              </Link>
+            </Button>
+            {hasNextDigest && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={getDigestPath(nextWeek)}>
+                  Week {nextWeek.week} <ChevronRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : !digest || digest.topLaunches.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No launches this week
+            </p>
+          ) : (
+            <div className="space-y-12">
+              <section>
+                <p className="text-muted-foreground mb-6">
+                  {digest.launchCount} {digest.launchCount === 1 ? 'startup' : 'startups'} launched this week.
+                  Here are the ones the community upvoted most.
+                </p>
+                <div className="space-y-4">
+                  {digest.topLaunches.map((launch, index) => (
+                    <div key={launch.id} className="flex items-center gap-3">
+                      <span className="w-8 text-right text-sm font-medium text-muted-foreground">
+                        #{index + 1}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <LaunchListItem launch={launch} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <Link to={getWeekPath(week)} className="inline-block mt-6 text-sm text-primary hover:underline font-medium">
+                  See every launch of the week →
+                </Link>
+              </section>
+
+              {digest.featured.length > 0 && (
+                <section>
+                  <h2 className="text-xl font-semibold mb-4">Featured</h2>
+                  <div className="space-y-4">
+                    {digest.featured.map(launch => (
+                      <LaunchListItem key={launch.id} launch={launch} />
+                    ))}
+                  </div>
+                </section>
+              )}
+            </div>
+          )}
+
+          <section className="mt-16 rounded-lg border p-6 text-center space-y-4">
+            <h2 className="text-xl font-semibold">Get the digest every week</h2>
+            <p className="text-muted-foreground">The week's top launches in your inbox, once a week.</p>
+            <DigestSignup />
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
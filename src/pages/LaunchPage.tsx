@@ -1,213 +1,157 @@
-import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { LaunchListItem } from '@/components/launch/LaunchListItem';
 import { PremiumListing } from '@/components/launch/PremiumListing';
 import { AnimatedHeader } from '@/components/launch/AnimatedHeader';
-import { getLaunches, getWeeklyLaunches } from '@/lib/data/launches';
+import { WeeklyWinners } from '@/components/launch/WeeklyWinners';
+import { FeedControls } from '@/components/launch/FeedControls';
+import { FollowingFeed } from '@/components/launch/FollowingFeed';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useFeaturedLaunches } from '@/lib/hooks/useLaunchFeed';
+import { usePaginatedLaunches } from '@/lib/hooks/usePaginatedLaunches';
+import { useInfiniteScroll } from '@/lib/hooks/useInfiniteScroll';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { getLeaderboard, getRotationSlot, ROTATION_INTERVAL } from '@/lib/data/launches';
+import { findCategoryBySlug } from '@/lib/data/categories';
+import { FeedView, arrangeFeatured, getFeedPageQuery, parseFeedView, toFeedParams } from '@/lib/data/feed';
 import { WeeklyCountdownTimer } from '@/components/WeeklyCountdownTimer';
 import { Launch } from '@/lib/types/launch';
+import { launchCalendar } from '@/lib/utils/launch-calendar';
+import { getWeekPath } from '@/lib/utils/paths';
 
 interface ListItem extends Launch {
   uniqueKey: string;
 }
 
-const ROTATION_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
-const BATCH_SIZE = 10; // Number of items to load per batch
+const FOLLOWING_TAB = 'following';
 
-export function LaunchPage() {
-  const [allLaunches, setAllLaunches] = useState<Launch[]>([]);
-  const [displayedLaunches, setDisplayedLaunches] = useState<Launch[]>([]);
-  const [rotationIndex, setRotationIndex] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasMore, setHasMore] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
-  const observerRef = useRef<IntersectionObserver>();
-  const loadingRef = useRef<HTMLDivElement>(null);
-  const rotationTimer = useRef<NodeJS.Timeout>();
-  
-  // Fetch launches on component mount
-  useEffect(() => {
-    const fetchLaunches = async () => {
-      try {
-        const launches = await getLaunches();
-        
-        // Filter out launches scheduled for the future
-        const now = new Date();
-        const availableLaunches = launches.filter(launch => {
-          const launchDate = new Date(launch.launchDate);
-          return launchDate <= now || launch.listingType === 'premium' || launch.listingType === 'boosted';
-        });
-        
-        setAllLaunches(availableLaunches);
-        
-        // Initially load first batch
-        const initialBatch = availableLaunches.slice(0, BATCH_SIZE);
-        setDisplayedLaunches(initialBatch);
-        setHasMore(availableLaunches.length > BATCH_SIZE);
-        
-        setIsLoading(false);
-      } catch (error) {
-        console.error('Error fetching launches:', error);
-        setIsLoading(false);
-      }
-    };
-
-    fetchLaunches();
-  }, []);
-
-  // Infinite scroll handler
-  const loadMoreLaunches = useCallback(() => {
-    if (!hasMore || isLoading) return;
-
-    const nextPage = currentPage + 1;
-    const start = (nextPage - 1) * BATCH_SIZE;
-    const end = start + BATCH_SIZE;
-    const nextBatch = allLaunches.slice(start, end);
-
-    if (nextBatch.length > 0) {
-      setDisplayedLaunches(prev => [...prev, ...nextBatch]);
-      setCurrentPage(nextPage);
-      setHasMore(end < allLaunches.length);
-    } else {
-      setHasMore(false);
-    }
-  }, [currentPage, hasMore, isLoading, allLaunches]);
+// Current rotation slot, advancing on every 10-minute boundary
+function useRotationSlot() {
+  const [slot, setSlot] = useState(() => getRotationSlot());
 
-  // Intersection Observer setup
   useEffect(() => {
-    if (isLoading) return;
-
-    observerRef.current = new IntersectionObserver(
-      (entries) => {
-        if (entries[0].isIntersecting && hasMore) {
-          loadMoreLaunches();
-        }
-      },
-      { threshold: 0.1 }
-    );
+    const timeUntilNextRotation = (slot + 1) * ROTATION_INTERVAL - Date.now();
+    const timeout = setTimeout(() => setSlot(getRotationSlot()), timeUntilNextRotation);
+    return () => clearTimeout(timeout);
+  }, [slot]);
 
-    if (loadingRef.current) {
-      observerRef.current.observe(loadingRef.current);
-    }
+  return slot;
+}
 
-    return () => {
-      if (observerRef.current) {
-        observerRef.current.disconnect();
-      }
-    };
-  }, [isLoading, hasMore, loadMoreLaunches]);
-  
-  // Memoize filtered launches
-  const premiumLaunches = useMemo(() => 
-    allLaunches.filter(launch => launch.listingType === 'premium'),
-    [allLaunches]
+export function LaunchPage() {
+  const { launches: featuredLaunches, isLoading: isLoadingFeatured } = useFeaturedLaunches();
+  const { categories, isLoading: isLoadingCategories } = useCategories();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [lastWeekWinners, setLastWeekWinners] = useState<Launch[]>([]);
+  const slot = useRotationSlot();
+
+  // Rotation and the launch week both follow the slot, so a new slot reloads the list from page one
+  const currentWeek = useMemo(() => launchCalendar.getWeek(new Date(slot * ROTATION_INTERVAL)), [slot]);
+
+  const requestedView = useMemo(() => parseFeedView(searchParams), [searchParams]);
+  // A category from the URL can only be applied once the categories are known
+  const isResolvingCategory = Boolean(requestedView.category) && isLoadingCategories;
+  const category = useMemo(
+    () => requestedView.category ? findCategoryBySlug(categories, requestedView.category) : undefined,
+    [categories, requestedView.category]
   );
-  
-  const boostedLaunches = useMemo(() => 
-    allLaunches.filter(launch => launch.listingType === 'boosted'),
-    [allLaunches]
+  // Unknown categories are dropped and old slugs shown as the current one
+  const view = useMemo((): FeedView => ({ ...requestedView, category: category?.slug }), [requestedView, category]);
+
+  const pageQuery = useMemo(
+    () => isResolvingCategory ? null : getFeedPageQuery(view, { week: currentWeek.id, slot, category: category?.id }),
+    [isResolvingCategory, view, category, currentWeek, slot]
   );
 
-  const regularLaunches = useMemo(() => 
-    allLaunches.filter(launch => !launch.listingType || launch.listingType === 'regular'),
-    [allLaunches]
+  const {
+    launches: regularLaunches,
+    total: regularTotal,
+    hasMore,
+    isLoading: isLoadingRegular,
+    loadMore
+  } = usePaginatedLaunches(pageQuery);
+
+  const loadingRef = useInfiniteScroll(loadMore, hasMore && !isLoadingRegular);
+  // Only the first load blocks the page; later rotations swap the list in place
+  const isLoading = isLoadingFeatured || isResolvingCategory || (isLoadingRegular && regularTotal === null);
+
+  // Premium listings stay pinned and boosted ones inserted in every view
+  const { premium: premiumLaunches, boosted: boostedLaunches } = useMemo(
+    () => arrangeFeatured(featuredLaunches, view, { slot, category: category?.id }),
+    [featuredLaunches, view, category, slot]
   );
 
-  // Get last week's winners
-  const lastWeekWinners = useMemo(() => {
-    const now = new Date();
-    const lastWeekStart = new Date(now);
-    lastWeekStart.setDate(now.getDate() - now.getDay() - 7);
-    lastWeekStart.setHours(0, 0, 0, 0);
-    
-    const lastWeekEnd = new Date(lastWeekStart);
-    lastWeekEnd.setDate(lastWeekStart.getDate() + 6);
-    lastWeekEnd.setHours(23, 59, 59, 999);
-
-    const lastWeekLaunches = allLaunches.filter(launch => {
-      const launchDate = new Date(launch.launchDate);
-      return launchDate >= lastWeekStart && launchDate <= lastWeekEnd;
-    });
+  const handleViewChange = (next: FeedView) => {
+    setSearchParams(toFeedParams(next, searchParams), { replace: true });
+  };
 
-    return lastWeekLaunches
-      .sort((a, b) => (b.upvotes || 0) - (a.upvotes || 0))
-      .slice(0, 3);
-  }, [allLaunches]);
+  const isFollowingTab = searchParams.get('tab') === FOLLOWING_TAB;
 
-  // Rotation system
+  const handleTabChange = (tab: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (tab === FOLLOWING_TAB) {
+      next.set('tab', tab);
+    } else {
+      next.delete('tab');
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  // Follows the current week by id, so the winners move on with a new week but don't reload every slot
+  const currentWeekId = currentWeek.id;
+  const lastWeek = useMemo(
+    () => launchCalendar.getPreviousWeek(launchCalendar.getWeekById(currentWeekId) ?? launchCalendar.getWeek()),
+    [currentWeekId]
+  );
+
+  // Get last week's winners
   useEffect(() => {
-    // Calculate initial rotation index based on current time
-    const now = Date.now();
-    const initialRotationIndex = Math.floor(now / ROTATION_INTERVAL) % Math.max(regularLaunches.length, 1);
-    setRotationIndex(initialRotationIndex);
-
-    // Calculate time until next rotation
-    const nextRotation = Math.ceil(now / ROTATION_INTERVAL) * ROTATION_INTERVAL;
-    const timeUntilNextRotation = nextRotation - now;
-
-    // Set up rotation timer
-    const startRotation = () => {
-      rotationTimer.current = setInterval(() => {
-        setRotationIndex(prevIndex => (prevIndex + 1) % Math.max(regularLaunches.length, 1));
-      }, ROTATION_INTERVAL);
-    };
-
-    // Initial timeout to sync with 10-minute intervals
-    const initialTimeout = setTimeout(() => {
-      setRotationIndex(prevIndex => (prevIndex + 1) % Math.max(regularLaunches.length, 1));
-      startRotation();
-    }, timeUntilNextRotation);
-
-    return () => {
-      clearTimeout(initialTimeout);
-      if (rotationTimer.current) {
-        clearInterval(rotationTimer.current);
-      }
-    };
-  }, [regularLaunches.length]);
-
-  const getRotatedLaunches = useCallback((launches: Launch[]): ListItem[] => {
-    if (!launches.length) return [];
-
-    const rotated = [
-      ...launches.slice(rotationIndex),
-      ...launches.slice(0, rotationIndex)
-    ];
-
-    return rotated.map((launch, index) => ({
-      ...launch,
-      uniqueKey: `${launch.id}-${rotationIndex}-${index}`
-    }));
-  }, [rotationIndex]);
-
-  const insertBoostedLaunches = useCallback((regularLaunches: Launch[]): ListItem[] => {
-    if (!boostedLaunches.length || !regularLaunches.length) {
-      return getRotatedLaunches(regularLaunches);
+    getLeaderboard('weekly', { date: lastWeek.start, limit: 3 })
+      .then(setLastWeekWinners)
+      .catch(error => console.error("Error fetching last week's winners:", error));
+  }, [lastWeek]);
+
+  // Spacing comes from the total number of regular listings rather than the
+  // loaded ones, so boosted listings keep their positions as pages load
+  const listedLaunches = useMemo((): ListItem[] => {
+    const withKey = (launch: Launch): ListItem => ({ ...launch, uniqueKey: `${launch.id}-${slot}` });
+    // The featured and regular listeners update separately, so a launch that was just
+    // upgraded can briefly be in both; it is listed once, as featured
+    const featuredIds = new Set(featuredLaunches.map(launch => launch.id));
+    const regular = regularLaunches.filter(launch => !featuredIds.has(launch.id)).map(withKey);
+    const boosted = boostedLaunches.map(withKey);
+
+    if (!boosted.length) {
+      return regular;
+    }
+
+    // Views without regular listings, e.g. boosted only, list the boosted ones on their own
+    if (!regular.length) {
+      return hasMore ? regular : boosted;
     }
 
-    const rotatedRegular = getRotatedLaunches(regularLaunches);
-    const rotatedBoosted = getRotatedLaunches(boostedLaunches);
-    
     const result: ListItem[] = [];
-    const spacing = Math.max(Math.floor(rotatedRegular.length / rotatedBoosted.length), 2);
+    const spacing = Math.max(Math.floor((regularTotal ?? regular.length) / boosted.length), 2);
     let boostedIndex = 0;
 
-    rotatedRegular.forEach((launch, index) => {
+    regular.forEach((launch, index) => {
       result.push(launch);
-      
-      if ((index + 1) % spacing === 0 && boostedIndex < rotatedBoosted.length) {
-        result.push(rotatedBoosted[boostedIndex]);
+
+      if ((index + 1) % spacing === 0 && boostedIndex < boosted.length) {
+        result.push(boosted[boostedIndex]);
         boostedIndex++;
       }
     });
 
-    while (boostedIndex < rotatedBoosted.length) {
-      const insertIndex = Math.floor((result.length / (rotatedBoosted.length - boostedIndex + 1)) * (boostedIndex + 1));
-      result.splice(insertIndex, 0, rotatedBoosted[boostedIndex]);
+    // Spread whatever is left once every regular listing is loaded
+    while (!hasMore && boostedIndex < boosted.length) {
+      const insertIndex = Math.floor((result.length / (boosted.length - boostedIndex + 1)) * (boostedIndex + 1));
+      result.splice(insertIndex, 0, boosted[boostedIndex]);
       boostedIndex++;
     }
 
     return result;
-  }, [boostedLaunches, getRotatedLaunches]);
+  }, [regularLaunches, regularTotal, featuredLaunches, boostedLaunches, hasMore, slot]);
 
   if (isLoading) {
     return (
@@ -227,36 +171,59 @@ export function LaunchPage() {
             Top 3 launches of the week get a do-follow backlink. Every listing is rotated every 10 minutes to ensure equal exposure 🔄
           </h2>
 
-          {/* Premium listings */}
-          <div className="space-y-8 mb-12">
-            {premiumLaunches.map((launch) => (
-              <PremiumListing 
-                key={`premium-${launch.id}`} 
-                launch={launch} 
-              />
-            ))}
+          <div className="flex justify-center mb-6">
+            <Tabs value={isFollowingTab ? FOLLOWING_TAB : 'all'} onValueChange={handleTabChange}>
+              <TabsList>
+                <TabsTrigger value="all">This week</TabsTrigger>
+                <TabsTrigger value={FOLLOWING_TAB}>Following</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </div>
 
-          <WeeklyCountdownTimer />
+          {isFollowingTab ? (
+            <FollowingFeed />
+          ) : (
+            <>
+              <FeedControls view={view} categories={categories} onChange={handleViewChange} />
+
+              {/* Premium listings */}
+              <div className="space-y-8 mb-12">
+                {premiumLaunches.map((launch) => (
+                  <PremiumListing 
+                    key={`premium-${launch.id}`} 
+                    launch={launch} 
+                  />
+                ))}
+              </div>
 
-          {/* Weekly launches with boosted listings */}
-          <div className="space-y-4 mb-16">
-            {insertBoostedLaunches(displayedLaunches).map((launch) => (
-              <LaunchListItem 
-                key={launch.uniqueKey}
-                launch={launch}
-              />
-            ))}
-          </div>
+              <WeeklyCountdownTimer />
 
-          {/* Loading indicator */}
-          {hasMore && (
-            <div 
-              ref={loadingRef} 
-              className="py-4 text-center"
-            >
-              <div className="animate-pulse text-primary">Loading more...</div>
-            </div>
+              {/* Weekly launches with boosted listings */}
+              <div className="space-y-4 mb-16">
+                {listedLaunches.map((launch) => (
+                  <LaunchListItem 
+                    key={launch.uniqueKey}
+                    launch={launch}
+                  />
+                ))}
+              </div>
+
+              {premiumLaunches.length === 0 && listedLaunches.length === 0 && !hasMore && (
+                <p className="text-center text-muted-foreground pb-16">
+                  No launches match these filters
+                </p>
+              )}
+
+              {/* Loading indicator */}
+              {hasMore && (
+                <div 
+                  ref={loadingRef} 
+                  className="py-4 text-center"
+                >
+                  <div className="animate-pulse text-primary">Loading more...</div>
+                </div>
+              )}
+            </>
           )}
 
           {/* Last Week's Winners */}
@@ -265,27 +232,14 @@ export function LaunchPage() {
               <h2 className="text-2xl font-bold text-center mb-8">
                 🏆 Last Week's Most Popular Launches
               </h2>
-              <div className="space-y-4">
-                {lastWeekWinners.map((launch, index) => (
-                  <div key={launch.id} className="relative">
-                    {index === 0 && (
-                      <div className="absolute -top-4 left-4 bg-yellow-500 text-white px-3 py-1 rounded-full text-sm font-bold">
-                        🥇 1st Place
-                      </div>
-                    )}
-                    {index === 1 && (
-                      <div className="absolute -top-4 left-4 bg-gray-400 text-white px-3 py-1 rounded-full text-sm font-bold">
-                        🥈 2nd Place
-                      </div>
-                    )}
-                    {index === 2 && (
-                      <div className="absolute -top-4 left-4 bg-amber-700 text-white px-3 py-1 rounded-full text-sm font-bold">
-                        🥉 3rd Place
-                      </div>
-                    )}
-                    <LaunchListItem launch={launch} />
-                  </div>
-                ))}
+              <WeeklyWinners winners={lastWeekWinners} />
+              <div className="text-center mt-8">
+                <Link 
+                  to={getWeekPath(lastWeek)} 
+                  className="text-primary hover:underline font-medium"
+                >
+                  See all of last week's launches →
+                </Link>
               </div>
             </div>
           )}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getLeaderboard } from '@/lib/data/launches';
+import { findCategoryBySlug } from '@/lib/data/categories';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { RankingPeriod } from '@/lib/data/repository';
+import { Launch } from '@/lib/types/launch';
+
+const periods: { value: RankingPeriod; label: string; title: string }[] = [
+  { value: 'daily', label: 'Today', title: 'Top launches today' },
+  { value: 'weekly', label: 'This week', title: 'Top launches this week' },
+  { value: 'monthly', label: 'This month', title: 'Top launches this month' },
+  { value: 'yearly', label: 'This year', title: 'Top launches this year' },
+  { value: 'all-time', label: 'All time', title: 'Top launches of all time' }
+];
+
+const DEFAULT_PERIOD: RankingPeriod = 'weekly';
+const ALL_CATEGORIES = 'all';
+
+function parsePeriod(value: string | null): RankingPeriod {
+  return periods.some(period => period.value === value) ? value as RankingPeriod : DEFAULT_PERIOD;
+}
+
+export function LeaderboardPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { categories, isLoading: isLoadingCategories } = useCategories();
+
+  const period = parsePeriod(searchParams.get('period'));
+  const categoryParam = searchParams.get('category');
+  // The URL holds the category slug; launches are ranked by category id
+  const category = categoryParam ? findCategoryBySlug(categories, categoryParam) : undefined;
+  const categoryId = category?.id;
+  const current = periods.find(p => p.value === period)!;
+
+  useEffect(() => {
+    // Wait for the categories before ranking a category from the URL
+    if (categoryParam && isLoadingCategories) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+
+    getLeaderboard(period, { category: categoryId })
+      .then(topLaunches => {
+        if (!isCancelled) setLaunches(topLaunches);
+      })
+      .catch(error => {
+        console.error('Error fetching leaderboard:', error);
+        if (!isCancelled) setLaunches([]);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [period, categoryParam, categoryId, isLoadingCategories]);
+
+  useEffect(() => {
+    document.title = `${current.title} - startups.ad`;
+  }, [current]);
+
+  // Keep the selection in the URL so leaderboards can be shared
+  const updateParams = (key: 'period' | 'category', value: string | undefined) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-10">
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">Leaderboard</h1>
+            <p className="text-muted-foreground">{current.title}</p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-10">
+            <Tabs
+              value={period}
+              onValueChange={value => updateParams('period', value === DEFAULT_PERIOD ? undefined : value)}
+            >
+              <TabsList>
+                {periods.map(p => (
+                  <TabsTrigger key={p.value} value={p.value}>
+                    {p.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+
+            <div className="w-full sm:w-48">
+              <Select
+                value={category?.slug || ALL_CATEGORIES}
+                onValueChange={value => updateParams('category', value === ALL_CATEGORIES ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {/* Archived categories still have launches to rank; merged ones have none left */}
+                  {categories.filter(c => !c.mergedInto).map(c => (
+                    <SelectItem key={c.id} value={c.slug}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : launches.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No launches for this period yet
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {launches.map((launch, index) => (
+                <div key={launch.id} className="flex items-center gap-3">
+                  <span className="w-8 text-right text-sm font-medium text-muted-foreground">
+                    #{index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <LaunchListItem launch={launch} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,25 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { motion } from 'framer-motion';
-import { doc, setDoc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '@/lib/firebase';
 import { useAuthContext } from '@/providers/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
-import { SubmittedStartup } from '@/lib/types';
+import { UserProfile } from '@/lib/types';
 import { useSubmissions } from '@/lib/hooks/useSubmissions';
-
-interface UserProfile {
-  displayName: string;
-  username: string;
-  email: string;
-  bio?: string;
-  avatarUrl?: string;
-  updatedAt: Date;
-}
+import { SavedLaunches } from '@/components/collections/SavedLaunches';
+import { EmailSettings } from '@/components/profile/EmailSettings';
+import { getRepository } from '@/lib/data/repository';
+import { isUsernameAvailable } from '@/lib/data/usernames';
+import { getProfilePath } from '@/lib/utils/paths';
+import { isValidUsername } from '@/lib/utils/usernames';
 
 interface ProfileFormData {
   displayName: string;
@@ -42,6 +37,7 @@ export function ProfilePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [showUpvotes, setShowUpvotes] = useState(false);
   const { submissions: submittedStartups, isLoading: isLoadingSubmissions } = useSubmissions(user?.uid);
   const [usernameStatus, setUsernameStatus] = useState<{
     isValid: boolean;
@@ -75,7 +71,7 @@ export function ProfilePage() {
       return;
     }
 
-    if (!/^[a-zA-Z0-9_]{3,20}$/.test(username)) {
+    if (!isValidUsername(username)) {
       setUsernameStatus({
         isValid: false,
         message: 'Username must be 3-20 characters and can only contain letters, numbers, and underscores',
@@ -87,25 +83,13 @@ export function ProfilePage() {
     setUsernameStatus(prev => ({ ...prev, isChecking: true }));
     
     try {
-      const usernamesRef = doc(db, 'usernames', username.toLowerCase());
-      const usernameDoc = await getDoc(usernamesRef);
-      
-      if (usernameDoc.exists()) {
-        const data = usernameDoc.data();
-        const isAvailable = !data.uid || data.uid === user?.uid;
-        
-        setUsernameStatus({
-          isValid: isAvailable,
-          message: isAvailable ? 'Username is available' : 'Username is already taken',
-          isChecking: false
-        });
-      } else {
-        setUsernameStatus({
-          isValid: true,
-          message: 'Username is available',
-          isChecking: false
-        });
-      }
+      const isAvailable = await isUsernameAvailable(username, user?.uid);
+
+      setUsernameStatus({
+        isValid: isAvailable,
+        message: isAvailable ? 'Username is available' : 'Username is already taken',
+        isChecking: false
+      });
     } catch (error) {
       console.error('Error checking username:', error);
       setUsernameStatus({
@@ -129,15 +113,15 @@ export function ProfilePage() {
       if (!user) return;
 
       try {
-        const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
-          const profileData = userDoc.data() as UserProfile;
+        const profileData = await getRepository().users.get(user.uid);
+        if (profileData) {
           setUserProfile(profileData);
           
           setValue('displayName', profileData.displayName || '');
           setValue('username', profileData.username || '');
           setValue('email', profileData.email || '');
           setValue('bio', profileData.bio || '');
+          setShowUpvotes(profileData.showUpvotes || false);
         }
       } catch (error) {
         console.error('Error fetching data:', error);
@@ -160,6 +144,7 @@ export function ProfilePage() {
     setIsSubmitting(true);
 
     try {
+      const repository = getRepository();
       let avatarUrl = userProfile.avatarUrl;
 
       if (formData.avatar?.length > 0) {
@@ -170,40 +155,21 @@ export function ProfilePage() {
 
         const fileExtension = file.name.split('.').pop();
         const fileName = `avatars/${user.uid}/${Date.now()}.${fileExtension}`;
-        const avatarRef = ref(storage, fileName);
-        await uploadBytes(avatarRef, file);
-        avatarUrl = await getDownloadURL(avatarRef);
-      }
-
-      // Only update username document if username has changed
-      if (formData.username?.toLowerCase() !== userProfile.username?.toLowerCase()) {
-        // Remove old username document if it exists
-        if (userProfile.username) {
-          await setDoc(doc(db, 'usernames', userProfile.username.toLowerCase()), {
-            uid: null,
-            username: null
-          });
-        }
-
-        // Create new username document if username is provided
-        if (formData.username) {
-          await setDoc(doc(db, 'usernames', formData.username.toLowerCase()), {
-            uid: user.uid,
-            username: formData.username.toLowerCase()
-          });
-        }
+        avatarUrl = await repository.assets.upload(fileName, file);
       }
 
+      // Saving claims a new username and releases the old one in the same write
       const updatedProfile = {
         displayName: formData.displayName || userProfile.displayName,
         username: formData.username?.toLowerCase() || userProfile.username,
         bio: formData.bio || '',
         avatarUrl,
-        email: user.email,
+        showUpvotes,
+        email: user.email || '',
         updatedAt: new Date()
       };
 
-      await setDoc(doc(db, 'users', user.uid), updatedProfile, { merge: true });
+      await repository.users.save(user.uid, updatedProfile);
 
       setUserProfile(prev => ({
         ...prev!,
@@ -268,9 +234,10 @@ export function ProfilePage() {
     <div className="min-h-screen bg-background py-12 px-4">
       <div className="container max-w-4xl mx-auto">
         <Tabs defaultValue="profile" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="submissions">My Submissions</TabsTrigger>
+            <TabsTrigger value="saved">Saved</TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile">
@@ -290,6 +257,11 @@ export function ProfilePage() {
                     <div>
                       <CardTitle className="text-2xl">{userProfile?.displayName}</CardTitle>
                       <CardDescription>@{userProfile?.username}</CardDescription>
+                      {userProfile?.username && (
+                        <Link to={getProfilePath(userProfile.username)} className="text-sm text-primary hover:underline">
+                          View public profile
+                        </Link>
+                      )}
                     </div>
                   </div>
                   <Button 
@@ -357,6 +329,20 @@ export function ProfilePage() {
                       </p>
                     </div>
 
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="showUpvotes">Show my upvotes</Label>
+                        <p className="text-xs text-muted-foreground">
+                          List the launches you upvoted on your public profile
+                        </p>
+                      </div>
+                      <Switch
+                        id="showUpvotes"
+                        checked={showUpvotes}
+                        onCheckedChange={setShowUpvotes}
+                      />
+                    </div>
+
                     <div className="flex justify-end gap-4">
                       <Button
                         type="submit"
@@ -380,6 +366,10 @@ export function ProfilePage() {
                 )}
               </CardContent>
             </Card>
+
+            {user && userProfile && (
+              <EmailSettings userId={user.uid} preferences={userProfile.emailPreferences} />
+            )}
           </TabsContent>
 
           <TabsContent value="submissions">
@@ -445,6 +435,10 @@ export function ProfilePage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="saved">
+            <SavedLaunches userId={user.uid} username={userProfile?.username} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { SearchResult } from '@/components/search/SearchResult';
+import { useLaunchSearch } from '@/lib/hooks/useLaunchSearch';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { findCategoryById } from '@/lib/data/categories';
+import { getStartupPath } from '@/lib/utils/paths';
+
+const MAX_RESULTS = 50;
+
+export function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const [input, setInput] = useState(query);
+  const { categories } = useCategories();
+  const { results, isLoading, error } = useLaunchSearch(query, { limit: MAX_RESULTS });
+
+  // Follow the URL when it changes from outside, e.g. from the search palette
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    document.title = query ? `"${query}" - Search - startups.ad` : 'Search - startups.ad';
+  }, [query]);
+
+  // Results update as you type; the query lives in the URL so searches can be shared
+  const handleChange = (value: string) => {
+    setInput(value);
+    const next = new URLSearchParams(searchParams);
+    if (value.trim()) {
+      next.set('q', value);
+    } else {
+      next.delete('q');
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-10">
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">Search</h1>
+            <p className="text-muted-foreground">Find launches by name, description or category</p>
+          </div>
+
+          <div className="relative mb-10">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              value={input}
+              onChange={(event) => handleChange(event.target.value)}
+              placeholder="Search launches..."
+              className="pl-9"
+              aria-label="Search launches"
+            />
+          </div>
+
+          {!query.trim() ? null : error ? (
+            <p className="text-center text-muted-foreground py-16">{error}</p>
+          ) : isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No launches match "{query.trim()}"
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground mb-4">
+                {results.length === MAX_RESULTS ? `Top ${MAX_RESULTS}` : results.length} {results.length === 1 ? 'result' : 'results'}
+              </p>
+              <div className="space-y-3">
+                {results.map(match => (
+                  <Link
+                    key={match.item.id}
+                    to={getStartupPath(match.item.slug)}
+                    className="block p-4 border rounded-lg transition duration-300 hover:border-primary/20 hover:bg-accent/5"
+                  >
+                    <SearchResult
+                      match={match}
+                      categoryName={findCategoryById(categories, match.item.category)?.name}
+                    />
+                  </Link>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,83 +1,113 @@
-import { useParams } from 'react-router-dom';
-import { useEffect, useState } from 'react';
-import { getLaunches } from '@/lib/data/launches';
-import { Launch } from '@/lib/types/launch';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { useEffect, useMemo } from 'react';
+import { useLaunch, LaunchState } from '@/lib/hooks/useLaunchFeed';
+import { useSlugResolution } from '@/lib/hooks/useSlugResolution';
+import { usePageMeta } from '@/lib/hooks/usePageMeta';
 import { LaunchListItem } from '@/components/launch/LaunchListItem';
 import { WeeklyCountdownTimer } from '@/components/WeeklyCountdownTimer';
+import { CommentSection } from '@/components/comments/CommentSection';
+import { getLaunchMeta } from '@/lib/seo/meta';
+import { getLaunchPath, getStartupPath } from '@/lib/utils/paths';
 import confetti from 'canvas-confetti';
 
+type UnavailableStatus = Exclude<LaunchState['status'], 'approved' | 'loading'>;
+
+const unavailableMessages: Record<UnavailableStatus, { title: string; description: string }> = {
+  'not-found': {
+    title: 'Launch Not Found',
+    description: "The launch you're looking for doesn't exist or has been removed."
+  },
+  'pending': {
+    title: 'Launch Pending Review',
+    description: 'This launch has been submitted and is waiting for approval. Check back soon!'
+  },
+  'scheduled': {
+    title: 'Launching Soon',
+    description: 'This launch has been approved and goes live on its launch day. Check back then!'
+  },
+  'rejected': {
+    title: 'Launch Unavailable',
+    description: 'This launch is not available on startups.ad.'
+  },
+  'error': {
+    title: 'Something Went Wrong',
+    description: 'We could not load this launch. Please try again later.'
+  }
+};
+
 export function SharedLaunchPage() {
-  const { id } = useParams<{ id: string }>();
-  const [launch, setLaunch] = useState<Launch | null>(null);
+  const { id: slugOrId } = useParams<{ id: string }>();
+  const resolution = useSlugResolution(slugOrId);
+  const resolvedLookup = useLaunch(resolution.status === 'resolved' ? resolution.launchId : undefined);
+
+  const lookup: LaunchState = resolution.status === 'resolved' ? resolvedLookup : resolution;
+
+  const launch = lookup.status === 'approved' ? lookup.launch : null;
+
+  const meta = useMemo(() => (launch ? getLaunchMeta(launch) : null), [launch]);
+  usePageMeta(meta);
+
+  // Celebrate once per launch, not on every live update
+  const launchId = launch?.id;
 
   useEffect(() => {
-    const launches = getLaunches();
-    const foundLaunch = launches.find(l => l.id === id);
-    setLaunch(foundLaunch || null);
-
-    // Update meta tags
-    if (foundLaunch) {
-      document.title = `${foundLaunch.name} - startups.ad`;
-      
-      // Update Open Graph meta tags
-      const metaTags = {
-        'og:title': `Check out ${foundLaunch.name} on startups.ad`,
-        'og:description': foundLaunch.description,
-        'og:image': foundLaunch.logo,
-        'twitter:title': `Check out ${foundLaunch.name} on startups.ad`,
-        'twitter:description': foundLaunch.description,
-        'twitter:image': foundLaunch.logo
-      };
-
-      Object.entries(metaTags).forEach(([property, content]) => {
-        let meta = document.querySelector(`meta[property="${property}"]`);
-        if (!meta) {
-          meta = document.createElement('meta');
-          meta.setAttribute('property', property);
-          document.head.appendChild(meta);
-        }
-        meta.setAttribute('content', content);
-      });
+    if (!launchId) return;
+
+    // Trigger confetti effect
+    const duration = 2000;
+    const animationEnd = Date.now() + duration;
+    const defaults = { startVelocity: 30, spread: 360, ticks: 60, zIndex: 0 };
+
+    function randomInRange(min: number, max: number) {
+      return Math.random() * (max - min) + min;
+    }
 
-      // Trigger confetti effect
-      const duration = 2000;
-      const defaults = { startVelocity: 30, spread: 360, ticks: 60, zIndex: 0 };
+    const interval = setInterval(() => {
+      const timeLeft = animationEnd - Date.now();
 
-      function randomInRange(min: number, max: number) {
-        return Math.random() * (max - min) + min;
+      if (timeLeft <= 0) {
+        return clearInterval(interval);
       }
 
-      const interval: any = setInterval(() => {
-        const timeLeft = duration - Date.now();
-
-        if (timeLeft <= 0) {
-          return clearInterval(interval);
-        }
-
-        const particleCount = 50 * (timeLeft / duration);
-
-        // Since particles fall down, start a bit higher than random
-        confetti({
-          ...defaults,
-          particleCount,
-          origin: { x: randomInRange(0.1, 0.3), y: Math.random() - 0.2 }
-        });
-        confetti({
-          ...defaults,
-          particleCount,
-          origin: { x: randomInRange(0.7, 0.9), y: Math.random() - 0.2 }
-        });
-      }, 250);
-    }
-  }, [id]);
+      const particleCount = 50 * (timeLeft / duration);
 
-  if (!launch) {
+      // Since particles fall down, start a bit higher than random
+      confetti({
+        ...defaults,
+        particleCount,
+        origin: { x: randomInRange(0.1, 0.3), y: Math.random() - 0.2 }
+      });
+      confetti({
+        ...defaults,
+        particleCount,
+        origin: { x: randomInRange(0.7, 0.9), y: Math.random() - 0.2 }
+      });
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [launchId]);
+
+  // Old slugs and document ids move to the canonical URL
+  if (resolution.status === 'resolved' && resolution.slug !== slugOrId) {
+    return <Navigate to={getLaunchPath(resolution.slug)} replace />;
+  }
+
+  if (lookup.status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (lookup.status !== 'approved') {
+    const message = unavailableMessages[lookup.status];
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <h1 className="text-2xl font-bold mb-2">Launch Not Found</h1>
+          <h1 className="text-2xl font-bold mb-2">{message.title}</h1>
           <p className="text-muted-foreground">
-            The launch you're looking for doesn't exist or has been removed.
+            {message.description}
           </p>
         </div>
       </div>
@@ -91,7 +121,15 @@ export function SharedLaunchPage() {
           Featured Launch
         </h1>
         <div className="max-w-3xl mx-auto">
-          <LaunchListItem launch={launch} />
+          <LaunchListItem launch={lookup.launch} />
+          <div className="text-center mt-4">
+            <Link to={getStartupPath(lookup.launch.slug)} className="text-primary hover:underline font-medium">
+              More about {lookup.launch.name} →
+            </Link>
+          </div>
+          <div className="mt-8">
+            <CommentSection launchId={lookup.launch.id} />
+          </div>
           <div className="mt-8">
             <WeeklyCountdownTimer />
           </div>
@@ -9,8 +9,10 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { useAuthContext } from '@/providers/AuthProvider';
 import { FirebaseError } from 'firebase/app';
 import { useToast } from '@/hooks/use-toast';
-import { doc, setDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { getRepository } from '@/lib/data/repository';
+import { sendWelcomeEmail } from '@/lib/data/mail';
+import { findFreeUsername, isUsernameAvailable } from '@/lib/data/usernames';
+import { isValidUsername } from '@/lib/utils/usernames';
 
 export function SignupPage() {
   const [displayName, setDisplayName] = useState('');
@@ -25,16 +27,12 @@ export function SignupPage() {
   const { signup, loginWithGoogle } = useAuthContext();
   const { toast } = useToast();
 
-  const validateUsername = (username: string) => {
-    return /^[a-zA-Z0-9_]{3,20}$/.test(username);
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
     // Basic validation
-    if (!validateUsername(username)) {
+    if (!isValidUsername(username)) {
       setError('Username must be 3-20 characters long and can only contain letters, numbers, and underscores');
       return;
     }
@@ -52,18 +50,25 @@ export function SignupPage() {
     setIsLoading(true);
 
     try {
+      // Checked before the account exists; saving the profile claims the name for good
+      if (!await isUsernameAvailable(username)) {
+        setError('This username is already taken');
+        return;
+      }
+
       // Create the user account
       const userCredential = await signup(email, password);
       const user = userCredential;
 
       // Create user profile in Firestore
-      await setDoc(doc(db, 'users', user.uid), {
+      await getRepository().users.save(user.uid, {
         displayName,
         username: username.toLowerCase(),
-        email: user.email,
+        email: user.email || '',
         createdAt: new Date(),
         updatedAt: new Date()
       });
+      sendWelcomeEmail(user.uid, user.emailVerified);
 
       navigate('/');
       toast({
@@ -102,14 +107,18 @@ export function SignupPage() {
     try {
       const user = await loginWithGoogle();
       if (user) {
-        // Create user profile in Firestore for Google sign-in
-        await setDoc(doc(db, 'users', user.uid), {
-          displayName: user.displayName || '',
-          username: user.email?.split('@')[0]?.toLowerCase() || '',
-          email: user.email,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }, { merge: true });
+        // Google sign-in also reaches here for existing accounts, which keep their profile
+        const repository = getRepository();
+        if (!await repository.users.get(user.uid)) {
+          await repository.users.save(user.uid, {
+            displayName: user.displayName || '',
+            username: user.email ? await findFreeUsername(user.email) : '',
+            email: user.email || '',
+            createdAt: new Date(),
+            updatedAt: new Date()
+          });
+          sendWelcomeEmail(user.uid, user.emailVerified);
+        }
 
         navigate('/');
       } else {
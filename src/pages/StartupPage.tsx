@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { ChevronUp, ExternalLink, MapPin, CalendarDays, Twitter, Linkedin, Github, Globe, Trophy, Rocket, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { VerifiedBadge } from '@/components/ui/verified-badge';
+import { TagChips } from '@/components/tags/TagChips';
+import { getStartupById, getWeeklyPlacement } from '@/lib/data/startups';
+import { findCategoryById } from '@/lib/data/categories';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { useLaunch } from '@/lib/hooks/useLaunchFeed';
+import { useUpvote } from '@/lib/hooks/useUpvote';
+import { useSlugResolution } from '@/lib/hooks/useSlugResolution';
+import { usePageMeta } from '@/lib/hooks/usePageMeta';
+import { Launch } from '@/lib/types/launch';
+import { Startup } from '@/lib/types';
+import { getStartupMeta } from '@/lib/seo/meta';
+import { launchCalendar } from '@/lib/utils/launch-calendar';
+import { getCategoryPath, getStartupPath, getWeekPath } from '@/lib/utils/paths';
+
+const socialIcons = {
+  twitter: { label: 'X / Twitter', icon: Twitter },
+  linkedin: { label: 'LinkedIn', icon: Linkedin },
+  github: { label: 'GitHub', icon: Github },
+  bluesky: { label: 'Bluesky', icon: Globe }
+};
+
+const medals = ['🥇', '🥈', '🥉'];
+
+function formatDate(date: Date, options: Intl.DateTimeFormatOptions) {
+  return new Intl.DateTimeFormat('en-US', options).format(date);
+}
+
+// 'YYYY-MM' from the month input, shown as e.g. "March 2024"
+function formatFoundedDate(value: string) {
+  const [year, month] = value.split('-').map(Number);
+  if (!year || !month) return value;
+  return formatDate(new Date(Date.UTC(year, month - 1, 1)), { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+// Plain handles from older submissions become profile links
+function toSocialUrl(network: keyof Startup['socialLinks'], value: string) {
+  if (/^https?:\/\//.test(value)) return value;
+  return network === 'twitter' ? `https://x.com/${value.replace(/^@/, '')}` : null;
+}
+
+function UpvoteButton({ launch }: { launch: Launch }) {
+  const { upvotes, hasUpvoted, isUpvoting, handleUpvote } = useUpvote(launch);
+
+  return (
+    <Button
+      variant="outline"
+      className={hasUpvoted ? 'bg-primary/10' : ''}
+      onClick={handleUpvote}
+      disabled={isUpvoting}
+    >
+      <ChevronUp className="h-4 w-4 mr-1" />
+      <span>{upvotes}</span>
+    </Button>
+  );
+}
+
+export function StartupPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [startup, setStartup] = useState<Startup | null>(null);
+  const [placement, setPlacement] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const resolution = useSlugResolution(slug);
+  const launchId = resolution.status === 'resolved' ? resolution.launchId : undefined;
+  const lookup = useLaunch(launchId);
+  const { categories } = useCategories();
+
+  useEffect(() => {
+    if (!launchId) {
+      setStartup(null);
+      setIsLoading(resolution.status === 'loading');
+      return;
+    }
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setPlacement(null);
+
+    getStartupById(launchId)
+      .then(async found => {
+        if (isCancelled) return;
+        setStartup(found);
+        if (found) {
+          const place = await getWeeklyPlacement(found);
+          if (!isCancelled) setPlacement(place);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching startup:', error);
+        if (!isCancelled) setStartup(null);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [launchId, resolution.status]);
+
+  const meta = useMemo(() => (
+    startup ? getStartupMeta({ ...startup, description: startup.shortDescription }) : null
+  ), [startup]);
+  usePageMeta(meta);
+
+  // Old slugs and document ids move to the canonical URL
+  if (resolution.status === 'resolved' && resolution.slug !== slug) {
+    return <Navigate to={getStartupPath(resolution.slug)} replace />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!startup) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Startup Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            The startup you're looking for doesn't exist or hasn't launched yet.
+          </p>
+          <Link to="/" className="text-primary hover:underline font-medium">
+            See this week's launches →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const launch = lookup.status === 'approved' ? lookup.launch : null;
+  const category = findCategoryById(categories, startup.category);
+  const details = startup.submissionDetails;
+  const launchWeek = details ? launchCalendar.getWeek(details.scheduledLaunchDate) : null;
+  const linkProps = launch?.listingType === 'premium' || launch?.listingType === 'boosted' || launch?.doFollowBacklink
+    ? {}
+    : { rel: 'nofollow' };
+
+  const metrics = [
+    { label: 'MRR', value: startup.metrics.mrr > 0 ? `$${startup.metrics.mrr.toLocaleString('en-US')}` : '' },
+    { label: 'Launched', value: startup.metrics.launchedIn },
+    { label: 'Founders', value: startup.metrics.founders },
+    { label: 'Funding', value: startup.metrics.funding },
+    { label: 'Monetisation', value: startup.metrics.monetisation },
+    { label: 'Commitment', value: startup.metrics.commitment }
+  ].filter(metric => metric.value);
+
+  const socialLinks = (Object.keys(socialIcons) as (keyof typeof socialIcons)[])
+    .map(network => {
+      const value = startup.socialLinks[network];
+      const url = value ? toSocialUrl(network, value) : null;
+      return url ? { network, url, ...socialIcons[network] } : null;
+    })
+    .filter(link => link !== null);
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto space-y-8">
+          {/* Hero */}
+          <div className="flex flex-col sm:flex-row items-start gap-6">
+            <img
+              src={startup.logo}
+              alt={startup.name}
+              className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
+              width="80"
+              height="80"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-2">
+                <h1 className="text-3xl sm:text-4xl font-bold">{startup.name}</h1>
+                {startup.isVerified && <VerifiedBadge size="lg" />}
+              </div>
+              <p className="text-lg text-muted-foreground mb-4">{startup.shortDescription}</p>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-muted-foreground">
+                {category && (
+                  <Link to={getCategoryPath(category.slug)}>
+                    <Badge variant="secondary">{category.name}</Badge>
+                  </Link>
+                )}
+                {startup.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" /> {startup.location}
+                  </span>
+                )}
+                {startup.foundedDate && (
+                  <span className="flex items-center gap-1">
+                    <CalendarDays className="h-4 w-4" /> Founded {formatFoundedDate(startup.foundedDate)}
+                  </span>
+                )}
+              </div>
+              <TagChips tags={startup.tags} limit={startup.tags.length} className="mt-3" />
+            </div>
+            <div className="flex gap-2 w-full sm:w-auto">
+              {launch && <UpvoteButton launch={launch} />}
+              <Button className="flex-1 sm:flex-none" asChild>
+                <a href={startup.website} target="_blank" {...linkProps}>
+                  Visit <ExternalLink className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          {/* Metrics */}
+          {metrics.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {metrics.map(metric => (
+                <Card key={metric.label}>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">{metric.label}</p>
+                    <p className="text-lg font-semibold">{metric.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-8 md:grid-cols-3">
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>About</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="whitespace-pre-line text-muted-foreground">{startup.longDescription}</p>
+
+                {socialLinks.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-6">
+                    {socialLinks.map(({ network, url, label, icon: Icon }) => (
+                      <Button key={network} variant="outline" size="sm" asChild>
+                        <a href={url} target="_blank" rel="noopener noreferrer nofollow">
+                          <Icon className="h-4 w-4 mr-2" /> {label}
+                        </a>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Launch history */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Launch history</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-4">
+                  {details && (
+                    <li className="flex gap-3">
+                      <Send className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                      <div>
+                        <p className="font-medium">Submitted</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatDate(details.submittedAt, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </p>
+                      </div>
+                    </li>
+                  )}
+                  {details && launchWeek && (
+                    <li className="flex gap-3">
+                      <Rocket className="h-5 w-5 text-primary flex-shrink-0" />
+                      <div>
+                        <p className="font-medium">
+                          {details.status === 'launched' ? 'Launched' : 'Launching'}{' '}
+                          {launch?.listingType === 'premium' ? 'as a premium listing' : launch?.listingType === 'boosted' ? 'as a boosted listing' : ''}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatDate(details.scheduledLaunchDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                          {' · '}
+                          <Link to={getWeekPath(launchWeek)} className="text-primary hover:underline">
+                            Week {launchWeek.week}, {launchWeek.year}
+                          </Link>
+                        </p>
+                      </div>
+                    </li>
+                  )}
+                  {placement !== null && launchWeek && (
+                    <li className="flex gap-3">
+                      <Trophy className="h-5 w-5 text-amber-500 flex-shrink-0" />
+                      <div>
+                        <p className="font-medium">{medals[placement - 1]} #{placement} of the week</p>
+                        <p className="text-sm text-muted-foreground">
+                          {launchWeek.id === launchCalendar.getWeek().id ? 'Currently ranked' : 'Finished'} in the top 3
+                        </p>
+                      </div>
+                    </li>
+                  )}
+                  {launch && (
+                    <li className="flex gap-3">
+                      <ChevronUp className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                      <div>
+                        <p className="font-medium">{launch.upvotes || 0} upvotes</p>
+                      </div>
+                    </li>
+                  )}
+                </ol>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
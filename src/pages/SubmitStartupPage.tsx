@@ -2,26 +2,24 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useForm } from 'react-hook-form';
-import { collection, addDoc, Timestamp } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '@/lib/firebase';
+import { getRepository } from '@/lib/data/repository';
+import { getSelectableCategories } from '@/lib/data/categories';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { useTagUsage } from '@/lib/hooks/useTagUsage';
+import { clearSubmissionsCache } from '@/lib/hooks/useSubmissions';
 import { useAuthContext } from '@/providers/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { TagInput } from '@/components/tags/TagInput';
+import { StartupDetails } from '@/lib/types';
+import { MAX_TAGS } from '@/lib/utils/tags';
 import { useToast } from '@/hooks/use-toast';
 
-const categories = [
-  { value: 'business', label: 'Business' },
-  { value: 'marketing', label: 'Marketing' },
-  { value: 'design', label: 'Design' },
-  { value: 'lifestyle', label: 'Lifestyle' },
-  { value: 'productivity', label: 'Productivity' },
-  { value: 'for-sale', label: 'For Sale' }
-];
-
 interface SubmissionFormData {
   name: string;
   url: string;
@@ -29,6 +27,62 @@ interface SubmissionFormData {
   description: string;
   category: string;
   logo: FileList;
+  longDescription: string;
+  foundedDate: string;
+  location: string;
+  mrr: string;
+  founders: string;
+  twitter: string;
+  linkedin: string;
+  github: string;
+  bluesky: string;
+}
+
+type MetricOption = 'funding' | 'monetisation' | 'commitment';
+
+const metricOptions: Record<MetricOption, { label: string; options: string[] }> = {
+  funding: {
+    label: 'Funding',
+    options: ['Bootstrapped', 'Pre-seed', 'Seed', 'Series A', 'Series B+']
+  },
+  monetisation: {
+    label: 'Monetisation',
+    options: ['Subscription', 'One-time purchase', 'Freemium', 'Usage-based', 'Ads', 'Not monetised yet']
+  },
+  commitment: {
+    label: 'Commitment',
+    options: ['Full-time', 'Part-time', 'Side project']
+  }
+};
+
+const socialFields = [
+  { name: 'twitter', label: 'X / Twitter', placeholder: 'https://x.com/yourstartup' },
+  { name: 'linkedin', label: 'LinkedIn', placeholder: 'https://linkedin.com/company/yourstartup' },
+  { name: 'github', label: 'GitHub', placeholder: 'https://github.com/yourstartup' },
+  { name: 'bluesky', label: 'Bluesky', placeholder: 'https://bsky.app/profile/yourstartup' }
+] as const;
+
+// Builds the optional startup details, leaving out anything that was not filled in
+function toStartupDetails(data: SubmissionFormData, selected: Partial<Record<MetricOption, string>>): StartupDetails {
+  const socialLinks: StartupDetails['socialLinks'] = {};
+  socialFields.forEach(({ name }) => {
+    const value = data[name].trim();
+    if (value) socialLinks[name] = value;
+  });
+
+  return {
+    longDescription: data.longDescription.trim(),
+    foundedDate: data.foundedDate,
+    location: data.location.trim(),
+    metrics: {
+      mrr: Number(data.mrr) || 0,
+      founders: data.founders.trim(),
+      funding: selected.funding || '',
+      monetisation: selected.monetisation || '',
+      commitment: selected.commitment || ''
+    },
+    socialLinks
+  };
 }
 
 export function SubmitStartupPage() {
@@ -38,6 +92,10 @@ export function SubmitStartupPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { register, handleSubmit, formState: { errors }, setValue, watch } = useForm<SubmissionFormData>();
   const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const { categories } = useCategories();
+  const [tags, setTags] = useState<string[]>([]);
+  const { tags: tagSuggestions } = useTagUsage();
+  const [selectedMetrics, setSelectedMetrics] = useState<Partial<Record<MetricOption, string>>>({});
 
   // Watch the logo field to show preview and validate size
   const logoFile = watch('logo');
@@ -81,26 +139,25 @@ export function SubmitStartupPage() {
     setIsSubmitting(true);
 
     try {
+      const repository = getRepository();
+
       // Upload logo first
       const file = data.logo[0];
-      const logoRef = ref(storage, `startup-logos/${Date.now()}_${file.name}`);
-      await uploadBytes(logoRef, file);
-      const logoUrl = await getDownloadURL(logoRef);
+      const logoUrl = await repository.assets.upload(`startup-logos/${Date.now()}_${file.name}`, file);
 
-      // Add startup to Firestore with pending status
-      const startupRef = collection(db, 'startups');
-      await addDoc(startupRef, {
+      // Submissions are always created with pending status
+      await repository.submissions.create({
         name: data.name,
         url: data.url,
         socialHandle: data.socialHandle,
         description: data.description,
         category: selectedCategory,
+        tags,
         logoUrl,
         userId: user.uid,
-        status: 'pending', // Always set initial status as pending
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now()
+        details: toStartupDetails(data, selectedMetrics)
       });
+      await clearSubmissionsCache(user.uid);
 
       toast({
         title: 'Success!',
@@ -205,18 +262,23 @@ export function SubmitStartupPage() {
                       <SelectValue placeholder="Select a category" />
                     </SelectTrigger>
                     <SelectContent>
-                      {categories.map((category) => (
+                      {getSelectableCategories(categories).map((category) => (
                         <SelectItem 
-                          key={category.value} 
-                          value={category.value}
+                          key={category.id} 
+                          value={category.id}
                         >
-                          {category.label}
+                          {category.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="tags">Tags (up to {MAX_TAGS})</Label>
+                  <TagInput id="tags" value={tags} onChange={setTags} suggestions={tagSuggestions} />
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="logo">Logo * (Max 200KB)</Label>
                   <Input
@@ -236,6 +298,105 @@ export function SubmitStartupPage() {
                   )}
                 </div>
 
+                <Separator />
+
+                <div className="space-y-1">
+                  <h3 className="font-semibold">About your startup</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Optional, but shown on your startup page
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="longDescription">Full Description</Label>
+                  <Textarea
+                    id="longDescription"
+                    rows={5}
+                    placeholder="What does your startup do, who is it for and what makes it different?"
+                    {...register('longDescription', {
+                      maxLength: {
+                        value: 2000,
+                        message: 'Description must be less than 2000 characters'
+                      }
+                    })}
+                  />
+                  {errors.longDescription && (
+                    <p className="text-sm text-destructive">{errors.longDescription.message}</p>
+                  )}
+                </div>
+
+                <div className="grid gap-6 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="foundedDate">Founded</Label>
+                    <Input id="foundedDate" type="month" {...register('foundedDate')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="location">Location</Label>
+                    <Input id="location" placeholder="Berlin, Germany" {...register('location')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="mrr">Monthly Recurring Revenue ($)</Label>
+                    <Input
+                      id="mrr"
+                      type="number"
+                      min={0}
+                      placeholder="0"
+                      {...register('mrr', {
+                        min: { value: 0, message: 'MRR cannot be negative' }
+                      })}
+                    />
+                    {errors.mrr && (
+                      <p className="text-sm text-destructive">{errors.mrr.message}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="founders">Founders</Label>
+                    <Input id="founders" placeholder="Jane Doe, John Roe" {...register('founders')} />
+                  </div>
+                  {(Object.keys(metricOptions) as MetricOption[]).map((metric) => (
+                    <div key={metric} className="space-y-2">
+                      <Label>{metricOptions[metric].label}</Label>
+                      <Select
+                        value={selectedMetrics[metric] || ''}
+                        onValueChange={(value) => setSelectedMetrics(prev => ({ ...prev, [metric]: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {metricOptions[metric].options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid gap-6 sm:grid-cols-2">
+                  {socialFields.map(({ name, label, placeholder }) => (
+                    <div key={name} className="space-y-2">
+                      <Label htmlFor={name}>{label}</Label>
+                      <Input
+                        id={name}
+                        type="url"
+                        placeholder={placeholder}
+                        {...register(name, {
+                          pattern: {
+                            value: /^https?:\/\/.+/,
+                            message: 'Please enter a valid URL starting with http:// or https://'
+                          }
+                        })}
+                      />
+                      {errors[name] && (
+                        <p className="text-sm text-destructive">{errors[name]?.message}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
                 <Button 
                   type="submit" 
                   className="w-full"
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { Badge } from '@/components/ui/badge';
+import { getTagRegistry } from '@/lib/data/tags';
+import { usePaginatedLaunches } from '@/lib/hooks/usePaginatedLaunches';
+import { useInfiniteScroll } from '@/lib/hooks/useInfiniteScroll';
+import { TagRecord } from '@/lib/types';
+import { getTagPath } from '@/lib/utils/paths';
+import { resolveTag } from '@/lib/utils/tags';
+
+const PAGE_SIZE = 20;
+
+export function TagPage() {
+  const { tag: param = '' } = useParams<{ tag: string }>();
+  const [registry, setRegistry] = useState<TagRecord[] | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    getTagRegistry()
+      .then(loaded => {
+        if (!isCancelled) setRegistry(loaded);
+      })
+      .catch(error => {
+        console.error('Error fetching tags:', error);
+        // Without the registry the tag is shown as typed
+        if (!isCancelled) setRegistry([]);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  // Null for banned tags; merged tags resolve to the tag they were merged into
+  const tag = registry ? resolveTag(param, registry) : null;
+  const record = registry?.find(entry => entry.tag === tag);
+
+  const { launches, total, hasMore, isLoading, loadMore } = usePaginatedLaunches(
+    tag ? { tag, order: 'upvotes' } : null,
+    PAGE_SIZE
+  );
+
+  const loadingRef = useInfiniteScroll(loadMore, hasMore && !isLoading);
+
+  useEffect(() => {
+    if (tag) {
+      document.title = `#${tag} startups - startups.ad`;
+    }
+  }, [tag]);
+
+  // Differently written and merged tags move to the canonical URL
+  if (tag && tag !== param) {
+    return <Navigate to={getTagPath(tag)} replace />;
+  }
+
+  if (!registry) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!tag) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Tag Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            This tag doesn't exist.
+          </p>
+          <Link to="/" className="text-primary hover:underline font-medium">
+            See this week's launches →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-10">
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">#{tag}</h1>
+            <div className="flex items-center justify-center gap-2 mt-3">
+              {total !== null && (
+                <Badge variant="secondary">
+                  {total} {total === 1 ? 'launch' : 'launches'}
+                </Badge>
+              )}
+              {record?.curated && <Badge variant="outline">Featured tag</Badge>}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : launches.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No launches with this tag yet
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {launches.map(launch => (
+                <LaunchListItem key={launch.id} launch={launch} />
+              ))}
+            </div>
+          )}
+
+          {hasMore && !isLoading && (
+            <div ref={loadingRef} className="py-4 text-center">
+              <div className="animate-pulse text-primary">Loading more...</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { unsubscribeFromDigest } from '@/lib/data/digest';
+
+type UnsubscribeState = 'idle' | 'saving' | 'done' | 'not-found' | 'error';
+
+// Landing page of the unsubscribe link in every digest email. Unsubscribing takes a
+// click so link scanners in mail clients can't end subscriptions by opening the link.
+export function UnsubscribePage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [state, setState] = useState<UnsubscribeState>('idle');
+
+  const handleUnsubscribe = async () => {
+    setState('saving');
+    try {
+      setState(await unsubscribeFromDigest(token) ? 'done' : 'not-found');
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      setState('error');
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle>Weekly digest</CardTitle>
+          <CardDescription>
+            {state === 'done'
+              ? "You won't get the weekly digest anymore."
+              : state === 'not-found'
+                ? 'This subscription has already ended.'
+                : 'Stop getting the weekly digest of top launches?'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {state === 'done' || state === 'not-found' ? (
+            <>
+              <CheckCircle className="h-12 w-12 text-green-500" />
+              <Link to="/" className="text-primary hover:underline font-medium">
+                See this week's launches →
+              </Link>
+            </>
+          ) : (
+            <>
+              {state === 'error' && (
+                <p className="text-sm text-destructive">Failed to unsubscribe. Please try again.</p>
+              )}
+              <Button onClick={handleUnsubscribe} disabled={state === 'saving'}>
+                {state === 'saving' ? 'Unsubscribing...' : 'Unsubscribe'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
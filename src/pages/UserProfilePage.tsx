@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { FollowButton } from '@/components/profile/FollowButton';
+import { getPublicProfile, PublicProfilePage } from '@/lib/data/profiles';
+import { getFollowCounts } from '@/lib/data/follows';
+import { FollowCounts } from '@/lib/data/repository';
+import { useAuthContext } from '@/providers/AuthProvider';
+import { usePageMeta } from '@/lib/hooks/usePageMeta';
+import { getProfileMeta } from '@/lib/seo/meta';
+import { formatWeekRange } from '@/lib/utils/launch-calendar';
+import { getCollectionPath, getWeekPath } from '@/lib/utils/paths';
+
+const medals = ['🥇', '🥈', '🥉'];
+
+function formatJoinDate(date: Date) {
+  return new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'long' }).format(date);
+}
+
+export function UserProfilePage() {
+  const { username = '' } = useParams<{ username: string }>();
+  const [result, setResult] = useState<PublicProfilePage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [counts, setCounts] = useState<FollowCounts | null>(null);
+  const { user } = useAuthContext();
+  const uid = result?.profile.uid;
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+
+    getPublicProfile(username)
+      .then(found => {
+        if (!isCancelled) setResult(found);
+      })
+      .catch(error => {
+        console.error('Error fetching profile:', error);
+        if (!isCancelled) setResult(null);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [username]);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    let isCancelled = false;
+    getFollowCounts(uid)
+      .then(found => {
+        if (!isCancelled) setCounts(found);
+      })
+      .catch(error => console.error('Error fetching follow counts:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [uid]);
+
+  // The follower count moves with the visitor's own follow rather than being re-read
+  const handleFollowChange = (isFollowing: boolean) => {
+    setCounts(current => current && {
+      ...current,
+      followers: Math.max(current.followers + (isFollowing ? 1 : -1), 0)
+    });
+  };
+
+  const meta = useMemo(() => (result ? getProfileMeta(result.profile) : null), [result]);
+  usePageMeta(meta);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">User Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            No one has claimed @{username} yet.
+          </p>
+          <Link to="/" className="text-primary hover:underline font-medium">
+            See this week's launches →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { profile, launches, upvoted, collections, awards } = result;
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto space-y-12">
+          <div className="flex flex-col items-center text-center gap-3">
+            <Avatar className="h-24 w-24">
+              {profile.avatarUrl && <AvatarImage src={profile.avatarUrl} alt={profile.displayName} />}
+              <AvatarFallback className="text-2xl">
+                {(profile.displayName || profile.username).charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <h1 className="text-3xl sm:text-4xl font-bold">{profile.displayName || `@${profile.username}`}</h1>
+              <p className="text-muted-foreground">
+                @{profile.username}
+                {profile.createdAt && ` · Joined ${formatJoinDate(profile.createdAt)}`}
+              </p>
+            </div>
+            {profile.bio && <p className="max-w-xl whitespace-pre-line">{profile.bio}</p>}
+            {counts && (
+              <p className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">{counts.followers}</span> {counts.followers === 1 ? 'follower' : 'followers'}
+                {' · '}
+                <span className="font-medium text-foreground">{counts.following}</span> following
+              </p>
+            )}
+            {user?.uid !== profile.uid && <FollowButton userId={profile.uid} onChange={handleFollowChange} />}
+          </div>
+
+          {awards.length > 0 && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4">Awards</h2>
+              <div className="flex flex-wrap gap-2">
+                {awards.map(award => (
+                  <Link key={`${award.week.id}/${award.launch.id}`} to={getWeekPath(award.week)}>
+                    <Badge variant="outline" className="gap-1 py-1 hover:bg-muted">
+                      <span aria-hidden="true">{medals[award.place - 1]}</span>
+                      #{award.place} {award.launch.name} · {formatWeekRange(award.week)}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section>
+            <h2 className="text-xl font-semibold mb-4">Launches</h2>
+            {launches.length === 0 ? (
+              <p className="text-muted-foreground">No launches yet</p>
+            ) : (
+              <div className="space-y-4">
+                {launches.map(launch => (
+                  <LaunchListItem key={launch.id} launch={launch} />
+                ))}
+              </div>
+            )}
+          </section>
+
+          {profile.showUpvotes && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4">Upvoted</h2>
+              {upvoted.length === 0 ? (
+                <p className="text-muted-foreground">No upvotes yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {upvoted.map(launch => (
+                    <LaunchListItem key={launch.id} launch={launch} />
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
+          {collections.length > 0 && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4">Collections</h2>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {collections.map(collection => (
+                  <Link
+                    key={collection.id}
+                    to={getCollectionPath(profile.username, collection.slug)}
+                    className="block rounded-lg border p-4 hover:bg-muted/50 transition-colors"
+                  >
+                    <h3 className="font-medium">{collection.name}</h3>
+                    {collection.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{collection.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {collection.launchIds.length} {collection.launchIds.length === 1 ? 'launch' : 'launches'}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
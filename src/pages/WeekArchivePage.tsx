@@ -0,0 +1,141 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { LaunchListItem } from '@/components/launch/LaunchListItem';
+import { WeeklyWinners } from '@/components/launch/WeeklyWinners';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { usePaginatedLaunches } from '@/lib/hooks/usePaginatedLaunches';
+import { useInfiniteScroll } from '@/lib/hooks/useInfiniteScroll';
+import { usePageMeta } from '@/lib/hooks/usePageMeta';
+import { getWeekMeta } from '@/lib/seo/meta';
+import { launchCalendar, formatWeekRange } from '@/lib/utils/launch-calendar';
+import { getWeekPath } from '@/lib/utils/paths';
+
+const PAGE_SIZE = 20;
+
+export function WeekArchivePage() {
+  const { year, week } = useParams<{ year: string; week: string }>();
+  const launchWeek = useMemo(() => {
+    const found = launchCalendar.getWeekByNumber(Number(year), Number(week));
+    // Weeks that haven't started yet have nothing to show
+    return found && found.start <= new Date() ? found : null;
+  }, [year, week]);
+
+  const isCurrentWeek = launchWeek?.id === launchCalendar.getWeek().id;
+
+  // An unknown week id matches no launches, so the hook can run unconditionally
+  const { launches, hasMore, isLoading, loadMore } = usePaginatedLaunches(
+    { week: launchWeek?.id ?? `${year}-W${week}`, order: 'upvotes' },
+    PAGE_SIZE
+  );
+
+  const loadingRef = useInfiniteScroll(loadMore, hasMore && !isLoading);
+
+  const meta = useMemo(() => (launchWeek ? getWeekMeta(launchWeek) : null), [launchWeek]);
+  usePageMeta(meta);
+
+  if (!launchWeek) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Week Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            This launch week doesn't exist or hasn't started yet.
+          </p>
+          <Link to="/weeks" className="text-primary hover:underline font-medium">
+            Browse past weeks →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const previousWeek = launchCalendar.getPreviousWeek(launchWeek);
+  const nextWeek = isCurrentWeek ? null : launchCalendar.getNextWeek(launchWeek);
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-10">
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">
+              Week {launchWeek.week}, {launchWeek.year}
+            </h1>
+            <p className="text-muted-foreground">{formatWeekRange(launchWeek)}</p>
+            {isCurrentWeek && (
+              <Badge variant="success" className="mt-3">In progress</Badge>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mb-10">
+            <Button variant="outline" size="sm" asChild>
+              <Link to={getWeekPath(previousWeek)}>
+                <ChevronLeft className="h-4 w-4 mr-1" /> Week {previousWeek.week}
+              </Link>
+            </Button>
+            <Link to="/weeks" className="text-sm text-primary hover:underline font-medium">
+              All weeks
+            </Link>
+            {nextWeek ? (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={getWeekPath(nextWeek)}>
+                  Week {nextWeek.week} <ChevronRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/">
+                  This week <ChevronRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : launches.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No launches this week
+            </p>
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold text-center mb-8">
+                {isCurrentWeek ? '🏆 Leading This Week' : '🏆 Winners'}
+              </h2>
+              <div className="mb-16">
+                <WeeklyWinners winners={launches} />
+              </div>
+
+              {launches.length > 3 && (
+                <>
+                  <h2 className="text-xl font-semibold mb-6">All launches</h2>
+                  <div className="space-y-4">
+                    {launches.slice(3).map((launch, index) => (
+                      <div key={launch.id} className="flex items-center gap-3">
+                        <span className="w-8 text-right text-sm font-medium text-muted-foreground">
+                          #{index + 4}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <LaunchListItem launch={launch} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {hasMore && (
+                <div ref={loadingRef} className="py-4 text-center">
+                  <div className="animate-pulse text-primary">Loading more...</div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronRight } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { getArchiveWeeks } from '@/lib/data/launches';
+import { usePageMeta } from '@/lib/hooks/usePageMeta';
+import { getWeeksIndexMeta } from '@/lib/seo/meta';
+import { LaunchWeek, formatWeekRange } from '@/lib/utils/launch-calendar';
+import { getWeekPath } from '@/lib/utils/paths';
+
+const meta = getWeeksIndexMeta();
+
+export function WeeksIndexPage() {
+  const [weeks, setWeeks] = useState<LaunchWeek[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  usePageMeta(meta);
+
+  useEffect(() => {
+    getArchiveWeeks()
+      .then(setWeeks)
+      .catch(error => console.error('Error fetching archive weeks:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen">
+      <div className="px-4 sm:px-6 py-8 sm:py-12">
+        <div className="max-w-3xl mx-auto">
+          <h1 className="text-3xl sm:text-4xl font-bold text-center mb-2">Past Launch Weeks</h1>
+          <p className="text-muted-foreground text-center mb-10">
+            Every week's launches and winners, kept forever.
+          </p>
+
+          {isLoading ? (
+            <div className="py-16 text-center">
+              <div className="animate-pulse text-primary">Loading...</div>
+            </div>
+          ) : weeks.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">
+              No past weeks yet
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {weeks.map(week => (
+                <Link key={week.id} to={getWeekPath(week)} className="block">
+                  <Card className="p-4 flex items-center justify-between hover:border-primary/20 hover:bg-accent/5 transition-colors">
+                    <div>
+                      <p className="font-semibold">Week {week.week}, {week.year}</p>
+                      <p className="text-sm text-muted-foreground">{formatWeekRange(week)}</p>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
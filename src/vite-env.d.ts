@@ -7,6 +7,9 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_STORAGE_BUCKET: string
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string
   readonly VITE_FIREBASE_APP_ID: string
+  readonly VITE_DATA_SOURCE?: 'firestore' | 'memory'
+  readonly VITE_LAUNCH_TIMEZONE?: string
+  readonly VITE_LAUNCH_WEEK_START?: string
 }
 
 interface ImportMeta {